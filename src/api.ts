@@ -0,0 +1,76 @@
+/**
+ * Programmatic API (the package's `main` entry).
+ *
+ * Everything here returns data and never prints or exits: failures are thrown
+ * as ChaimError subclasses, whose exitCode matches the CLI. The CLI entry
+ * point is index.ts, which wraps these functions.
+ *
+ * @example
+ * import { generate, validateSchemaFile } from '@chaim-tools/chaim';
+ *
+ * const result = await generate({ package: 'com.example.model' });
+ */
+
+export {
+  generate,
+  GenerateOptions,
+  GenerateResult,
+  GenerateTargetResult,
+  GenerateTableResult,
+} from './commands/generate';
+export {
+  validateSchemaFile,
+  validateSchemaFiles,
+  ValidateResult,
+  ValidateFilesResult,
+  ValidateOptions,
+  ValidateFilesOptions,
+  ValidatedSchemaFile,
+} from './commands/validate';
+export {
+  diffSchemas,
+  recommendBump,
+  bumpVersion,
+  isBumpedEnough,
+  SchemaChange,
+  SchemaChangeKind,
+  SchemaDiff,
+  VersionBump,
+} from './services/schema-diff';
+export { parseSchema, readSchemaFile, readSchemaAtRef } from './services/schema-source';
+export {
+  discoverSnapshots,
+  listSnapshots,
+  resolveSnapshot,
+  resolveAllSnapshots,
+  DiscoveryOptions,
+  SnapshotFileInfo,
+  ResolvedSnapshot,
+} from './services/snapshot-discovery';
+export {
+  resolveFieldNames,
+  resolveNestedFieldNames,
+  detectCollisions,
+  ResolvedField,
+  CollisionError,
+  NamingConvention,
+} from './services/name-resolver';
+export { loadConfig, LoadConfigOptions } from './config/loader';
+export { ResolvedChaimConfig, SupportedLanguage } from './config/types';
+export { Logger, consoleLogger, silentLogger } from './services/logger';
+export {
+  EXIT_CODES,
+  ChaimError,
+  UsageError,
+  ConfigError,
+  SnapshotNotFoundError,
+  SchemaValidationError,
+  KeyConsistencyError,
+  NameCollisionError,
+  GeneratorFailureError,
+  GeneratorPluginError,
+  OutputDriftError,
+  EnvironmentError,
+  VersionNotBumpedError,
+  getExitCode,
+} from './errors';
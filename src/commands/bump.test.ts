@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { bumpCommand } from './bump';
+import { EXIT_CODES, UsageError, VersionNotBumpedError } from '../errors';
+
+vi.mock('@chaim-tools/chaim-bprint-spec', () => ({
+  validateSchema: vi.fn((schema) => schema),
+}));
+
+const order = (schemaVersion: string, fields: object[] = [], description = 'An order', entityName = 'Order') => JSON.stringify({
+  schemaVersion,
+  entityName,
+  description,
+  primaryKey: { partitionKey: 'orderId' },
+  fields: [{ name: 'orderId', type: 'string', required: true }, ...fields],
+}, null, 2) + '\n';
+
+describe('bumpCommand', () => {
+  let dir: string;
+  let schemaFile: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'pipe' });
+
+  const commit = (content: string): void => {
+    fs.writeFileSync(schemaFile, content, 'utf-8');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Update order schema');
+  };
+
+  const version = (): string => JSON.parse(fs.readFileSync(schemaFile, 'utf-8')).schemaVersion;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-bump-test-'));
+    schemaFile = path.join(dir, 'order.bprint');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should bump the minor or major version', async () => {
+    fs.writeFileSync(schemaFile, order('1.3'), 'utf-8');
+
+    await bumpCommand(schemaFile, {});
+    expect(version()).toBe('1.4');
+
+    await bumpCommand(schemaFile, { major: true });
+    expect(version()).toBe('2.0');
+  });
+
+  it('should only replace the schemaVersion value, keeping the formatting', async () => {
+    const content = '{\r\n\t"schemaVersion" : "1.3",\r\n\t"entityName": "Caf\\u00e9",\r\n\t"fields": [ { "name": "schemaVersion" } ]\r\n}\r\n\r\n';
+    fs.writeFileSync(schemaFile, content, 'utf-8');
+
+    await bumpCommand(schemaFile, { major: true });
+
+    expect(fs.readFileSync(schemaFile, 'utf-8')).toBe(content.replace('"1.3"', '"2.0"'));
+  });
+
+  describe('--auto', () => {
+    beforeEach(() => {
+      git('init', '-q');
+      commit(order('1.2', [{ name: 'total', type: 'number' }]));
+    });
+
+    it('should bump major for breaking changes since the last commit', async () => {
+      fs.writeFileSync(schemaFile, order('1.2'), 'utf-8');
+
+      await bumpCommand(schemaFile, { auto: true });
+
+      expect(version()).toBe('2.0');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Bumped order.bprint: 1.2 -> 2.0'));
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Field 'total' removed"));
+    });
+
+    it('should bump minor for additive changes, once', async () => {
+      fs.writeFileSync(schemaFile, order('1.2', [{ name: 'total', type: 'number' }, { name: 'note', type: 'string' }]), 'utf-8');
+
+      await bumpCommand(schemaFile, { auto: true });
+      await bumpCommand(schemaFile, { auto: true });
+
+      expect(version()).toBe('1.3');
+      expect(console.log).toHaveBeenLastCalledWith(expect.stringContaining('already bumped for minor changes since HEAD'));
+    });
+
+    it('should not bump when only descriptions changed', async () => {
+      fs.writeFileSync(schemaFile, order('1.2', [{ name: 'total', type: 'number' }], 'A customer order'), 'utf-8');
+
+      await bumpCommand(schemaFile, { auto: true });
+
+      expect(version()).toBe('1.2');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('only descriptions changed'));
+    });
+
+    it('should compare with a baseline file or ref', async () => {
+      const baseline = path.join(dir, 'order.v1.bprint');
+      fs.writeFileSync(baseline, order('1.2'), 'utf-8');
+
+      await bumpCommand(schemaFile, { auto: true, baseline });
+      expect(version()).toBe('1.3');
+
+      commit(order('1.5', [{ name: 'total', type: 'string' }]));
+      await bumpCommand(schemaFile, { auto: true, against: 'HEAD~1' });
+      expect(version()).toBe('2.0');
+    });
+  });
+
+  describe('--check', () => {
+    beforeEach(() => {
+      git('init', '-q');
+      commit(order('1.2', [{ name: 'total', type: 'number' }]));
+    });
+
+    it('should fail without writing when the version is not bumped enough', async () => {
+      const content = order('1.3', [{ name: 'total', type: 'number', required: true }]);
+      fs.writeFileSync(schemaFile, content, 'utf-8');
+
+      const error = await bumpCommand(schemaFile, { check: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionNotBumpedError);
+      expect(error.exitCode).toBe(EXIT_CODES.VERSION_NOT_BUMPED);
+      expect(error.message).toBe(`${schemaFile}: schemaVersion 1.3 must be at least 2.0 (1 breaking change(s) since HEAD)`);
+      expect(error.hints).toContain("Breaking: Field 'total' is now required, without a default");
+      expect(fs.readFileSync(schemaFile, 'utf-8')).toBe(content);
+    });
+
+    it('should pass when unchanged, bumped enough, or new', async () => {
+      await bumpCommand(schemaFile, { check: true });
+
+      fs.writeFileSync(schemaFile, order('2.0'), 'utf-8');
+      await bumpCommand(schemaFile, { check: true });
+
+      const newFile = path.join(dir, 'item.bprint');
+      fs.writeFileSync(newFile, order('1.0'), 'utf-8');
+      await bumpCommand(newFile, { check: true });
+      expect(console.log).toHaveBeenLastCalledWith(expect.stringContaining('new since HEAD, no bump needed'));
+    });
+
+    it('should reject --major with --check and --against without --auto', async () => {
+      await expect(bumpCommand(schemaFile, { check: true, major: true })).rejects.toBeInstanceOf(UsageError);
+      await expect(bumpCommand(schemaFile, { against: 'HEAD' })).rejects.toBeInstanceOf(UsageError);
+    });
+  });
+
+  describe('several files', () => {
+    const schemas = (): string => path.join(dir, 'schemas');
+    const write = (name: string, content: string): void => {
+      fs.writeFileSync(path.join(schemas(), name), content, 'utf-8');
+    };
+    const read = (name: string): string => fs.readFileSync(path.join(schemas(), name), 'utf-8');
+    const printed = () => vi.mocked(console.log).mock.calls.map((args) => args.join(' ')).join('\n');
+
+    beforeEach(() => {
+      fs.mkdirSync(path.join(schemas(), 'nested'), { recursive: true });
+      write('order.bprint', order('1.2', [{ name: 'total', type: 'number' }]));
+      write('nested/item.bprint', order('1.0', [], 'An item', 'Item'));
+      write('user.bprint', order('3.1', [], 'A user', 'User'));
+      git('init', '-q');
+      git('add', '.');
+      git('commit', '-q', '-m', 'Add schemas');
+    });
+
+    it('should bump only the files changed since HEAD in a directory', async () => {
+      write('order.bprint', order('1.2', [{ name: 'total', type: 'number' }, { name: 'note', type: 'string' }]));
+      write('nested/item.bprint', order('1.0', [{ name: 'sku', type: 'string' }], 'An item', 'Item'));
+      const user = read('user.bprint');
+
+      await bumpCommand(schemas(), { major: true });
+
+      expect(JSON.parse(read('order.bprint')).schemaVersion).toBe('2.0');
+      expect(JSON.parse(read('nested/item.bprint')).schemaVersion).toBe('2.0');
+      expect(read('user.bprint')).toBe(user);
+      expect(printed()).toMatch(/order\.bprint\s+Order\s+1\.2 -> 2\.0\s+major: 1 non-breaking change\(s\)/);
+      expect(printed()).toMatch(/user\.bprint\s+User\s+3\.1\s+unchanged/);
+      expect(printed()).toContain('✓ Bumped 2 of 3 schema(s)');
+    });
+
+    it('should pick each bump with --auto and append a changelog', async () => {
+      const changelog = path.join(dir, 'SCHEMA_CHANGELOG.md');
+      write('order.bprint', order('1.2'));
+      write('nested/item.bprint', order('1.0', [{ name: 'sku', type: 'string' }], 'An item', 'Item'));
+      write('user.bprint', order('3.1', [], 'A person', 'User'));
+
+      await bumpCommand(`${schemas()}/**/*.bprint`, { auto: true, changelog });
+
+      expect(JSON.parse(read('order.bprint')).schemaVersion).toBe('2.0');
+      expect(JSON.parse(read('nested/item.bprint')).schemaVersion).toBe('1.1');
+      expect(JSON.parse(read('user.bprint')).schemaVersion).toBe('3.1');
+      const entry = fs.readFileSync(changelog, 'utf-8');
+      expect(entry).toMatch(/^# Schema Changelog\n\n## \d{4}-\d{2}-\d{2}\n/);
+      expect(entry).toContain("### Order 1.2 → 2.0 (major)\n\n`" + path.join(schemas(), 'order.bprint') + "`, changes since HEAD:\n\n- **Breaking:** Field 'total' removed\n");
+      expect(entry).toContain("### Item 1.0 → 1.1 (minor)");
+      expect(entry).toContain("- Field 'sku' added\n");
+      expect(entry).not.toContain('User');
+
+      write('user.bprint', order('3.1', [{ name: 'email', type: 'string' }], 'A person', 'User'));
+      await bumpCommand([path.join(schemas(), 'user.bprint'), path.join(schemas(), 'order.bprint')], { auto: true, changelog });
+
+      const appended = fs.readFileSync(changelog, 'utf-8');
+      expect(appended.startsWith(entry)).toBe(true);
+      expect(appended.slice(entry.length)).toMatch(/^\n## \d{4}-\d{2}-\d{2}\n\n### User 3\.1 → 3\.2 \(minor\)/);
+    });
+
+    it('should report every file not bumped enough with --check', async () => {
+      write('order.bprint', order('1.2'));
+      write('nested/item.bprint', order('1.1', [{ name: 'sku', type: 'string' }], 'An item', 'Item'));
+
+      const error = await bumpCommand(schemas(), { check: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(VersionNotBumpedError);
+      expect(error.message).toBe('1 of 3 schema(s) not bumped enough for their changes since HEAD');
+      expect(error.hints[0]).toBe(`${path.join(schemas(), 'order.bprint')}: schemaVersion 1.2 must be at least 2.0 (1 breaking change(s))`);
+      expect(JSON.parse(read('order.bprint')).schemaVersion).toBe('1.2');
+    });
+
+    it('should reject --baseline and empty matches', async () => {
+      await expect(bumpCommand(schemas(), { auto: true, baseline: path.join(schemas(), 'order.bprint') }))
+        .rejects.toBeInstanceOf(UsageError);
+      await expect(bumpCommand(`${schemas()}/*.json`, {})).rejects.toThrow(`No .bprint files match ${schemas()}/*.json`);
+    });
+  });
+});
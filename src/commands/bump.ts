@@ -1,76 +1,402 @@
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
+import { readSchemaAtRef, readSchemaFile } from '../services/schema-source';
+import { bumpVersion, diffSchemas, isBumpedEnough, SchemaChange, VersionBump } from '../services/schema-diff';
+import { findSchemaFiles, hasGlobChars, isDirectory } from '../services/glob';
+import { setJsonProperty } from '../config/jsonc';
+import { SchemaValidationError, UsageError, VersionNotBumpedError } from '../errors';
 
 /**
- * Increment the schemaVersion in a .bprint file.
+ * Changelog written by --changelog when no file is given.
+ */
+export const DEFAULT_CHANGELOG_FILE = 'SCHEMA_CHANGELOG.md';
+
+/**
+ * Options for `chaim bump`.
+ */
+export interface BumpOptions {
+  /** Major instead of minor bump */
+  major?: boolean;
+  /** Pick the bump from the changes since the baseline */
+  auto?: boolean;
+  /** Fail if the version is not bumped enough for the changes since the baseline; writes nothing */
+  check?: boolean;
+  /** Git ref of the baseline (default: HEAD) */
+  against?: string;
+  /** Baseline .bprint file instead of a git ref */
+  baseline?: string;
+  /** Append the changes of the bumped schemas to a changelog (true: SCHEMA_CHANGELOG.md) */
+  changelog?: string | boolean;
+}
+
+/**
+ * A schema compared with its baseline, and the version it needs.
+ */
+interface BumpPlan {
+  file: string;
+  entityName: string;
+  /** schemaVersion at the baseline; undefined if the file is new since the baseline */
+  baselineVersion?: string;
+  currentVersion: string;
+  bump: VersionBump;
+  /** Version to bump to; undefined if the current version is already enough */
+  newVersion?: string;
+  changes: SchemaChange[];
+}
+
+/**
+ * Increment the schemaVersion in one or more .bprint files.
  *
  * Default is a minor bump (e.g., 1.3 -> 1.4).
  * With --major, performs a major bump (e.g., 1.3 -> 2.0).
+ * With --auto or --check, compares the file with a baseline instead; see bumpAuto().
+ * With several files, a glob or a directory, bumps only the files that
+ * changed since the baseline ref; see bumpMany().
+ *
+ * @throws SchemaValidationError if a file is missing or has no usable schemaVersion
+ * @throws VersionNotBumpedError with --check, if a version is not bumped enough
  */
 export async function bumpCommand(
-  schemaFile: string,
-  options: { major?: boolean }
+  schemaFiles: string | string[],
+  options: BumpOptions
 ): Promise<void> {
-  try {
-    const resolvedPath = path.resolve(schemaFile);
+  const patterns = Array.isArray(schemaFiles) ? schemaFiles : [schemaFiles];
+  if (options.check && options.changelog) {
+    throw new UsageError('--changelog cannot be combined with --check');
+  }
 
-    if (!fs.existsSync(resolvedPath)) {
-      console.error(chalk.red(`Error: File not found: ${schemaFile}`));
-      process.exit(1);
-    }
+  if (patterns.length > 1 || patterns.some((pattern) => hasGlobChars(pattern) || isDirectory(pattern))) {
+    return bumpMany(patterns, options);
+  }
 
-    if (!schemaFile.endsWith('.bprint')) {
-      console.error(chalk.red('Error: File must have a .bprint extension'));
-      process.exit(1);
-    }
+  const schemaFile = patterns[0];
+  checkSchemaPath(schemaFile);
+
+  if (options.auto || options.check) {
+    return bumpAuto(schemaFile, options);
+  }
+  if (options.against || options.baseline || options.changelog) {
+    throw new UsageError('--against, --baseline and --changelog require --auto, --check or several files');
+  }
+
+  const currentVersion = readSchemaVersion(schemaFile);
+  const [major, minor] = currentVersion.split('.').map(Number);
+  let newVersion: string;
+
+  if (options.major) {
+    newVersion = `${major + 1}.0`;
+  } else {
+    newVersion = `${major}.${minor + 1}`;
+  }
+
+  writeSchemaVersion(schemaFile, newVersion);
+
+  const fileName = path.basename(schemaFile);
+  const bumpType = options.major ? 'major' : 'minor';
+  console.log(
+    chalk.green(`Bumped ${fileName}: ${currentVersion} -> ${newVersion}`) +
+      chalk.gray(` (${bumpType})`)
+  );
+}
+
+/**
+ * `chaim bump --auto` / `--check`: compare the file with its baseline (the
+ * version at a git ref, HEAD by default, or another file) and work out the
+ * bump the changes call for: major for breaking changes, minor for other
+ * changes, none if only descriptions changed. The bump applies to the
+ * baseline's version, so running it again does not bump twice.
+ *
+ * --auto writes the new version; --check only fails if it is too low.
+ */
+async function bumpAuto(schemaFile: string, options: BumpOptions): Promise<void> {
+  if (options.major) {
+    throw new UsageError('--major cannot be combined with --auto or --check');
+  }
+  if (options.against && options.baseline) {
+    throw new UsageError('Cannot specify both --against and --baseline');
+  }
+
+  const fileName = path.basename(schemaFile);
+  const baselineSource = options.baseline ?? options.against ?? 'HEAD';
+  const plan = await planBump(schemaFile, options);
+
+  if (plan.baselineVersion === undefined) {
+    console.log(chalk.gray(`${fileName}: new since ${baselineSource}, no bump needed`));
+    return;
+  }
+
+  if (!plan.newVersion) {
+    const reason = plan.bump === 'none'
+      ? plan.changes.length > 0 ? 'only descriptions changed' : 'no changes'
+      : `already bumped for ${plan.bump} changes`;
+    console.log(chalk.green(`✓ ${fileName}: ${plan.currentVersion}`) + chalk.gray(` (${reason} since ${baselineSource})`));
+    return;
+  }
+
+  const summary = summarizeChanges(plan);
+  if (options.check) {
+    throw new VersionNotBumpedError(
+      `${schemaFile}: schemaVersion ${plan.currentVersion} must be at least ${plan.newVersion} (${summary} since ${baselineSource})`,
+      [...plan.changes.map((change) => `${change.breaking ? 'Breaking' : 'Change'}: ${change.message}`), `Run: chaim bump --auto ${schemaFile}`]
+    );
+  }
+
+  writeSchemaVersion(schemaFile, plan.newVersion);
+  console.log(
+    chalk.green(`Bumped ${fileName}: ${plan.currentVersion} -> ${plan.newVersion}`) +
+      chalk.gray(` (${plan.bump}: ${summary} since ${baselineSource})`)
+  );
+  for (const change of plan.changes) {
+    console.log(chalk.gray(`  ${change.breaking ? '✗' : '•'} ${change.message}`));
+  }
+  if (options.changelog) {
+    appendChangelog(changelogFile(options), [plan], baselineSource);
+  }
+}
 
-    const content = fs.readFileSync(resolvedPath, 'utf-8');
-    let schema: any;
-    try {
-      schema = JSON.parse(content);
-    } catch {
-      console.error(chalk.red('Error: File is not valid JSON'));
-      process.exit(1);
+/**
+ * `chaim bump <files, globs or directories...>`: compare every .bprint file
+ * with its version at the baseline ref (HEAD by default) and bump only the
+ * files whose content changed and whose version was not bumped yet: by the
+ * bump the changes call for with --auto, minor (or --major) otherwise.
+ * Unchanged files are not touched. Prints one row per file.
+ */
+async function bumpMany(patterns: string[], options: BumpOptions): Promise<void> {
+  if (options.baseline) {
+    throw new UsageError('--baseline compares a single file; use --against <ref> with several files');
+  }
+  if (options.major && (options.auto || options.check)) {
+    throw new UsageError('--major cannot be combined with --auto or --check');
+  }
+
+  const ref = options.against ?? 'HEAD';
+  const files = expandSchemaPaths(patterns);
+  const plans: BumpPlan[] = [];
+  for (const file of files) {
+    plans.push(await planBump(file, options));
+  }
+
+  const pending = plans.filter((plan) => plan.newVersion);
+  if (!options.check) {
+    for (const plan of pending) {
+      writeSchemaVersion(plan.file, plan.newVersion as string);
     }
+  }
+  printBumpTable(plans, options);
 
-    const currentVersion = schema.schemaVersion;
-    if (!currentVersion || typeof currentVersion !== 'string') {
-      console.error(chalk.red('Error: File does not contain a valid schemaVersion field'));
-      process.exit(1);
+  if (options.check) {
+    if (pending.length > 0) {
+      throw new VersionNotBumpedError(
+        `${pending.length} of ${plans.length} schema(s) not bumped enough for their changes since ${ref}`,
+        [
+          ...pending.map((plan) => `${plan.file}: schemaVersion ${plan.currentVersion} must be at least ${plan.newVersion} (${summarizeChanges(plan)})`),
+          `Run: chaim bump --auto ${patterns.join(' ')}`,
+        ]
+      );
     }
+    console.log(chalk.green(`✓ All ${plans.length} schema(s) are bumped enough for their changes since ${ref}`));
+    return;
+  }
 
-    const versionPattern = /^\d+\.\d+$/;
-    if (!versionPattern.test(currentVersion)) {
-      console.error(
-        chalk.red(`Error: Current schemaVersion "${currentVersion}" is not in "major.minor" format`)
+  console.log(chalk.green(`✓ Bumped ${pending.length} of ${plans.length} schema(s)`) + chalk.gray(` (changes since ${ref})`));
+  if (options.changelog && pending.length > 0) {
+    appendChangelog(changelogFile(options), pending, ref);
+  }
+}
+
+/**
+ * Compare a schema with its baseline and work out the version it needs.
+ * Without --auto or --check any change (descriptions included) calls for a
+ * minor bump, or major with --major.
+ */
+async function planBump(schemaFile: string, options: BumpOptions): Promise<BumpPlan> {
+  const schema = readSchemaFile(schemaFile);
+  const baseline = options.baseline
+    ? readSchemaFile(options.baseline)
+    : await readSchemaAtRef(schemaFile, options.against ?? 'HEAD');
+  const plan: BumpPlan = {
+    file: schemaFile,
+    entityName: schema.entityName,
+    currentVersion: schema.schemaVersion,
+    bump: 'none',
+    changes: [],
+  };
+  if (!baseline) {
+    return plan;
+  }
+
+  const { changes, recommendedBump } = diffSchemas(baseline, schema);
+  const manualBump: VersionBump = options.major ? 'major' : 'minor';
+  const bump = options.auto || options.check || changes.length === 0 ? recommendedBump : manualBump;
+  plan.baselineVersion = baseline.schemaVersion;
+  plan.bump = bump;
+  plan.changes = changes;
+
+  if (!isBumpedEnough(baseline.schemaVersion, schema.schemaVersion, bump)) {
+    plan.newVersion = bumpVersion(baseline.schemaVersion, bump);
+    if (!plan.newVersion) {
+      throw new SchemaValidationError(
+        `Baseline schemaVersion "${baseline.schemaVersion}" is not in "major.minor" format`,
+        schemaFile
       );
-      process.exit(1);
     }
+  }
+  return plan;
+}
 
-    const [major, minor] = currentVersion.split('.').map(Number);
-    let newVersion: string;
+/**
+ * Short description of a plan's changes, e.g. "1 breaking change(s)".
+ */
+function summarizeChanges(plan: BumpPlan): string {
+  const breaking = plan.changes.filter((change) => change.breaking).length;
+  return breaking > 0
+    ? `${breaking} breaking change(s)`
+    : `${plan.changes.length} non-breaking change(s)`;
+}
 
-    if (options.major) {
-      newVersion = `${major + 1}.0`;
+/**
+ * Print one row per schema: file, entity, version and what changed.
+ */
+function printBumpTable(plans: BumpPlan[], options: BumpOptions): void {
+  const rows = plans.map((plan) => {
+    let status: string;
+    if (plan.baselineVersion === undefined) {
+      status = chalk.gray('new');
+    } else if (plan.changes.length === 0) {
+      status = chalk.gray('unchanged');
+    } else if (plan.newVersion) {
+      status = options.check
+        ? chalk.red(`needs ${plan.bump} bump: ${summarizeChanges(plan)}`)
+        : chalk.green(`${plan.bump}: ${summarizeChanges(plan)}`);
     } else {
-      newVersion = `${major}.${minor + 1}`;
+      status = plan.bump === 'none'
+        ? chalk.gray('only descriptions changed')
+        : chalk.gray(`already bumped: ${summarizeChanges(plan)}`);
     }
+    const version = plan.newVersion && !options.check
+      ? `${plan.currentVersion} -> ${plan.newVersion}`
+      : plan.currentVersion;
+    return [plan.file, plan.entityName, version, status];
+  });
 
-    schema.schemaVersion = newVersion;
-    fs.writeFileSync(resolvedPath, JSON.stringify(schema, null, 2) + '\n', 'utf-8');
+  const header = ['File', 'Entity', 'Version', 'Changes'];
+  const widths = header.slice(0, 3).map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]): string =>
+    `  ${row.slice(0, 3).map((cell, column) => cell.padEnd(widths[column])).join('  ')}  ${row[3]}`;
 
-    const fileName = path.basename(schemaFile);
-    const bumpType = options.major ? 'major' : 'minor';
-    console.log(
-      chalk.green(`Bumped ${fileName}: ${currentVersion} -> ${newVersion}`) +
-        chalk.gray(` (${bumpType})`)
-    );
-  } catch (error) {
-    console.error(
-      chalk.red('Error:'),
-      error instanceof Error ? error.message : error
+  console.log(chalk.blue(format(header)));
+  for (const row of rows) {
+    console.log(format(row));
+  }
+  console.log('');
+}
+
+/**
+ * Append an entry for the bumped schemas to the changelog, creating it if needed.
+ */
+function appendChangelog(changelogPath: string, plans: BumpPlan[], baselineSource: string): void {
+  const lines = [`## ${new Date().toISOString().slice(0, 10)}`, ''];
+  for (const plan of plans) {
+    lines.push(`### ${plan.entityName} ${plan.baselineVersion} → ${plan.newVersion} (${plan.bump})`, '');
+    lines.push(`\`${plan.file}\`, changes since ${baselineSource}:`, '');
+    for (const change of plan.changes) {
+      lines.push(change.breaking ? `- **Breaking:** ${change.message}` : `- ${change.message}`);
+    }
+    lines.push('');
+  }
+
+  const resolvedPath = path.resolve(changelogPath);
+  const existing = fs.existsSync(resolvedPath) ? fs.readFileSync(resolvedPath, 'utf-8') : '# Schema Changelog\n';
+  const separator = existing.endsWith('\n\n') ? '' : existing.endsWith('\n') ? '\n' : '\n\n';
+  fs.writeFileSync(resolvedPath, existing + separator + lines.join('\n'), 'utf-8');
+  console.log(chalk.gray(`Updated ${changelogPath}`));
+}
+
+/**
+ * Changelog file from --changelog [file].
+ */
+function changelogFile(options: BumpOptions): string {
+  return typeof options.changelog === 'string' ? options.changelog : DEFAULT_CHANGELOG_FILE;
+}
+
+/**
+ * Expand files, globs and directories (searched recursively) into the
+ * .bprint files they match, without duplicates.
+ *
+ * @throws SchemaValidationError if a file is missing or a glob or directory matches nothing
+ */
+function expandSchemaPaths(patterns: string[]): string[] {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!hasGlobChars(pattern) && !isDirectory(pattern)) {
+      checkSchemaPath(pattern);
+      files.add(pattern);
+      continue;
+    }
+
+    const matches = findSchemaFiles(pattern);
+    if (matches.length === 0) {
+      throw new SchemaValidationError(`No .bprint files match ${pattern}`, pattern);
+    }
+    matches.forEach((file) => files.add(file));
+  }
+  return [...files];
+}
+
+/**
+ * Check a schema path exists and has the .bprint extension.
+ */
+function checkSchemaPath(schemaFile: string): void {
+  if (!fs.existsSync(path.resolve(schemaFile))) {
+    throw new SchemaValidationError(`File not found: ${schemaFile}`, schemaFile);
+  }
+
+  if (!schemaFile.endsWith('.bprint')) {
+    throw new UsageError('File must have a .bprint extension');
+  }
+}
+
+/**
+ * Read the schemaVersion of a .bprint file, checking it is in "major.minor" format.
+ */
+function readSchemaVersion(schemaFile: string): string {
+  const currentVersion = parseSchemaJson(schemaFile).schemaVersion;
+  if (!currentVersion || typeof currentVersion !== 'string') {
+    throw new SchemaValidationError('File does not contain a valid schemaVersion field', schemaFile);
+  }
+
+  const versionPattern = /^\d+\.\d+$/;
+  if (!versionPattern.test(currentVersion)) {
+    throw new SchemaValidationError(
+      `Current schemaVersion "${currentVersion}" is not in "major.minor" format`,
+      schemaFile
     );
-    process.exit(1);
+  }
+
+  return currentVersion;
+}
+
+/**
+ * Set the schemaVersion of a .bprint file by replacing only its value, so
+ * indentation, line endings, escapes and key order stay as they were.
+ */
+function writeSchemaVersion(schemaFile: string, newVersion: string): void {
+  const resolvedPath = path.resolve(schemaFile);
+  const content = fs.readFileSync(resolvedPath, 'utf-8');
+  fs.writeFileSync(resolvedPath, setJsonProperty(content, 'schemaVersion', newVersion), 'utf-8');
+}
+
+/**
+ * Parse a .bprint file as JSON, without checking it against the spec.
+ */
+function parseSchemaJson(schemaFile: string): Record<string, unknown> {
+  const content = fs.readFileSync(path.resolve(schemaFile), 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new SchemaValidationError('File is not valid JSON', schemaFile);
   }
 }
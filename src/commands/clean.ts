@@ -2,6 +2,8 @@ import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
 import { getSnapshotBaseDir } from '../services/os-cache-paths';
+import { setCommandResult } from '../services/json-output';
+import { UsageError } from '../errors';
 
 /**
  * Options for clean command.
@@ -23,6 +25,27 @@ export interface CleanOptions {
   verbose?: boolean;
 }
 
+/**
+ * Snapshot files matched and deleted by a cleanup (absolute paths).
+ */
+interface CleanedFiles {
+  /** Snapshots selected for deletion */
+  matched: string[];
+  /** Snapshots deleted (empty with --dry-run) */
+  deleted: string[];
+  /** Snapshots that could not be deleted */
+  failed: string[];
+}
+
+/**
+ * Result of `chaim clean` (the `result` of its --json output).
+ */
+export interface CleanResult extends CleanedFiles {
+  /** Snapshot cache directory */
+  baseDir: string;
+  dryRun: boolean;
+}
+
 /**
  * Clean snapshot cache command.
  * 
@@ -52,23 +75,20 @@ export async function cleanCommand(options: CleanOptions): Promise<void> {
 
   // Validate options
   if (all && stack) {
-    console.error(chalk.red('Error: Cannot specify both --all and --stack'));
-    process.exit(1);
+    throw new UsageError('Cannot specify both --all and --stack');
   }
 
   if (all && olderThan) {
-    console.error(chalk.red('Error: Cannot specify both --all and --older-than'));
-    process.exit(1);
+    throw new UsageError('Cannot specify both --all and --older-than');
   }
 
   if (!all && !stack && !olderThan) {
-    console.error(chalk.red('Error: Must specify one of: --all, --stack, or --older-than'));
-    console.error('');
-    console.error(chalk.white('Examples:'));
-    console.error(chalk.gray('  chaim clean --stack ProductCatalogStack'));
-    console.error(chalk.gray('  chaim clean --older-than 30'));
-    console.error(chalk.gray('  chaim clean --all'));
-    process.exit(1);
+    throw new UsageError('Must specify one of: --all, --stack, or --older-than', [
+      'Examples:',
+      '  chaim clean --stack ProductCatalogStack',
+      '  chaim clean --older-than 30',
+      '  chaim clean --all',
+    ]);
   }
 
   // Check if snapshot directory exists
@@ -77,21 +97,20 @@ export async function cleanCommand(options: CleanOptions): Promise<void> {
     console.log(chalk.gray(`  ${baseDir}`));
     console.log('');
     console.log(chalk.green('Nothing to clean'));
+    setCommandResult('clean', { baseDir, dryRun, matched: [], deleted: [], failed: [] });
     return;
   }
 
-  try {
-    if (all) {
-      await cleanAllSnapshots(baseDir, dryRun, verbose);
-    } else if (stack) {
-      await cleanStackSnapshots(baseDir, stack, dryRun, verbose);
-    } else if (olderThan !== undefined) {
-      await cleanOldSnapshots(baseDir, olderThan, dryRun, verbose);
-    }
-  } catch (error) {
-    console.error(chalk.red('Cleanup failed:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+  let cleaned: CleanedFiles = { matched: [], deleted: [], failed: [] };
+  if (all) {
+    cleaned = await cleanAllSnapshots(baseDir, dryRun, verbose);
+  } else if (stack) {
+    cleaned = await cleanStackSnapshots(baseDir, stack, dryRun, verbose);
+  } else if (olderThan !== undefined) {
+    cleaned = await cleanOldSnapshots(baseDir, olderThan, dryRun, verbose);
   }
+  const result: CleanResult = { baseDir, dryRun, ...cleaned };
+  setCommandResult('clean', result);
 }
 
 /**
@@ -101,16 +120,17 @@ async function cleanAllSnapshots(
   baseDir: string,
   dryRun: boolean,
   verbose: boolean
-): Promise<void> {
+): Promise<CleanedFiles> {
   console.log(chalk.white('Cleaning all snapshots...'));
   console.log(chalk.gray(`Base directory: ${baseDir}`));
   console.log('');
 
   const result = collectAllSnapshots(baseDir);
+  const cleaned: CleanedFiles = { matched: result.files, deleted: [], failed: [] };
 
   if (result.count === 0) {
     console.log(chalk.yellow('No snapshots found'));
-    return;
+    return cleaned;
   }
 
   console.log(chalk.white(`Found ${result.count} snapshot(s)`));
@@ -135,8 +155,10 @@ async function cleanAllSnapshots(
       try {
         fs.unlinkSync(file);
         deleted++;
+        cleaned.deleted.push(file);
       } catch (error) {
         failed++;
+        cleaned.failed.push(file);
         if (verbose) {
           console.error(chalk.red(`Failed to delete: ${file}`));
         }
@@ -152,6 +174,8 @@ async function cleanAllSnapshots(
       console.log(chalk.yellow(`Failed to delete ${failed} snapshot(s)`));
     }
   }
+
+  return cleaned;
 }
 
 /**
@@ -162,15 +186,16 @@ async function cleanStackSnapshots(
   stackName: string,
   dryRun: boolean,
   verbose: boolean
-): Promise<void> {
+): Promise<CleanedFiles> {
   console.log(chalk.white(`Cleaning snapshots for stack: ${stackName}`));
   console.log('');
 
   const stackDirs = findStackDirectories(baseDir, stackName);
+  const cleaned: CleanedFiles = { matched: [], deleted: [], failed: [] };
 
   if (stackDirs.length === 0) {
     console.log(chalk.yellow(`No snapshots found for stack: ${stackName}`));
-    return;
+    return cleaned;
   }
 
   let totalCount = 0;
@@ -180,6 +205,7 @@ async function cleanStackSnapshots(
   for (const stackDir of stackDirs) {
     const result = collectAllSnapshots(stackDir);
     totalCount += result.count;
+    cleaned.matched.push(...result.files);
 
     console.log(chalk.gray(`Found ${result.count} snapshot(s) in ${path.relative(baseDir, stackDir)}`));
 
@@ -194,8 +220,10 @@ async function cleanStackSnapshots(
         try {
           fs.unlinkSync(file);
           deleted++;
+          cleaned.deleted.push(file);
         } catch (error) {
           failed++;
+          cleaned.failed.push(file);
           if (verbose) {
             console.error(chalk.red(`Failed to delete: ${file}`));
           }
@@ -218,6 +246,8 @@ async function cleanStackSnapshots(
       console.log(chalk.yellow(`Failed to delete ${failed} snapshot(s)`));
     }
   }
+
+  return cleaned;
 }
 
 /**
@@ -228,7 +258,7 @@ async function cleanOldSnapshots(
   days: number,
   dryRun: boolean,
   verbose: boolean
-): Promise<void> {
+): Promise<CleanedFiles> {
   console.log(chalk.white(`Cleaning snapshots older than ${days} days...`));
   console.log('');
 
@@ -236,10 +266,11 @@ async function cleanOldSnapshots(
   const cutoffMs = days * 24 * 60 * 60 * 1000;
 
   const allSnapshots = collectAllSnapshots(baseDir);
+  const cleaned: CleanedFiles = { matched: [], deleted: [], failed: [] };
 
   if (allSnapshots.count === 0) {
     console.log(chalk.yellow('No snapshots found'));
-    return;
+    return cleaned;
   }
 
   let oldCount = 0;
@@ -266,8 +297,9 @@ async function cleanOldSnapshots(
 
   if (oldCount === 0) {
     console.log(chalk.yellow(`No snapshots older than ${days} days found`));
-    return;
+    return cleaned;
   }
+  cleaned.matched = oldFiles.map(({ path: filePath }) => filePath);
 
   console.log(chalk.white(`Found ${oldCount} snapshot(s) older than ${days} days`));
   
@@ -290,8 +322,10 @@ async function cleanOldSnapshots(
       try {
         fs.unlinkSync(file);
         deleted++;
+        cleaned.deleted.push(file);
       } catch (error) {
         failed++;
+        cleaned.failed.push(file);
         if (verbose) {
           console.error(chalk.red(`Failed to delete: ${file}`));
         }
@@ -307,6 +341,8 @@ async function cleanOldSnapshots(
       console.log(chalk.yellow(`Failed to delete ${failed} snapshot(s)`));
     }
   }
+
+  return cleaned;
 }
 
 /**
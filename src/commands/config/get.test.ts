@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configGetCommand } from './get';
+import { ChaimError, EXIT_CODES, UsageError } from '../../errors';
+
+const mocks = {
+  tmpDir: '',
+  env: {} as Record<string, string>,
+};
+
+vi.mock('../../config/loader', async () =>
+  (await import('../../test-utils/config-loader')).mockConfigLoader(() => ({ dir: mocks.tmpDir, env: mocks.env })));
+
+let originalCwd: () => string;
+
+function writeJson(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value), 'utf-8');
+}
+
+describe('configGetCommand', () => {
+  beforeEach(() => {
+    mocks.tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-config-get-test-'));
+    mocks.env = {};
+    originalCwd = process.cwd;
+    process.cwd = () => mocks.tmpDir;
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+    vi.restoreAllMocks();
+    fs.rmSync(mocks.tmpDir, { recursive: true, force: true });
+  });
+
+  it('should print the resolved value by default', async () => {
+    writeJson(path.join(mocks.tmpDir, '.chaim', 'config.json'), { defaultRegion: 'eu-west-1' });
+
+    await configGetCommand('region', {});
+
+    expect(console.log).toHaveBeenCalledWith('eu-west-1');
+  });
+
+  it('should include environment overrides in the resolved value', async () => {
+    mocks.env = { CHAIM_STACK: 'EnvStack' };
+
+    await configGetCommand('stackName', {});
+
+    expect(console.log).toHaveBeenCalledWith('EnvStack');
+  });
+
+  it('should print the file value with --global', async () => {
+    writeJson(path.join(mocks.tmpDir, '.chaim', 'config.json'), { defaultRegion: 'eu-west-1' });
+    writeJson(path.join(mocks.tmpDir, 'chaim.json'), { region: 'us-west-2' });
+
+    await configGetCommand('defaultRegion', { global: true });
+
+    expect(console.log).toHaveBeenCalledWith('eu-west-1');
+  });
+
+  it('should print arrays as JSON', async () => {
+    writeJson(path.join(mocks.tmpDir, 'chaim.json'), { tables: ['Orders', 'Customers'] });
+
+    await configGetCommand('tables', { local: true });
+
+    expect(console.log).toHaveBeenCalledWith('["Orders","Customers"]');
+  });
+
+  it('should fail with exit code 1 and no stdout when the value is not set', async () => {
+    const error = await configGetCommand('appId', {}).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ChaimError);
+    expect(error.message).toBe('appId is not set');
+    expect(error.exitCode).toBe(EXIT_CODES.ERROR);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it('should reject --global together with --local as a usage error', async () => {
+    await expect(configGetCommand('region', { global: true, local: true })).rejects.toBeInstanceOf(UsageError);
+  });
+
+  it('should reject an unknown key', async () => {
+    await expect(configGetCommand('profiles', { global: true })).rejects.toThrow('Unknown global config key');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * chaim config get
+ *
+ * Purpose:
+ *   Print a single config value for use in scripts. Without --global/--local,
+ *   prints the resolved value (after merging all sources); with a scope flag,
+ *   prints the value stored in that file.
+ *
+ * Expected Sub-APIs:
+ *   - None (purely local)
+ *
+ * Local Config Read/Write:
+ *   - Reads: ~/.chaim/config.json
+ *   - Reads: ./chaim.json
+ *   - Writes: None
+ *
+ * Security:
+ *   - Profiles (auth metadata) are not printed
+ */
+
+import { Command } from 'commander';
+import * as fs from 'fs';
+import {
+  ConfigError,
+  loadConfig,
+  loadGlobalConfig,
+  loadRepoConfig,
+} from '../../config/loader';
+import { ResolvedConfigKey } from '../../config/types';
+import { getConfigFields, resolveConfigTarget } from '../../config/writer';
+import { ChaimError, UsageError } from '../../errors';
+
+/**
+ * Options for the `config get` command.
+ */
+export interface ConfigGetOptions {
+  global?: boolean;
+  local?: boolean;
+}
+
+/**
+ * Keys that can be read from the resolved configuration.
+ */
+const RESOLVED_KEYS: ResolvedConfigKey[] = [
+  'activeProfile',
+  'appId',
+  'environment',
+  'region',
+  'stackName',
+  'language',
+  'javaPackage',
+  'output',
+  'tables',
+];
+
+/**
+ * Print one config value. Throws (exit 1, with no stdout) when the value is not set.
+ */
+export async function configGetCommand(key: string, options: ConfigGetOptions): Promise<void> {
+  if (options.global && options.local) {
+    throw new UsageError('Cannot specify both --global and --local');
+  }
+
+  let value: unknown;
+  if (options.global || options.local) {
+    const { scope, filePath } = resolveConfigTarget(options, process.cwd());
+    const fields = getConfigFields(scope);
+    if (!fields[key] || key === 'profiles') {
+      throw new ConfigError(
+        `Unknown ${scope} config key "${key}". Valid keys: ${Object.keys(fields).filter((k) => k !== 'profiles').join(', ')}`,
+        filePath,
+        key
+      );
+    }
+    const config: Record<string, unknown> = fs.existsSync(filePath)
+      ? { ...(scope === 'global' ? loadGlobalConfig(filePath) : loadRepoConfig(filePath)) }
+      : {};
+    value = config[key];
+  } else {
+    if (!RESOLVED_KEYS.includes(key as ResolvedConfigKey)) {
+      throw new ConfigError(
+        `Unknown config key "${key}". Valid keys: ${RESOLVED_KEYS.join(', ')} (use --global or --local to read file-specific keys)`,
+        undefined,
+        key
+      );
+    }
+    value = loadConfig()[key as ResolvedConfigKey];
+  }
+
+  if (value === undefined) {
+    throw new ChaimError(`${key} is not set`);
+  }
+
+  console.log(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+/**
+ * Register the `config get` command with the CLI program
+ */
+export function registerConfigGetCommand(program: Command): Command {
+  const configCmd = program.commands.find((cmd) => cmd.name() === 'config')
+    ?? program.command('config').description('Configuration commands');
+
+  configCmd
+    .command('get')
+    .description('Print a config value (resolved, or from one file with --global/--local)')
+    .argument('<key>', 'Config key (e.g., javaPackage)')
+    .option('--global', 'Read ~/.chaim/config.json')
+    .option('--local', 'Read ./chaim.json')
+    .action(configGetCommand);
+
+  return program;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configSetCommand } from './set';
+
+const mocks = {
+  homeDir: '',
+};
+
+vi.mock('../../config/loader', async () => {
+  const actual = await vi.importActual<typeof import('../../config/loader')>('../../config/loader');
+  return {
+    ...actual,
+    getGlobalConfigPath: () => actual.getGlobalConfigPath(mocks.homeDir),
+  };
+});
+
+let tmpDir: string;
+let repoDir: string;
+let originalCwd: () => string;
+
+describe('configSetCommand', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-config-set-test-'));
+    mocks.homeDir = path.join(tmpDir, 'home');
+    repoDir = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repoDir, { recursive: true });
+
+    originalCwd = process.cwd;
+    process.cwd = () => repoDir;
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should set a value in chaim.json with --local', async () => {
+    await configSetCommand('javaPackage', 'com.example.model', { local: true });
+
+    expect(JSON.parse(fs.readFileSync(path.join(repoDir, 'chaim.json'), 'utf-8'))).toEqual({
+      javaPackage: 'com.example.model',
+    });
+  });
+
+  it('should set a value in the global config with --global', async () => {
+    await configSetCommand('telemetryOptOut', 'true', { global: true });
+
+    const globalPath = path.join(mocks.homeDir, '.chaim', 'config.json');
+    expect(JSON.parse(fs.readFileSync(globalPath, 'utf-8'))).toEqual({ telemetryOptOut: true });
+  });
+
+  it('should preserve comments and key order in an existing file', async () => {
+    const configPath = path.join(repoDir, 'chaim.json');
+    fs.writeFileSync(configPath, '{\n  // team app\n  "appId": "app-1",\n  "region": "us-east-1"\n}\n');
+
+    await configSetCommand('region', 'eu-west-1', {});
+    await configSetCommand('tables', 'Orders,Customers', {});
+
+    expect(fs.readFileSync(configPath, 'utf-8')).toBe(
+      '{\n  // team app\n  "appId": "app-1",\n  "region": "eu-west-1",\n  "tables": ["Orders", "Customers"]\n}\n'
+    );
+  });
+
+  it.each([
+    ['region', 'useast1', 'not a valid AWS region'],
+    ['javaPackge', 'com.typo', 'Unknown repo config key'],
+  ])('should reject %s=%s', async (key, value, message) => {
+    await expect(configSetCommand(key, value, { local: true })).rejects.toThrow(message);
+    expect(fs.existsSync(path.join(repoDir, 'chaim.json'))).toBe(false);
+  });
+
+  it('should refuse to set profiles', async () => {
+    await expect(configSetCommand('profiles', '[]', { global: true })).rejects.toThrow('cannot be set');
+  });
+});
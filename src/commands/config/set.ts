@@ -0,0 +1,64 @@
+/**
+ * chaim config set
+ *
+ * Purpose:
+ *   Set a single key in the global or repo config file from scripts, without
+ *   hand-editing JSON. Values are type-checked against the config schema.
+ *
+ * Expected Sub-APIs:
+ *   - None (purely local)
+ *
+ * Local Config Read/Write:
+ *   - Reads/Writes: ~/.chaim/config.json (with --global)
+ *   - Reads/Writes: ./chaim.json (with --local, or inside a repo)
+ *
+ * Security:
+ *   - Profiles (auth metadata) cannot be set from the command line
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { parseConfigValue, resolveConfigTarget, updateConfigFile } from '../../config/writer';
+import { UsageError } from '../../errors';
+
+/**
+ * Options for the `config set` command.
+ */
+export interface ConfigSetOptions {
+  global?: boolean;
+  local?: boolean;
+}
+
+/**
+ * Set one config key, preserving comments and key order in the file.
+ */
+export async function configSetCommand(key: string, value: string, options: ConfigSetOptions): Promise<void> {
+  if (options.global && options.local) {
+    throw new UsageError('Cannot specify both --global and --local');
+  }
+
+  const { scope, filePath } = resolveConfigTarget(options, process.cwd());
+  const parsed = parseConfigValue(scope, key, value);
+  updateConfigFile(filePath, { [key]: parsed });
+
+  console.log(chalk.green(`✓ Set ${key} = ${JSON.stringify(parsed)}`) + chalk.gray(` (${filePath})`));
+}
+
+/**
+ * Register the `config set` command with the CLI program
+ */
+export function registerConfigSetCommand(program: Command): Command {
+  const configCmd = program.commands.find((cmd) => cmd.name() === 'config')
+    ?? program.command('config').description('Configuration commands');
+
+  configCmd
+    .command('set')
+    .description('Set a config value (arrays are comma-separated)')
+    .argument('<key>', 'Config key (e.g., javaPackage)')
+    .argument('<value>', 'Value to set')
+    .option('--global', 'Write ~/.chaim/config.json')
+    .option('--local', 'Write ./chaim.json')
+    .action(configSetCommand);
+
+  return program;
+}
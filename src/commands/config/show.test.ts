@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configShowCommand, maskValue } from './show';
+
+const mocks = {
+  tmpDir: '',
+  env: {} as Record<string, string>,
+};
+
+vi.mock('../../config/loader', async () =>
+  (await import('../../test-utils/config-loader')).mockConfigLoader(() => ({ dir: mocks.tmpDir, env: mocks.env })));
+
+function writeJson(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value), 'utf-8');
+}
+
+function output(): string {
+  return vi.mocked(console.log).mock.calls.map((c) => c.join(' ')).join('\n');
+}
+
+describe('configShowCommand', () => {
+  beforeEach(() => {
+    mocks.tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-config-show-test-'));
+    mocks.env = {};
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(mocks.tmpDir, { recursive: true, force: true });
+  });
+
+  it('should print resolved values with defaults', async () => {
+    await configShowCommand({});
+
+    expect(output()).toContain('us-east-1');
+    expect(output()).toContain('./src/main/java');
+    expect(output()).toContain('(no chaim.json found)');
+  });
+
+  it('should show the source of each value with --source', async () => {
+    writeJson(path.join(mocks.tmpDir, '.chaim', 'config.json'), { defaultRegion: 'eu-west-1' });
+    writeJson(path.join(mocks.tmpDir, 'chaim.json'), { javaPackage: 'com.repo.model' });
+    mocks.env = { CHAIM_STACK: 'EnvStack' };
+
+    await configShowCommand({ source: true });
+
+    const out = output();
+    expect(out).toMatch(/region:.*eu-west-1.*global config/);
+    expect(out).toMatch(/javaPackage:.*com\.repo\.model.*repo config/);
+    expect(out).toMatch(/stackName:.*EnvStack.*env CHAIM_STACK/);
+    expect(out).toMatch(/language:.*java.*default/);
+  });
+
+  it('should emit machine-readable JSON with --json --source', async () => {
+    writeJson(path.join(mocks.tmpDir, 'chaim.json'), { javaPackage: 'com.repo.model', tables: ['Orders'] });
+
+    await configShowCommand({ json: true, source: true });
+
+    const result = JSON.parse(vi.mocked(console.log).mock.calls[0][0]);
+    expect(result.files.repo).toBe(path.join(mocks.tmpDir, 'chaim.json'));
+    expect(result.files.global).toBeNull();
+    expect(result.config.javaPackage).toBe('com.repo.model');
+    expect(result.config.tables).toEqual(['Orders']);
+    expect(result.config.appId).toBeNull();
+    expect(result.sources.javaPackage).toBe('repo');
+    expect(result.sources.appId).toBe('unset');
+  });
+
+  it('should omit sources from JSON without --source', async () => {
+    await configShowCommand({ json: true });
+
+    const result = JSON.parse(vi.mocked(console.log).mock.calls[0][0]);
+    expect(result.sources).toBeUndefined();
+  });
+
+  it('should mask sensitive profile metadata', async () => {
+    writeJson(path.join(mocks.tmpDir, '.chaim', 'config.json'), {
+      activeProfile: 'work',
+      profiles: [{ name: 'work', userId: 'alice@example.com', orgId: 'org-123456' }],
+    });
+
+    await configShowCommand({ json: true });
+
+    const raw = vi.mocked(console.log).mock.calls[0][0];
+    expect(raw).not.toContain('alice@example.com');
+    expect(raw).not.toContain('org-123456');
+    const result = JSON.parse(raw);
+    expect(result.profiles[0]).toEqual({ name: 'work', userId: 'al****', orgId: 'or****' });
+  });
+
+  it('should exit with an error for invalid config', async () => {
+    writeJson(path.join(mocks.tmpDir, 'chaim.json'), { region: 42 });
+
+    await expect(configShowCommand({})).rejects.toThrow('"region"');
+  });
+});
+
+describe('maskValue', () => {
+  it('keeps a two-character prefix', () => {
+    expect(maskValue('alice@example.com')).toBe('al****');
+  });
+
+  it('fully masks short values', () => {
+    expect(maskValue('abc')).toBe('****');
+  });
+});
@@ -15,10 +15,173 @@
  *
  * Security:
  *   - Does not display tokens or credentials
- *   - May mask sensitive values if present
+ *   - Masks sensitive profile metadata (user and org identifiers)
  */
 
 import { Command } from 'commander';
+import chalk from 'chalk';
+import {
+  loadConfig,
+  loadGlobalConfig,
+  getGlobalConfigPath,
+  describeConfigSource,
+} from '../../config/loader';
+import { ResolvedConfigKey, AuthProfile } from '../../config/types';
+
+/**
+ * Options for the `config show` command.
+ */
+export interface ConfigShowOptions {
+  /** Output as JSON */
+  json?: boolean;
+  /** Include the source of each value */
+  source?: boolean;
+}
+
+/**
+ * Resolved keys in display order.
+ */
+const DISPLAY_KEYS: ResolvedConfigKey[] = [
+  'activeProfile',
+  'appId',
+  'environment',
+  'region',
+  'stackName',
+  'language',
+  'javaPackage',
+  'output',
+  'tables',
+];
+
+/**
+ * Keys whose values are masked in output.
+ */
+const SENSITIVE_KEY_PATTERN = /(user|org)Id$|token|secret|password|credential/i;
+
+/**
+ * Mask a sensitive value, keeping a short prefix so users can tell values apart.
+ */
+export function maskValue(value: string): string {
+  if (value.length <= 4) {
+    return '****';
+  }
+  return `${value.slice(0, 2)}****`;
+}
+
+/**
+ * Return a copy of a profile with sensitive fields masked.
+ */
+function maskProfile(profile: AuthProfile): Record<string, unknown> {
+  const masked: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(profile)) {
+    masked[key] = typeof value === 'string' && SENSITIVE_KEY_PATTERN.test(key) ? maskValue(value) : value;
+  }
+  return masked;
+}
+
+/**
+ * Format a resolved value for pretty output.
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return chalk.gray('(not set)');
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return String(value);
+}
+
+/**
+ * Print resolved configuration.
+ */
+export async function configShowCommand(options: ConfigShowOptions): Promise<void> {
+  const config = loadConfig();
+  const profiles = loadGlobalConfig(getGlobalConfigPath())?.profiles ?? [];
+
+  const maskedProfiles = profiles.map(maskProfile);
+
+  if (options.json) {
+    const values: Record<string, unknown> = {};
+    for (const key of DISPLAY_KEYS) {
+      values[key] = config[key] ?? null;
+    }
+    values.isAuthenticated = config.isAuthenticated;
+    values.targets = config.targets ?? [];
+    values.generators = config.generators ?? [];
+
+    const result: Record<string, unknown> = {
+      files: {
+        global: config.globalConfigPath ?? null,
+        repo: config.repoConfigPath ?? null,
+      },
+      config: values,
+      profiles: maskedProfiles,
+    };
+    if (options.source) {
+      const sources: Record<string, string> = {};
+      for (const key of DISPLAY_KEYS) {
+        sources[key] = config.sources[key] ?? 'unset';
+      }
+      result.sources = sources;
+    }
+
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(chalk.cyan('Chaim Configuration'));
+  console.log('');
+  console.log(chalk.white('Config files:'));
+  console.log(`  Global: ${config.globalConfigPath ?? chalk.gray(`(not found: ${getGlobalConfigPath()})`)}`);
+  console.log(`  Repo:   ${config.repoConfigPath ?? chalk.gray('(no chaim.json found)')}`);
+  console.log('');
+
+  console.log(chalk.white('Resolved values:'));
+  const width = Math.max(...DISPLAY_KEYS.map((k) => k.length)) + 1;
+  for (const key of DISPLAY_KEYS) {
+    const line = `  ${chalk.green(`${key}:`.padEnd(width))} ${formatValue(config[key])}`;
+    if (options.source && config[key] !== undefined) {
+      console.log(`${line} ${chalk.gray(`(${describeConfigSource(config, key)})`)}`);
+    } else {
+      console.log(line);
+    }
+  }
+  console.log(`  ${chalk.green('isAuthenticated:'.padEnd(width))} ${config.isAuthenticated}`);
+
+  if (config.targets && config.targets.length > 0) {
+    console.log('');
+    console.log(chalk.white('Targets:'));
+    for (const target of config.targets) {
+      const details = Object.entries(target)
+        .filter(([key, value]) => key !== 'name' && value !== undefined)
+        .map(([key, value]) => `${key}=${formatValue(value)}`)
+        .join(' ');
+      console.log(`  ${target.name}${details ? chalk.gray(` ${details}`) : ''}`);
+    }
+  }
+
+  if (config.generators && config.generators.length > 0) {
+    console.log('');
+    console.log(chalk.white('Generator plugins:'));
+    for (const plugin of config.generators) {
+      console.log(`  ${plugin}`);
+    }
+  }
+
+  if (maskedProfiles.length > 0) {
+    console.log('');
+    console.log(chalk.white('Profiles:'));
+    for (const profile of maskedProfiles) {
+      const details = Object.entries(profile)
+        .filter(([key]) => key !== 'name')
+        .map(([key, value]) => `${key}=${value}`)
+        .join(' ');
+      const active = profile.name === config.activeProfile ? chalk.cyan(' (active)') : '';
+      console.log(`  ${profile.name}${active}${details ? chalk.gray(` ${details}`) : ''}`);
+    }
+  }
+}
 
 /**
  * Register the `config show` command with the CLI program
@@ -30,22 +193,10 @@ export function registerConfigShowCommand(program: Command): Command {
   configCmd
     .command('show')
     .description('Print resolved configuration')
-    .option('--json', 'Output as JSON')
-    .option('--source', 'Show source of each value (global/repo/default)')
-    .action(async (_options) => {
-      console.log('Not implemented yet. See docs/CLI_ROADMAP.md');
-      // Future implementation:
-      // 1. Load global config from ~/.chaim/config.json
-      // 2. Load repo config from ./chaim.json (if exists)
-      // 3. Merge configs (repo overrides global)
-      // 4. If --source, track origin of each value
-      // 5. Display resolved config
-      //    - If --json, output as JSON
-      //    - Otherwise, pretty-print with labels
-      // 6. Mask any sensitive values
-    });
+    .option('--source', 'Show source of each value (default/global/repo/env/cli)')
+    // --json is a global option (see index.ts)
+    .action((options: ConfigShowOptions, command: Command) =>
+      configShowCommand({ ...options, json: command.optsWithGlobals().json }));
 
   return program;
 }
-
-
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configUnsetCommand } from './unset';
+
+const mocks = {
+  homeDir: '',
+};
+
+vi.mock('../../config/loader', async () => {
+  const actual = await vi.importActual<typeof import('../../config/loader')>('../../config/loader');
+  return {
+    ...actual,
+    getGlobalConfigPath: () => actual.getGlobalConfigPath(mocks.homeDir),
+  };
+});
+
+let tmpDir: string;
+let repoDir: string;
+let originalCwd: () => string;
+
+describe('configUnsetCommand', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-config-unset-test-'));
+    mocks.homeDir = path.join(tmpDir, 'home');
+    repoDir = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repoDir, { recursive: true });
+
+    originalCwd = process.cwd;
+    process.cwd = () => repoDir;
+
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.cwd = originalCwd;
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should remove a key and keep the rest of the file intact', async () => {
+    const configPath = path.join(repoDir, 'chaim.json');
+    fs.writeFileSync(configPath, '{\n  // team app\n  "appId": "app-1",\n  "region": "us-east-1"\n}\n');
+
+    await configUnsetCommand('region', {});
+
+    expect(fs.readFileSync(configPath, 'utf-8')).toBe('{\n  // team app\n  "appId": "app-1"\n}\n');
+  });
+
+  it('should report a key that is not set without writing', async () => {
+    await configUnsetCommand('region', { local: true });
+
+    expect(fs.existsSync(path.join(repoDir, 'chaim.json'))).toBe(false);
+    expect(vi.mocked(console.log).mock.calls[0][0]).toContain('region is not set');
+  });
+
+  it('should reject an unknown key', async () => {
+    await expect(configUnsetCommand('defaultRegion', { local: true })).rejects.toThrow('Unknown repo config key');
+  });
+});
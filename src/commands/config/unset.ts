@@ -0,0 +1,80 @@
+/**
+ * chaim config unset
+ *
+ * Purpose:
+ *   Remove a single key from the global or repo config file, leaving the
+ *   rest of the file (comments, key order, formatting) untouched.
+ *
+ * Expected Sub-APIs:
+ *   - None (purely local)
+ *
+ * Local Config Read/Write:
+ *   - Reads/Writes: ~/.chaim/config.json (with --global)
+ *   - Reads/Writes: ./chaim.json (with --local, or inside a repo)
+ *
+ * Security:
+ *   - None (no credentials involved)
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import { ConfigError, loadGlobalConfig, loadRepoConfig } from '../../config/loader';
+import { getConfigFields, resolveConfigTarget, updateConfigFile } from '../../config/writer';
+import { UsageError } from '../../errors';
+
+/**
+ * Options for the `config unset` command.
+ */
+export interface ConfigUnsetOptions {
+  global?: boolean;
+  local?: boolean;
+}
+
+/**
+ * Remove one config key.
+ */
+export async function configUnsetCommand(key: string, options: ConfigUnsetOptions): Promise<void> {
+  if (options.global && options.local) {
+    throw new UsageError('Cannot specify both --global and --local');
+  }
+
+  const { scope, filePath } = resolveConfigTarget(options, process.cwd());
+  const fields = getConfigFields(scope);
+  if (!fields[key]) {
+    throw new ConfigError(
+      `Unknown ${scope} config key "${key}". Valid keys: ${Object.keys(fields).join(', ')}`,
+      filePath,
+      key
+    );
+  }
+
+  const config: Record<string, unknown> = fs.existsSync(filePath)
+    ? { ...(scope === 'global' ? loadGlobalConfig(filePath) : loadRepoConfig(filePath)) }
+    : {};
+  if (!(key in config)) {
+    console.log(chalk.yellow(`${key} is not set`) + chalk.gray(` (${filePath})`));
+    return;
+  }
+
+  updateConfigFile(filePath, { [key]: undefined });
+  console.log(chalk.green(`✓ Unset ${key}`) + chalk.gray(` (${filePath})`));
+}
+
+/**
+ * Register the `config unset` command with the CLI program
+ */
+export function registerConfigUnsetCommand(program: Command): Command {
+  const configCmd = program.commands.find((cmd) => cmd.name() === 'config')
+    ?? program.command('config').description('Configuration commands');
+
+  configCmd
+    .command('unset')
+    .description('Remove a config value')
+    .argument('<key>', 'Config key (e.g., javaPackage)')
+    .option('--global', 'Edit ~/.chaim/config.json')
+    .option('--local', 'Edit ./chaim.json')
+    .action(configUnsetCommand);
+
+  return program;
+}
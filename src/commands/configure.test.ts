@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configureCommand } from './configure';
+import { UsageError } from '../errors';
+
+const mocks = {
+  homeDir: '',
+  answers: [] as string[],
+  questions: [] as string[],
+};
+
+vi.mock('../config/loader', async () => {
+  const actual = await vi.importActual<typeof import('../config/loader')>('../config/loader');
+  return {
+    ...actual,
+    getGlobalConfigPath: () => actual.getGlobalConfigPath(mocks.homeDir),
+  };
+});
+
+vi.mock('readline', () => ({
+  createInterface: () => ({
+    question: (question: string, cb: (answer: string) => void) => {
+      mocks.questions.push(question);
+      cb(mocks.answers.shift() ?? '');
+    },
+    close: () => {},
+  }),
+}));
+
+let tmpDir: string;
+let repoDir: string;
+let originalCwd: () => string;
+let originalIsTTY: boolean | undefined;
+
+function readJson(filePath: string): unknown {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-configure-test-'));
+  mocks.homeDir = path.join(tmpDir, 'home');
+  mocks.answers = [];
+  mocks.questions = [];
+  repoDir = path.join(tmpDir, 'repo');
+  fs.mkdirSync(repoDir, { recursive: true });
+
+  originalCwd = process.cwd;
+  process.cwd = () => repoDir;
+  originalIsTTY = process.stdin.isTTY;
+  Object.defineProperty(process.stdin, 'isTTY', { value: true, configurable: true });
+
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  process.cwd = originalCwd;
+  Object.defineProperty(process.stdin, 'isTTY', { value: originalIsTTY, configurable: true });
+  vi.restoreAllMocks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('configureCommand', () => {
+  describe('non-interactive --set', () => {
+    it('should write chaim.json with --local', async () => {
+      await configureCommand({
+        local: true,
+        set: ['javaPackage=com.example.model', 'tables=Orders, Customers', 'region=eu-west-1'],
+      });
+
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({
+        javaPackage: 'com.example.model',
+        tables: ['Orders', 'Customers'],
+        region: 'eu-west-1',
+      });
+    });
+
+    it('should write the global config with --global', async () => {
+      await configureCommand({ global: true, set: ['defaultJavaPackage=com.global.model', 'telemetryOptOut=yes'] });
+
+      expect(readJson(path.join(mocks.homeDir, '.chaim', 'config.json'))).toEqual({
+        defaultJavaPackage: 'com.global.model',
+        telemetryOptOut: true,
+      });
+    });
+
+    it('should default to the global config outside a repo', async () => {
+      await configureCommand({ set: ['defaultRegion=us-west-2'] });
+
+      expect(fs.existsSync(path.join(repoDir, 'chaim.json'))).toBe(false);
+      expect(readJson(path.join(mocks.homeDir, '.chaim', 'config.json'))).toEqual({ defaultRegion: 'us-west-2' });
+    });
+
+    it('should default to chaim.json inside a git repository', async () => {
+      fs.mkdirSync(path.join(repoDir, '.git'));
+
+      await configureCommand({ set: ['stackName=OrdersStack'] });
+
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({ stackName: 'OrdersStack' });
+    });
+
+    it('should merge into an existing chaim.json', async () => {
+      fs.writeFileSync(path.join(repoDir, 'chaim.json'), JSON.stringify({ appId: 'app-1', output: './gen' }));
+
+      await configureCommand({ set: ['javaPackage=com.example.model'] });
+
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({
+        appId: 'app-1',
+        output: './gen',
+        javaPackage: 'com.example.model',
+      });
+    });
+
+    it.each([
+      ['region=useast1', 'not a valid AWS region'],
+      ['javaPackage=com.my-company', 'not a valid Java package'],
+      ['language=Java 8', 'a language key'],
+      ['javaPackge=com.typo', 'Unknown repo config key'],
+      ['javaPackage', 'Expected key=value'],
+    ])('should reject %s', async (assignment, message) => {
+      await expect(configureCommand({ local: true, set: [assignment] })).rejects.toThrow(message);
+      expect(fs.existsSync(path.join(repoDir, 'chaim.json'))).toBe(false);
+    });
+
+    it('should reject an output directory that is not writable', async () => {
+      const file = path.join(repoDir, 'not-a-dir');
+      fs.writeFileSync(file, '');
+
+      await expect(configureCommand({ local: true, set: [`output=${file}/gen`] }))
+        .rejects.toThrow('not a directory');
+    });
+
+    it('should fail with --non-interactive and nothing to set', async () => {
+      await expect(configureCommand({ local: true, nonInteractive: true })).rejects.toBeInstanceOf(UsageError);
+    });
+
+    it('should reject --global together with --local', async () => {
+      await expect(configureCommand({ global: true, local: true, set: ['region=us-east-1'] }))
+        .rejects.toThrow('Cannot specify both --global and --local');
+    });
+
+    it('should leave no temp files behind', async () => {
+      await configureCommand({ local: true, set: ['appId=app-1'] });
+
+      expect(fs.readdirSync(repoDir)).toEqual(['chaim.json']);
+    });
+  });
+
+  describe('interactive wizard', () => {
+    it('should pre-fill prompts from existing values and keep them on empty input', async () => {
+      fs.writeFileSync(path.join(repoDir, 'chaim.json'), JSON.stringify({ region: 'eu-west-1', javaPackage: 'com.old' }));
+      // appId, environment, region, stackName, javaPackage, output, language
+      mocks.answers = ['app-1', '', '', 'OrdersStack', 'com.new.model', '', ''];
+
+      await configureCommand({ local: true });
+
+      expect(mocks.questions.some((q) => q.includes('eu-west-1'))).toBe(true);
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({
+        region: 'eu-west-1',
+        javaPackage: 'com.new.model',
+        appId: 'app-1',
+        stackName: 'OrdersStack',
+      });
+    });
+
+    it('should re-prompt on invalid input', async () => {
+      // appId, environment, region (invalid then valid), ...
+      mocks.answers = ['', '', 'not-a-region', 'us-west-2', '', '', '', ''];
+
+      await configureCommand({ local: true });
+
+      expect(mocks.questions.filter((q) => q.startsWith('AWS region'))).toHaveLength(2);
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({ region: 'us-west-2' });
+    });
+
+    it('should clear a value when "-" is entered', async () => {
+      fs.writeFileSync(path.join(repoDir, 'chaim.json'), JSON.stringify({ appId: 'app-1', region: 'us-east-1' }));
+      mocks.answers = ['-'];
+
+      await configureCommand({ local: true });
+
+      expect(readJson(path.join(repoDir, 'chaim.json'))).toEqual({ region: 'us-east-1' });
+    });
+
+    it('should not write when nothing changed', async () => {
+      await configureCommand({ local: true });
+
+      expect(fs.existsSync(path.join(repoDir, 'chaim.json'))).toBe(false);
+    });
+
+    it('should fail without a terminal', async () => {
+      Object.defineProperty(process.stdin, 'isTTY', { value: false, configurable: true });
+
+      await expect(configureCommand({ local: true })).rejects.toThrow('No terminal available for prompts');
+    });
+  });
+});
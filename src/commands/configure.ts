@@ -20,6 +20,195 @@
  */
 
 import { Command } from 'commander';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { ConfigError, loadGlobalConfig, loadRepoConfig } from '../config/loader';
+import {
+  ConfigScope,
+  parseConfigValue,
+  resolveConfigTarget,
+  updateConfigFile,
+} from '../config/writer';
+import { UsageError } from '../errors';
+
+/**
+ * Options for the configure command.
+ */
+export interface ConfigureOptions {
+  /** Write ~/.chaim/config.json */
+  global?: boolean;
+  /** Write ./chaim.json */
+  local?: boolean;
+  /** Never prompt; fail if input would be required */
+  nonInteractive?: boolean;
+  /** key=value assignments applied without prompting */
+  set?: string[];
+}
+
+/**
+ * A single wizard prompt.
+ */
+interface PromptSpec {
+  key: string;
+  label: string;
+}
+
+const GLOBAL_PROMPTS: PromptSpec[] = [
+  { key: 'defaultRegion', label: 'Default AWS region' },
+  { key: 'defaultJavaPackage', label: 'Default Java package' },
+  { key: 'defaultOutput', label: 'Default output directory' },
+  { key: 'defaultLanguage', label: 'Default language' },
+];
+
+const REPO_PROMPTS: PromptSpec[] = [
+  { key: 'appId', label: 'Chaim application ID' },
+  { key: 'environment', label: 'Environment (e.g., dev, staging, prod)' },
+  { key: 'region', label: 'AWS region' },
+  { key: 'stackName', label: 'CDK stack name' },
+  { key: 'javaPackage', label: 'Java package' },
+  { key: 'output', label: 'Output directory' },
+  { key: 'language', label: 'Language' },
+];
+
+/**
+ * Format a config value for prompts and summaries.
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(not set)';
+  if (Array.isArray(value)) return value.join(',');
+  return String(value);
+}
+
+/**
+ * Parse `--set key=value` assignments into typed values.
+ *
+ * @throws ConfigError if an assignment is malformed or invalid
+ */
+function parseAssignments(scope: ConfigScope, assignments: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const assignment of assignments) {
+    const eq = assignment.indexOf('=');
+    if (eq <= 0) {
+      throw new ConfigError(`Invalid --set value "${assignment}". Expected key=value`);
+    }
+    const key = assignment.slice(0, eq).trim();
+    values[key] = parseConfigValue(scope, key, assignment.slice(eq + 1));
+  }
+  return values;
+}
+
+/**
+ * Ask a question on the terminal.
+ */
+function ask(rl: readline.Interface, question: string): Promise<string> {
+  return new Promise((resolve) => rl.question(question, resolve));
+}
+
+/**
+ * Prompt for each wizard field, pre-filled with the existing value.
+ *
+ * Empty input keeps the current value; "-" clears it. Invalid input is re-prompted.
+ */
+async function runWizard(
+  scope: ConfigScope,
+  prompts: PromptSpec[],
+  config: Record<string, unknown>
+): Promise<void> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  try {
+    console.log(chalk.gray('Press Enter to keep the current value, or enter "-" to clear it.'));
+    console.log('');
+
+    for (const prompt of prompts) {
+      for (;;) {
+        const current = config[prompt.key];
+        const suffix = current !== undefined ? chalk.gray(` [${formatValue(current)}]`) : '';
+        const answer = (await ask(rl, `${prompt.label}${suffix}: `)).trim();
+
+        if (answer === '') break;
+        if (answer === '-') {
+          delete config[prompt.key];
+          break;
+        }
+
+        try {
+          config[prompt.key] = parseConfigValue(scope, prompt.key, answer);
+          break;
+        } catch (error) {
+          console.log(chalk.red(`  ${error instanceof Error ? error.message : error}`));
+        }
+      }
+    }
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Configure CLI defaults interactively or from --set assignments.
+ */
+export async function configureCommand(options: ConfigureOptions): Promise<void> {
+  if (options.global && options.local) {
+    throw new UsageError('Cannot specify both --global and --local');
+  }
+
+  const { scope, filePath } = resolveConfigTarget(options, process.cwd());
+  const existing: Record<string, unknown> = fs.existsSync(filePath)
+    ? { ...(scope === 'global' ? loadGlobalConfig(filePath) : loadRepoConfig(filePath)) }
+    : {};
+  const updated: Record<string, unknown> = { ...existing };
+
+  const assignments = options.set ?? [];
+  const interactive = !options.nonInteractive && assignments.length === 0;
+
+  console.log(chalk.cyan(`Configuring ${scope} defaults`));
+  console.log(chalk.gray(`  File: ${filePath}`));
+  console.log('');
+
+  if (interactive) {
+    if (!process.stdin.isTTY) {
+      throw new UsageError('No terminal available for prompts.', [
+        'Use --non-interactive with --set key=value to configure from scripts.',
+      ]);
+    }
+    await runWizard(scope, scope === 'global' ? GLOBAL_PROMPTS : REPO_PROMPTS, updated);
+  } else {
+    if (assignments.length === 0) {
+      throw new UsageError('--non-interactive requires at least one --set key=value', [
+        'Example: chaim configure --local --non-interactive --set javaPackage=com.example.model',
+      ]);
+    }
+    Object.assign(updated, parseAssignments(scope, assignments));
+  }
+
+  // Summarize changes
+  const keys = new Set([...Object.keys(existing), ...Object.keys(updated)]);
+  const changes = [...keys].filter(
+    (key) => JSON.stringify(existing[key]) !== JSON.stringify(updated[key])
+  );
+
+  console.log('');
+  if (changes.length === 0) {
+    console.log(chalk.yellow('No changes'));
+    return;
+  }
+
+  updateConfigFile(filePath, Object.fromEntries(changes.map((key) => [key, updated[key]])));
+
+  console.log(chalk.green(`✓ Updated ${filePath}`));
+  for (const key of changes) {
+    console.log(`  ${key}: ${chalk.gray(formatValue(existing[key]))} → ${formatValue(updated[key])}`);
+  }
+}
+
+/**
+ * Collect repeatable option values into an array.
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
 
 /**
  * Register the `configure` command with the CLI program
@@ -31,24 +220,8 @@ export function registerConfigureCommand(program: Command): Command {
     .option('--global', 'Configure global defaults (~/.chaim/config.json)')
     .option('--local', 'Configure repo defaults (./chaim.json)')
     .option('--non-interactive', 'Fail if input required (for scripting)')
-    .action(async (_options) => {
-      console.log('Not implemented yet. See docs/CLI_ROADMAP.md');
-      // Future implementation:
-      // 1. Determine target config (global vs repo)
-      // 2. Load existing config values as defaults
-      // 3. Prompt for each configurable option:
-      //    - appId (if local)
-      //    - environment (if local)
-      //    - region
-      //    - stackName (if local)
-      //    - javaPackage
-      //    - output directory
-      // 4. Validate inputs
-      // 5. Write updated config
-      // 6. Display summary of changes
-    });
+    .option('--set <key=value>', 'Set a value without prompting (repeatable)', collect, [])
+    .action(configureCommand);
 
   return program;
 }
-
-
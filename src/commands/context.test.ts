@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import { contextCommand } from './context';
+import { UsageError } from '../errors';
 
 // Use a temp directory for all tests
 let tmpDir: string;
@@ -354,10 +355,10 @@ describe('contextCommand', () => {
 
   describe('error handling', () => {
     it('should reject unknown agent names', async () => {
-      await contextCommand({ agent: 'vscode' });
+      const error = await contextCommand({ agent: 'vscode' }).catch((e) => e);
 
-      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown agent'));
-      expect(process.exit).toHaveBeenCalledWith(1);
+      expect(error).toBeInstanceOf(UsageError);
+      expect(error.message).toBe('Unknown agent: vscode');
     });
   });
 });
@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ChaimError, UsageError } from '../errors';
 
 const FENCE_START = '<!-- CHAIM_AGENT_CONTEXT_START - managed by chaim-cli, do not edit -->';
 const FENCE_END = '<!-- CHAIM_AGENT_CONTEXT_END -->';
@@ -115,7 +116,7 @@ function loadBundledContent(): string {
   const templatePath = path.join(__dirname, '..', '..', 'shared', 'templates', 'CHAIM_AGENT_CONTEXT.md');
 
   if (!fs.existsSync(templatePath)) {
-    throw new Error(`Bundled template not found at: ${templatePath}`);
+    throw new ChaimError(`Bundled template not found at: ${templatePath}`);
   }
 
   let content = fs.readFileSync(templatePath, 'utf-8');
@@ -318,13 +319,7 @@ export async function contextCommand(options: ContextOptions): Promise<void> {
   const agents = getAgentTargets();
 
   // Load content
-  let content: string;
-  try {
-    content = loadBundledContent();
-  } catch (error) {
-    console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
-    process.exit(1);
-  }
+  const content = loadBundledContent();
 
   console.log(chalk.cyan('Chaim Agent Context'));
   console.log('');
@@ -335,11 +330,9 @@ export async function contextCommand(options: ContextOptions): Promise<void> {
     targets = Object.keys(agents);
   } else if (options.agent) {
     if (!agents[options.agent]) {
-      console.error('');
-      console.error(chalk.red(`Unknown agent: ${options.agent}`));
-      console.error(chalk.gray(`Supported: ${Object.keys(agents).join(', ')}, all`));
-      process.exit(1);
-      return;
+      throw new UsageError(`Unknown agent: ${options.agent}`, [
+        `Supported: ${Object.keys(agents).join(', ')}, all`,
+      ]);
     }
     targets = [options.agent];
   } else if (options.noAuto) {
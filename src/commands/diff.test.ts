@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffCommand } from './diff';
+import { runWithJsonOutput } from '../services/json-output';
+import { SchemaValidationError, UsageError } from '../errors';
+
+vi.mock('@chaim-tools/chaim-bprint-spec', () => ({
+  validateSchema: vi.fn((schema) => schema),
+}));
+
+const order = (schemaVersion: string, fields: object[]) => JSON.stringify({
+  schemaVersion,
+  entityName: 'Order',
+  description: 'An order',
+  primaryKey: { partitionKey: 'orderId' },
+  fields: [{ name: 'orderId', type: 'string', required: true }, ...fields],
+}, null, 2);
+
+describe('diffCommand', () => {
+  let dir: string;
+
+  const write = (name: string, content: string): string => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  const printed = () => vi.mocked(console.log).mock.calls.map((args) => args.join(' ')).join('\n');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-diff-test-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list breaking changes and recommend a major bump', async () => {
+    const oldFile = write('old.bprint', order('1.2', [{ name: 'total', type: 'number' }]));
+    const newFile = write('new.bprint', order('1.3', [{ name: 'note', type: 'string' }]));
+
+    await diffCommand(oldFile, newFile, {});
+
+    expect(printed()).toContain('Breaking changes (1):');
+    expect(printed()).toContain("✗ Field 'total' removed");
+    expect(printed()).toContain("Field 'note' added");
+    expect(printed()).toContain('Recommended: major bump (1.2 → 2.0)');
+    expect(printed()).toContain(`Run: chaim bump --major ${newFile}`);
+  });
+
+  it('should report the diff as JSON', async () => {
+    const oldFile = write('old.bprint', order('1.2', []));
+    const newFile = write('new.bprint', order('1.3', [{ name: 'note', type: 'string' }]));
+    const stdoutWrite = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await runWithJsonOutput('diff', () => diffCommand(oldFile, newFile, {}));
+
+    const output = JSON.parse(String(stdoutWrite.mock.calls[0][0]));
+    expect(output).toMatchObject({ command: 'diff', success: true });
+    expect(output.result).toEqual({
+      old: { source: oldFile, schemaVersion: '1.2' },
+      new: { source: newFile, schemaVersion: '1.3' },
+      entityName: 'Order',
+      changes: [{ kind: 'field-added', field: 'note', breaking: false, message: "Field 'note' added" }],
+      recommendedBump: 'minor',
+      recommendedVersion: '1.3',
+      versionBumped: true,
+    });
+  });
+
+  it('should compare a file with its version at a git ref', async () => {
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir, stdio: 'pipe' });
+    git('init', '-q');
+    const schemaFile = write('order.bprint', order('1.2', [{ name: 'status', type: 'string', enum: ['NEW', 'PAID'] }]));
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add order schema');
+    write('order.bprint', order('1.2', [{ name: 'status', type: 'string', enum: ['NEW'] }]));
+
+    await diffCommand(schemaFile, undefined, { against: 'HEAD' });
+
+    expect(printed()).toContain(`${schemaFile} (HEAD) → ${schemaFile}`);
+    expect(printed()).toContain("✗ Field 'status' enum value 'PAID' removed");
+    expect(printed()).toContain('⚠ schemaVersion is 1.2');
+
+    await expect(diffCommand(schemaFile, undefined, { against: 'no-such-ref' }))
+      .rejects.toThrow(new UsageError("Unknown git ref 'no-such-ref'"));
+    const newFile = write('item.bprint', order('1.0', []));
+    await expect(diffCommand(newFile, undefined, { against: 'HEAD' }))
+      .rejects.toThrow(new UsageError(`${newFile} did not exist at HEAD`));
+  });
+
+  it('should require two files or --against', async () => {
+    const oldFile = write('old.bprint', order('1.2', []));
+
+    await expect(diffCommand(oldFile, undefined, {})).rejects.toBeInstanceOf(UsageError);
+    await expect(diffCommand(oldFile, oldFile, { against: 'HEAD' })).rejects.toBeInstanceOf(UsageError);
+    await expect(diffCommand(oldFile, path.join(dir, 'missing.bprint'), {})).rejects.toBeInstanceOf(SchemaValidationError);
+  });
+});
@@ -0,0 +1,123 @@
+import chalk from 'chalk';
+import { setCommandResult } from '../services/json-output';
+import { readSchemaAtRef, readSchemaFile } from '../services/schema-source';
+import {
+  SchemaChange,
+  VersionBump,
+  bumpVersion,
+  diffSchemas,
+  isBumpedEnough,
+} from '../services/schema-diff';
+import { SchemaData } from '../types';
+import { UsageError } from '../errors';
+
+/**
+ * Result of `chaim diff` (the `result` of its --json output).
+ */
+export interface DiffResult {
+  old: { source: string; schemaVersion: string };
+  new: { source: string; schemaVersion: string };
+  entityName: string;
+  changes: SchemaChange[];
+  recommendedBump: VersionBump;
+  /** The old version with the recommended bump applied (unset if not "major.minor") */
+  recommendedVersion?: string;
+  /** Whether the new schemaVersion is at least recommendedVersion */
+  versionBumped: boolean;
+}
+
+const USAGE_HINTS = [
+  'Example: chaim diff schemas/order.v1.bprint schemas/order.bprint',
+  'Example: chaim diff schemas/order.bprint --against HEAD~1',
+];
+
+/**
+ * Compare two versions of a .bprint schema, classify each change as breaking
+ * or non-breaking, and recommend a major or minor bump. The old version is
+ * either a second file or the same file at a git ref (--against).
+ *
+ * @throws UsageError if the files or ref are not given correctly
+ * @throws SchemaValidationError if either version is missing or invalid
+ */
+export async function diffCommand(
+  schemaFile: string,
+  newSchemaFile: string | undefined,
+  options: { against?: string }
+): Promise<void> {
+  let oldSource: string;
+  let oldSchema: SchemaData | undefined;
+  let newSource: string;
+
+  if (options.against) {
+    if (newSchemaFile) {
+      throw new UsageError('--against takes a single schema file', USAGE_HINTS);
+    }
+    oldSource = `${schemaFile} (${options.against})`;
+    oldSchema = await readSchemaAtRef(schemaFile, options.against);
+    if (!oldSchema) {
+      throw new UsageError(`${schemaFile} did not exist at ${options.against}`);
+    }
+    newSource = schemaFile;
+  } else {
+    if (!newSchemaFile) {
+      throw new UsageError('Specify two schema files, or one schema file and --against <ref>', USAGE_HINTS);
+    }
+    oldSource = schemaFile;
+    oldSchema = readSchemaFile(schemaFile);
+    newSource = newSchemaFile;
+  }
+
+  const newSchema = readSchemaFile(newSource);
+  const { changes, recommendedBump } = diffSchemas(oldSchema, newSchema);
+  const result: DiffResult = {
+    old: { source: oldSource, schemaVersion: oldSchema.schemaVersion },
+    new: { source: newSource, schemaVersion: newSchema.schemaVersion },
+    entityName: newSchema.entityName,
+    changes,
+    recommendedBump,
+    recommendedVersion: bumpVersion(oldSchema.schemaVersion, recommendedBump),
+    versionBumped: isBumpedEnough(oldSchema.schemaVersion, newSchema.schemaVersion, recommendedBump),
+  };
+  setCommandResult('diff', result);
+
+  printDiff(result);
+}
+
+/**
+ * Print the changes grouped by severity, then the recommended bump.
+ */
+function printDiff(result: DiffResult): void {
+  console.log(chalk.blue('🔍 Comparing'), `${result.old.source} → ${result.new.source}`);
+  console.log(chalk.green('  Entity:'), result.entityName);
+  console.log(chalk.green('  Version:'), `${result.old.schemaVersion} → ${result.new.schemaVersion}`);
+
+  if (result.changes.length === 0) {
+    console.log(chalk.green('\n  ✓ No changes'));
+    return;
+  }
+
+  const breaking = result.changes.filter((change) => change.breaking);
+  const nonBreaking = result.changes.filter((change) => !change.breaking);
+  if (breaking.length > 0) {
+    console.log(chalk.red(`\n  Breaking changes (${breaking.length}):`));
+    breaking.forEach((change) => console.log(chalk.red(`    ✗ ${change.message}`)));
+  }
+  if (nonBreaking.length > 0) {
+    console.log(chalk.green(`\n  Non-breaking changes (${nonBreaking.length}):`));
+    nonBreaking.forEach((change) => console.log(`    ${chalk.green('✓')} ${change.message}`));
+  }
+
+  if (result.recommendedBump === 'none') {
+    console.log(chalk.blue('\n  Recommended: no bump (only descriptions changed)'));
+    return;
+  }
+
+  const target = result.recommendedVersion ? ` (${result.old.schemaVersion} → ${result.recommendedVersion})` : '';
+  console.log(chalk.blue(`\n  Recommended: ${result.recommendedBump} bump${target}`));
+  if (result.versionBumped) {
+    console.log(chalk.green(`  ✓ schemaVersion ${result.new.schemaVersion} is already bumped enough`));
+  } else {
+    const flag = result.recommendedBump === 'major' ? ' --major' : '';
+    console.log(chalk.yellow(`  ⚠ schemaVersion is ${result.new.schemaVersion}. Run: chaim bump${flag} ${result.new.source}`));
+  }
+}
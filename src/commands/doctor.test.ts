@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { doctorCommand } from './doctor';
+import { runWithJsonOutput } from '../services/json-output';
 import { spawn } from 'child_process';
 
 // Mock child_process
@@ -245,6 +246,45 @@ describe('doctorCommand', () => {
     expect(process.exit).not.toHaveBeenCalled();
   });
 
+  it('should report each check as JSON', async () => {
+    const mockAwsProcess = {
+      stdout: { on: vi.fn() },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event: string, callback: (error: Error) => void) => {
+        if (event === 'error') {
+          callback(new Error('spawn aws ENOENT'));
+        }
+      })
+    };
+    const mockJavaProcess = {
+      stdout: { on: vi.fn() },
+      stderr: { on: vi.fn((event: string, callback: (data: Buffer) => void) => {
+        if (event === 'data') {
+          callback(Buffer.from('openjdk version "17.0.2"'));
+        }
+      }) },
+      on: vi.fn((event: string, callback: (code: number) => void) => {
+        if (event === 'close') {
+          callback(0);
+        }
+      })
+    };
+    vi.mocked(spawn).mockImplementation(((command: string) => (command === 'aws' ? mockAwsProcess : mockJavaProcess)) as unknown as typeof spawn);
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await runWithJsonOutput('doctor', () => doctorCommand());
+
+    const output = JSON.parse(String(write.mock.calls[0][0]));
+    expect(output).toMatchObject({ command: 'doctor', success: true, exitCode: 0 });
+    expect(output.result.checks).toEqual([
+      { name: 'node', ok: true, detail: process.version },
+      { name: 'aws-cli', ok: false, detail: 'AWS CLI not available: spawn aws ENOENT' },
+      { name: 'java', ok: true, detail: '17.0.2' },
+      { name: 'aws-sdk', ok: true },
+    ]);
+    expect(output.errors).toEqual(['✗ AWS CLI not available: spawn aws ENOENT']);
+  });
+
   it('should check AWS SDK availability', async () => {
     // This test is complex due to the async nature of the doctor command
     // The core functionality is already tested in other tests
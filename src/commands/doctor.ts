@@ -1,32 +1,59 @@
 import chalk from 'chalk';
 import { spawn } from 'child_process';
+import { setCommandResult } from '../services/json-output';
+import { EnvironmentError } from '../errors';
+
+/**
+ * Outcome of one environment check.
+ */
+export interface DoctorCheck {
+  /** Check name: node, aws-cli, java or aws-sdk */
+  name: string;
+  ok: boolean;
+  /** Version or identity found, or why the check failed */
+  detail?: string;
+}
+
+/**
+ * Result of `chaim doctor` (the `result` of its --json output).
+ * Only a missing AWS SDK fails the command; the other checks are advisory.
+ */
+export interface DoctorResult {
+  checks: DoctorCheck[];
+}
 
 export async function doctorCommand(): Promise<void> {
   console.log(chalk.blue('🔍 Checking system environment...'));
+  const checks: DoctorCheck[] = [];
   
   // Check Node.js version
   const nodeVersion = process.version;
   console.log(chalk.green('✓ Node.js version:'), nodeVersion);
+  checks.push({ name: 'node', ok: true, detail: nodeVersion });
   
   // Check AWS CLI
-  await checkAwsCli();
+  checks.push(await checkAwsCli());
   
   // Check Java (for code generation)
-  await checkJava();
+  checks.push(await checkJava());
   
   // Check AWS SDK (basic check)
   try {
     require.resolve('@aws-sdk/client-sts');
     console.log(chalk.green('✓ AWS SDK available'));
+    checks.push({ name: 'aws-sdk', ok: true });
   } catch (error) {
     console.error(chalk.red('✗ AWS SDK not available'));
-    process.exit(1);
+    checks.push({ name: 'aws-sdk', ok: false, detail: '@aws-sdk/client-sts not found' });
+    setCommandResult('doctor', { checks });
+    throw new EnvironmentError('AWS SDK not available', ['@aws-sdk/client-sts could not be resolved; reinstall chaim-cli.']);
   }
   
+  setCommandResult('doctor', { checks });
   console.log(chalk.green('✓ All checks passed'));
 }
 
-async function checkAwsCli(): Promise<void> {
+async function checkAwsCli(): Promise<DoctorCheck> {
   return new Promise((resolve) => {
     const awsProcess = spawn('aws', ['sts', 'get-caller-identity'], {
       stdio: 'pipe'
@@ -50,23 +77,25 @@ async function checkAwsCli(): Promise<void> {
           console.log(chalk.green('✓ AWS credentials configured'));
           console.log(chalk.green('  Account:'), identity.Account);
           console.log(chalk.green('  User:'), identity.Arn);
+          resolve({ name: 'aws-cli', ok: true, detail: identity.Arn });
         } catch (error) {
           console.log(chalk.green('✓ AWS CLI available'));
+          resolve({ name: 'aws-cli', ok: true });
         }
       } else {
         console.error(chalk.red('✗ AWS credentials not configured:'), stderr.trim());
+        resolve({ name: 'aws-cli', ok: false, detail: `AWS credentials not configured: ${stderr.trim()}` });
       }
-      resolve();
     });
     
     awsProcess.on('error', (error) => {
       console.error(chalk.red('✗ AWS CLI not available:'), error.message);
-      resolve();
+      resolve({ name: 'aws-cli', ok: false, detail: `AWS CLI not available: ${error.message}` });
     });
   });
 }
 
-async function checkJava(): Promise<void> {
+async function checkJava(): Promise<DoctorCheck> {
   return new Promise((resolve) => {
     const javaProcess = spawn('java', ['-version'], {
       stdio: 'pipe'
@@ -83,18 +112,20 @@ async function checkJava(): Promise<void> {
         const versionMatch = stderr.match(/version "([^"]+)"/);
         if (versionMatch) {
           console.log(chalk.green('✓ Java version:'), versionMatch[1]);
+          resolve({ name: 'java', ok: true, detail: versionMatch[1] });
         } else {
           console.log(chalk.green('✓ Java available'));
+          resolve({ name: 'java', ok: true });
         }
       } else {
         console.error(chalk.red('✗ Java not available'));
+        resolve({ name: 'java', ok: false, detail: 'Java not available' });
       }
-      resolve();
     });
     
     javaProcess.on('error', (error) => {
       console.error(chalk.red('✗ Java not available:'), error.message);
-      resolve();
+      resolve({ name: 'java', ok: false, detail: `Java not available: ${error.message}` });
     });
   });
 }
@@ -1,6 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generateCommand } from './generate';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generate, generateCommand } from './generate';
 import { doctorCommand } from './doctor';
+import { runWithJsonOutput } from '../services/json-output';
+import {
+  ChaimError,
+  ConfigError,
+  EXIT_CODES,
+  EnvironmentError,
+  GeneratorFailureError,
+  OutputDriftError,
+  SnapshotNotFoundError,
+  UsageError,
+} from '../errors';
+import { JavaGenerator } from '@chaim-tools/client-java';
 
 // Mock dependencies
 vi.mock('./doctor');
@@ -11,6 +26,9 @@ const mocks = {
   listSnapshots: vi.fn(),
   getSnapshotDirPath: vi.fn(),
   javaGeneratorGenerate: vi.fn(),
+  javaGeneratorGenerateForTable: vi.fn(),
+  watchSnapshots: vi.fn(),
+  configDir: '',
 };
 
 vi.mock('../services/snapshot-discovery', () => ({
@@ -20,12 +38,21 @@ vi.mock('../services/snapshot-discovery', () => ({
   DEFAULT_SNAPSHOT_DIR: 'cdk.out/chaim/snapshots',
 }));
 
+vi.mock('../services/file-watcher', async () => ({
+  ...await vi.importActual<typeof import('../services/file-watcher')>('../services/file-watcher'),
+  watchSnapshots: (...args: unknown[]) => mocks.watchSnapshots(...args),
+}));
+
 vi.mock('@chaim-tools/client-java', () => ({
   JavaGenerator: vi.fn().mockImplementation(() => ({
     generate: (...args: any[]) => mocks.javaGeneratorGenerate(...args),
+    generateForTable: (...args: any[]) => mocks.javaGeneratorGenerateForTable(...args),
   })),
 }));
 
+vi.mock('../config/loader', async () =>
+  (await import('../test-utils/config-loader')).mockConfigLoader(() => ({ dir: mocks.configDir })));
+
 describe('generateCommand', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -37,6 +64,15 @@ describe('generateCommand', () => {
     
     // Reset mock implementations
     mocks.javaGeneratorGenerate.mockResolvedValue(undefined);
+    mocks.javaGeneratorGenerateForTable.mockResolvedValue(undefined);
+    // restoreAllMocks() in afterEach drops the factory implementation, so re-apply it
+    vi.mocked(JavaGenerator).mockImplementation(() => ({
+      generate: (...args: any[]) => mocks.javaGeneratorGenerate(...args),
+      generateForTable: (...args: any[]) => mocks.javaGeneratorGenerateForTable(...args),
+    }) as any);
+    mocks.configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-generate-test-'));
+    // Resolve relative output directories (and the generation manifest written there) in the temp dir
+    vi.spyOn(process, 'cwd').mockReturnValue(mocks.configDir);
     
     // Default: no snapshots found
     mocks.resolveAllSnapshots.mockReturnValue([]);
@@ -48,19 +84,20 @@ describe('generateCommand', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    fs.rmSync(mocks.configDir, { recursive: true, force: true });
   });
 
   describe('parameter validation', () => {
     it('should require package parameter', async () => {
       await expect(generateCommand({ stack: 'TestStack' } as any))
-        .rejects.toThrow('process.exit called');
+        .rejects.toThrow(new UsageError('--package is required'));
     });
 
     it('should show error when no snapshot found', async () => {
       mocks.resolveAllSnapshots.mockReturnValue([]);
       
       await expect(generateCommand({ package: 'com.test' } as any))
-        .rejects.toThrow('process.exit called');
+        .rejects.toBeInstanceOf(SnapshotNotFoundError);
     });
   });
 
@@ -308,26 +345,25 @@ describe('generateCommand', () => {
     it('should show error with hierarchical path structure hint', async () => {
       mocks.resolveAllSnapshots.mockReturnValue([]);
 
-      const consoleErrorSpy = vi.spyOn(console, 'error');
-
       const options = {
         package: 'com.test',
         output: './output',
         skipChecks: true,
       };
 
-      await expect(generateCommand(options)).rejects.toThrow('process.exit called');
+      const error = await generateCommand(options).catch((e) => e);
 
-      expect(consoleErrorSpy).toHaveBeenCalledWith(
-        expect.stringContaining('No snapshot found')
+      expect(error).toBeInstanceOf(SnapshotNotFoundError);
+      expect(error.message).toBe('No snapshot found');
+      expect(error.exitCode).toBe(EXIT_CODES.SNAPSHOT_NOT_FOUND);
+      expect(error.hints).toContainEqual(
+        expect.stringContaining('/aws/{accountId}/{region}/{stackName}/{datastoreType}/{resourceId}.json')
       );
     });
 
     it('should show applied filters when no snapshot found', async () => {
       mocks.resolveAllSnapshots.mockReturnValue([]);
 
-      const consoleErrorSpy = vi.spyOn(console, 'error');
-
       const options = {
         stack: 'MyStack',
         account: '123456789012',
@@ -336,10 +372,10 @@ describe('generateCommand', () => {
         skipChecks: true,
       };
 
-      await expect(generateCommand(options)).rejects.toThrow('process.exit called');
+      const error = await generateCommand(options).catch((e) => e);
 
       // Should show that filters were applied
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(error.hints).toContain('Stack filter applied: MyStack');
     });
 
     it('should show existing snapshots that did not match', async () => {
@@ -357,8 +393,6 @@ describe('generateCommand', () => {
         mtime: new Date(),
       }]);
 
-      const consoleErrorSpy = vi.spyOn(console, 'error');
-
       const options = {
         stack: 'MyStack',
         package: 'com.test',
@@ -366,10 +400,11 @@ describe('generateCommand', () => {
         skipChecks: true,
       };
 
-      await expect(generateCommand(options)).rejects.toThrow('process.exit called');
+      const error = await generateCommand(options).catch((e) => e);
 
       // Should show existing snapshots
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(error.hints).toContain('  Account: 999999999999 / Region: ap-south-1 / Stack: OtherStack');
+      expect(error.hints).toContain('    - Entity (undefined)');
     });
   });
 
@@ -382,7 +417,8 @@ describe('generateCommand', () => {
         output: './output'
       };
 
-      await expect(generateCommand(options)).rejects.toThrow('process.exit called');
+      await expect(generateCommand(options))
+        .rejects.toThrow(new EnvironmentError('Environment validation failed: Environment check failed'));
     });
 
     it('should reject invalid mode option', async () => {
@@ -393,7 +429,697 @@ describe('generateCommand', () => {
         skipChecks: true
       };
 
-      await expect(generateCommand(options)).rejects.toThrow('process.exit called');
+      await expect(generateCommand(options)).rejects.toThrow(ChaimError);
+    });
+  });
+
+  describe('config defaults', () => {
+    const makeSnapshot = (tableName: string, entityName: string) => ({
+      filePath: `/mock/snapshots/aws/123456789012/us-east-1/TestStack/dynamodb/${tableName}__${entityName}.json`,
+      stackName: 'TestStack',
+      accountId: '123456789012',
+      region: 'us-east-1',
+      datastoreType: 'dynamodb',
+      resourceName: tableName,
+      entityName,
+      snapshot: {
+        action: 'UPSERT',
+        identity: { bindingId: `TestStack:${tableName}:${entityName}` },
+        schema: {
+          schemaVersion: '1.0',
+          entityName,
+          description: `${entityName} entity`,
+          primaryKey: { partitionKey: 'id' },
+          fields: [{ name: 'id', type: 'string', required: true }],
+        },
+        resource: {
+          type: 'dynamodb',
+          name: tableName,
+          id: `arn:aws:dynamodb:us-east-1:123456789012:table/${tableName}`,
+          partitionKey: 'id',
+        },
+        providerIdentity: { accountId: '123456789012', region: 'us-east-1' },
+      },
+    });
+
+    const writeRepoConfig = (config: Record<string, unknown>) => {
+      fs.writeFileSync(path.join(mocks.configDir, 'chaim.json'), JSON.stringify(config), 'utf-8');
+    };
+
+    it('should use javaPackage and stackName from chaim.json when flags are omitted', async () => {
+      writeRepoConfig({ javaPackage: 'com.config.model', stackName: 'ConfigStack' });
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+      await generateCommand({ skipChecks: true });
+
+      expect(mocks.resolveAllSnapshots).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ stackName: 'ConfigStack' })
+      );
+      expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+        expect.any(Array),
+        'com.config.model',
+        './src/main/java',
+        expect.objectContaining({ tableName: 'Users' })
+      );
+    });
+
+    it('should let CLI flags take precedence over chaim.json', async () => {
+      writeRepoConfig({ javaPackage: 'com.config.model', stackName: 'ConfigStack', output: './gen' });
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+      await generateCommand({ package: 'com.cli.model', stack: 'CliStack', output: './out', skipChecks: true });
+
+      expect(mocks.resolveAllSnapshots).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ stackName: 'CliStack' })
+      );
+      expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+        expect.any(Array),
+        'com.cli.model',
+        './out',
+        expect.anything()
+      );
+    });
+
+    it('should only generate tables in the tables allow-list', async () => {
+      writeRepoConfig({ javaPackage: 'com.config.model', tables: ['Orders'] });
+      mocks.resolveAllSnapshots.mockReturnValue([
+        makeSnapshot('Users', 'User'),
+        makeSnapshot('Orders', 'Order'),
+      ]);
+
+      await generateCommand({ skipChecks: true });
+
+      expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(1);
+      expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+        [expect.objectContaining({ entityName: 'Order' })],
+        'com.config.model',
+        expect.any(String),
+        expect.objectContaining({ tableName: 'Orders' })
+      );
+    });
+
+    it('should fail when no table matches the allow-list', async () => {
+      writeRepoConfig({ javaPackage: 'com.config.model', tables: ['Missing'] });
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+      await expect(generateCommand({ skipChecks: true }))
+        .rejects.toThrow(new SnapshotNotFoundError('No tables matched the table filters (tables: Missing)'));
+      expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+    });
+
+    it('should print the source of each effective value', async () => {
+      writeRepoConfig({ javaPackage: 'com.config.model' });
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+      const consoleLogSpy = vi.spyOn(console, 'log');
+
+      await generateCommand({ skipChecks: true });
+
+      const output = consoleLogSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+      expect(output).toContain('com.config.model');
+      expect(output).toContain(`repo config (${path.join(mocks.configDir, 'chaim.json')})`);
+    });
+
+    it('should generate TypeScript without a package using the in-repo generator', async () => {
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+      const output = path.join(mocks.configDir, 'generated');
+
+      await generateCommand({ language: 'typescript', output, skipChecks: true });
+
+      expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+      expect(fs.readdirSync(output).sort()).toEqual(['.chaim-manifest.json', 'User.ts', 'UsersTableRepository.ts', 'chaim-runtime.ts']);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('✓ User.ts'));
+    });
+
+    it('should generate Python pydantic models with --python-models', async () => {
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'UserProfile')]);
+      const output = path.join(mocks.configDir, 'generated');
+
+      await generateCommand({ language: 'python', pythonModels: 'pydantic', output, skipChecks: true });
+
+      expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+      expect(fs.readdirSync(output).sort()).toEqual([
+        '.chaim-manifest.json',
+        '__init__.py',
+        'chaim_runtime.py',
+        'user_profile.py',
+        'users_table_repository.py',
+      ]);
+      expect(fs.readFileSync(path.join(output, 'user_profile.py'), 'utf-8')).toContain('class UserProfile(BaseModel):');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('✓ user_profile.py'));
+    });
+
+    it('should reject an unknown --python-models value', async () => {
+      await expect(
+        generateCommand({ language: 'python', pythonModels: 'attrs', skipChecks: true })
+      ).rejects.toThrow(new UsageError("Invalid --python-models 'attrs'"));
+    });
+
+    it('should generate with a generator plugin listed in chaim.json', async () => {
+      fs.writeFileSync(path.join(mocks.configDir, 'kotlin-generator.js'), `
+        const fs = require('fs');
+        const path = require('path');
+        module.exports = {
+          name: 'Kotlin',
+          language: 'kotlin',
+          naming: { convert: (name) => name.replace(/-(.)/g, (_, c) => c.toUpperCase()) },
+          requiresPackage: true,
+          entityFileName: (entity) => entity + '.kt',
+          async generateForTable(schemas, options) {
+            fs.mkdirSync(options.output, { recursive: true });
+            for (const schema of schemas) {
+              fs.writeFileSync(path.join(options.output, schema.entityName + '.kt'), 'package ' + options.package);
+            }
+          },
+        };
+      `);
+      writeRepoConfig({ language: 'kotlin', javaPackage: 'com.example.kt', generators: ['./kotlin-generator.js'] });
+      mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+      const output = path.join(mocks.configDir, 'kotlin');
+
+      await generateCommand({ output, skipChecks: true });
+
+      expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+      expect(fs.readFileSync(path.join(output, 'User.kt'), 'utf-8')).toBe('package com.example.kt');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('✓ User.kt'));
+    });
+
+    it('should reject a language without a generator', async () => {
+      const error = await generateCommand({ language: 'cobol', skipChecks: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(UsageError);
+      expect(error.message).toBe("Language 'cobol' is not yet supported.");
+      expect(error.hints).toContainEqual(expect.stringContaining('java, typescript, python'));
+    });
+
+    describe('incremental generation', () => {
+      it('should skip tables that are unchanged since the last run', async () => {
+        writeRepoConfig({ javaPackage: 'com.config.model' });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Orders', 'Order')]);
+
+        await generateCommand({ skipChecks: true });
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(2);
+
+        const manifest = JSON.parse(
+          fs.readFileSync(path.join(mocks.configDir, 'src', 'main', 'java', '.chaim-manifest.json'), 'utf-8')
+        );
+        expect(manifest.tables['arn:aws:dynamodb:us-east-1:123456789012:table/Users']).toMatchObject({
+          tableName: 'Users',
+          entities: ['User'],
+        });
+
+        mocks.javaGeneratorGenerateForTable.mockClear();
+        const changed = makeSnapshot('Orders', 'Order');
+        changed.snapshot.schema.fields.push({ name: 'total', type: 'number', required: true });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), changed]);
+
+        await generateCommand({ skipChecks: true });
+
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(1);
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+          [expect.objectContaining({ entityName: 'Order' })], 'com.config.model', './src/main/java', expect.anything()
+        );
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('User.java (unchanged)'));
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Skipped 1 unchanged table(s)'));
+      });
+
+      it('should regenerate when the package changes or with --force', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+        await generateCommand({ package: 'com.a', skipChecks: true });
+        await generateCommand({ package: 'com.a', skipChecks: true });
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(1);
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('All 1 table(s) are up to date'));
+
+        await generateCommand({ package: 'com.b', skipChecks: true });
+        await generateCommand({ package: 'com.b', force: true, skipChecks: true });
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(3);
+      });
+
+      it('should retry tables that failed on the previous run', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        mocks.javaGeneratorGenerateForTable.mockRejectedValueOnce(new Error('disk full'));
+
+        await expect(generateCommand({ package: 'com.a', skipChecks: true }))
+          .rejects.toThrow(new GeneratorFailureError('1 of 1 table(s) failed to generate'));
+        await generateCommand({ package: 'com.a', skipChecks: true });
+
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('orphaned files', () => {
+      it('should report files that are no longer generated and leave hand-written files alone', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Users', 'Admin')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+        fs.writeFileSync(path.join(output, 'handwritten.ts'), 'export {};');
+
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('1 previously generated file(s) are no longer produced'));
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining(path.join(output, 'Admin.ts')));
+        expect(fs.existsSync(path.join(output, 'Admin.ts'))).toBe(true);
+
+        // Still reported on the next run, then previewed and deleted with --prune
+        vi.mocked(console.log).mockClear();
+        await generateCommand({ language: 'typescript', output, prune: true, dryRun: true, skipChecks: true });
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Would prune 1 orphaned file(s)'));
+        expect(fs.existsSync(path.join(output, 'Admin.ts'))).toBe(true);
+
+        await generateCommand({ language: 'typescript', output, prune: true, skipChecks: true });
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Pruned 1 orphaned file(s)'));
+        expect(fs.readdirSync(output).sort()).toEqual([
+          '.chaim-manifest.json', 'User.ts', 'UsersTableRepository.ts', 'chaim-runtime.ts', 'handwritten.ts',
+        ]);
+      });
+
+      it('should never prune a hand-written __init__.py', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        fs.mkdirSync(output, { recursive: true });
+        fs.writeFileSync(path.join(output, '__init__.py'), 'from .user import User\n');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'python', output, skipChecks: true });
+
+        await generateCommand({ language: 'typescript', output, prune: true, skipChecks: true });
+
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Pruned 3 orphaned file(s)'));
+        expect(fs.readFileSync(path.join(output, '__init__.py'), 'utf-8')).toBe('from .user import User\n');
+        expect(fs.existsSync(path.join(output, 'user.py'))).toBe(false);
+      });
+
+      it('should detect files written by generators that do not report them and remove emptied directories', async () => {
+        const output = path.join(mocks.configDir, 'java');
+        mocks.javaGeneratorGenerateForTable.mockImplementation(async (schemas: any[], pkg: string, out: string) => {
+          const dir = path.join(out, ...pkg.split('.'));
+          fs.mkdirSync(dir, { recursive: true });
+          for (const schema of schemas) {
+            fs.writeFileSync(path.join(dir, `${schema.entityName}.java`), `package ${pkg};`);
+          }
+        });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ package: 'com.old', output, skipChecks: true });
+
+        await generateCommand({ package: 'com.new', output, prune: true, skipChecks: true });
+
+        expect(fs.existsSync(path.join(output, 'com', 'new', 'User.java'))).toBe(true);
+        expect(fs.existsSync(path.join(output, 'com', 'old'))).toBe(false);
+      });
+
+      it('should only track Java files written under the package directory', async () => {
+        const output = path.join(mocks.configDir, 'java');
+        const handwritten = path.join(output, 'com', 'example', 'app', 'App.java');
+        fs.mkdirSync(path.dirname(handwritten), { recursive: true });
+        fs.writeFileSync(handwritten, 'class App {}');
+        mocks.javaGeneratorGenerateForTable.mockImplementation(async (_schemas: unknown[], pkg: string, out: string) => {
+          const dir = path.join(out, ...pkg.split('.'));
+          fs.mkdirSync(path.join(dir, 'repository'), { recursive: true });
+          fs.writeFileSync(path.join(dir, 'User.java'), `package ${pkg};`);
+          fs.writeFileSync(path.join(dir, 'repository', 'UserRepository.java'), `package ${pkg}.repository;`);
+          // Edited by someone else while generating
+          fs.writeFileSync(handwritten, 'class App { }');
+        });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+        await generateCommand({ package: 'com.example.model', output, skipChecks: true });
+
+        const manifest = JSON.parse(fs.readFileSync(path.join(output, '.chaim-manifest.json'), 'utf-8'));
+        expect(Object.values(manifest.tables).flatMap((table) => (table as { files: string[] }).files)).toEqual([
+          'com/example/model/User.java',
+          'com/example/model/repository/UserRepository.java',
+        ]);
+      });
+
+      it('should keep the files of a table that failed to generate', async () => {
+        const output = path.join(mocks.configDir, 'java');
+        mocks.javaGeneratorGenerateForTable.mockImplementationOnce(async (_schemas: any[], _pkg: string, out: string) => {
+          fs.mkdirSync(out, { recursive: true });
+          fs.writeFileSync(path.join(out, 'User.java'), 'class User {}');
+        });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ package: 'com.a', output, skipChecks: true });
+
+        mocks.javaGeneratorGenerateForTable.mockRejectedValueOnce(new Error('disk full'));
+        await expect(generateCommand({ package: 'com.a', output, force: true, prune: true, skipChecks: true }))
+          .rejects.toBeInstanceOf(GeneratorFailureError);
+
+        expect(fs.existsSync(path.join(output, 'User.java'))).toBe(true);
+      });
+    });
+
+    describe('--dry-run', () => {
+      it('should report the selected and skipped snapshots and the files it would write, without writing', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+        const userFile = path.join(output, 'User.ts');
+        fs.writeFileSync(userFile, fs.readFileSync(userFile, 'utf-8') + '// edited\n');
+        const manifest = fs.readFileSync(path.join(output, '.chaim-manifest.json'), 'utf-8');
+
+        const deleted = { ...makeSnapshot('Users', 'Legacy'), snapshot: { ...makeSnapshot('Users', 'Legacy').snapshot, action: 'DELETE', schema: null } };
+        const stale = { ...makeSnapshot('Users', 'User'), filePath: '/mock/snapshots/aws/999999999999/stale.json' };
+        const changed = makeSnapshot('Users', 'User');
+        changed.snapshot.schema.fields.push({ name: 'email', type: 'string', required: false });
+        mocks.resolveAllSnapshots.mockReturnValue([changed, stale, deleted, makeSnapshot('Orders', 'Order')]);
+        vi.mocked(console.log).mockClear();
+
+        await generateCommand({ language: 'typescript', output, dryRun: true, skipChecks: true });
+
+        const logged = vi.mocked(console.log).mock.calls.map((c) => c.join(' ')).join('\n');
+        expect(logged).toContain('Legacy  skipped: DELETE snapshot');
+        expect(logged).toContain(`User  skipped: older duplicate of TestStack:Users:User (using ${changed.filePath})`);
+        expect(logged).toContain('arn:aws:dynamodb:us-east-1:123456789012:table/Orders');
+        expect(logged).toContain('+ Order.ts (create)');
+        expect(logged).toMatch(/~ User\.ts \(change, \+\d+ -1\)/);
+        expect(logged).toContain('= chaim-runtime.ts (unchanged)');
+        expect(logged).toContain('Dry run: 2 file(s) to create, 1 to change, 2 unchanged');
+
+        // Nothing is written
+        expect(fs.existsSync(path.join(output, 'Order.ts'))).toBe(false);
+        expect(fs.readFileSync(userFile, 'utf-8')).toContain('// edited');
+        expect(fs.readFileSync(path.join(output, '.chaim-manifest.json'), 'utf-8')).toBe(manifest);
+      });
+
+      it('should show tables that would be skipped as unchanged', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'typescript', output: './generated', skipChecks: true });
+        vi.mocked(console.log).mockClear();
+
+        await generateCommand({ language: 'typescript', output: './generated', dryRun: true, skipChecks: true });
+
+        const logged = vi.mocked(console.log).mock.calls.map((c) => c.join(' ')).join('\n');
+        expect(logged).toContain('User.ts (unchanged, would be skipped; use --force to regenerate)');
+        expect(logged).toContain('= User.ts (unchanged, table skipped)');
+        expect(logged).toContain('0 file(s) to create, 0 to change, 3 unchanged');
+      });
+
+      it('should reject --dry-run with --check', async () => {
+        await expect(generateCommand({ package: 'com.a', dryRun: true, check: true, skipChecks: true }))
+          .rejects.toThrow(new UsageError('--check cannot be combined with --prune or --dry-run'));
+      });
+    });
+
+    describe('--check', () => {
+      it('should pass when the output is up to date and fail with a diff when it drifted', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+
+        await generateCommand({ language: 'typescript', output, check: true, skipChecks: true });
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining(`${output} is up to date`));
+
+        const userFile = path.join(output, 'User.ts');
+        const edited = fs.readFileSync(userFile, 'utf-8').replace('export interface User {', 'export interface User {\n  extra?: string;');
+        fs.writeFileSync(userFile, edited);
+        const manifest = fs.readFileSync(path.join(output, '.chaim-manifest.json'), 'utf-8');
+        vi.mocked(console.log).mockClear();
+
+        const error = await generateCommand({ language: 'typescript', output, check: true, skipChecks: true }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(OutputDriftError);
+        expect(error.message).toBe(`1 file(s) in ${output} are out of date`);
+        expect(error.exitCode).toBe(EXIT_CODES.OUTPUT_DRIFT);
+        const logged = vi.mocked(console.log).mock.calls.map((c) => c.join(' ')).join('\n');
+        expect(logged).toMatch(/M User\.ts.*\(\+0 -1\)/);
+        expect(logged).toContain('-  extra?: string;');
+        // The output directory is left untouched
+        expect(fs.readFileSync(userFile, 'utf-8')).toBe(edited);
+        expect(fs.readFileSync(path.join(output, '.chaim-manifest.json'), 'utf-8')).toBe(manifest);
+      });
+
+      it('should report files that are not generated yet and files that are no longer generated', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Users', 'Admin')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Orders', 'Order')]);
+        await expect(generateCommand({ language: 'typescript', output, check: true, skipChecks: true }))
+          .rejects.toThrow(new OutputDriftError(`4 file(s) in ${output} are out of date`));
+
+        const logged = vi.mocked(console.log).mock.calls.map((c) => c.join(' ')).join('\n');
+        expect(logged).toContain('A Order.ts');
+        expect(logged).toContain('A OrdersTableRepository.ts');
+        expect(logged).toContain('D Admin.ts');
+        expect(fs.existsSync(path.join(output, 'Order.ts'))).toBe(false);
+      });
+
+      it('should reject --check with --prune', async () => {
+        await expect(generateCommand({ package: 'com.a', check: true, prune: true, skipChecks: true }))
+          .rejects.toBeInstanceOf(UsageError);
+      });
+    });
+
+    describe('--json', () => {
+      it('should report generated files per table and failures', async () => {
+        const output = path.join(mocks.configDir, 'generated');
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        await generateCommand({ language: 'typescript', output, skipChecks: true });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Orders', 'Order')]);
+        const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        vi.mocked(console.log).mockClear();
+
+        await runWithJsonOutput('generate', () => generateCommand({ language: 'typescript', output, skipChecks: true }));
+
+        const result = JSON.parse(String(write.mock.calls[0][0]));
+        expect(result).toMatchObject({ command: 'generate', success: true, exitCode: 0, errors: [] });
+        expect(result.result.targets).toEqual([expect.objectContaining({
+          language: 'typescript',
+          output,
+          mode: 'generate',
+          orphans: [],
+          pruned: false,
+        })]);
+        expect(result.result.targets[0].tables).toEqual([
+          {
+            tableId: 'arn:aws:dynamodb:us-east-1:123456789012:table/Users',
+            tableName: 'Users',
+            entities: ['User'],
+            status: 'unchanged',
+            files: ['User.ts', 'UsersTableRepository.ts', 'chaim-runtime.ts'],
+          },
+          {
+            tableId: 'arn:aws:dynamodb:us-east-1:123456789012:table/Orders',
+            tableName: 'Orders',
+            entities: ['Order'],
+            status: 'generated',
+            files: ['Order.ts', 'OrdersTableRepository.ts', 'chaim-runtime.ts'],
+          },
+        ]);
+        expect(console.log).not.toHaveBeenCalled();
+      });
+
+      it('should exit with the error code and message when nothing can be generated', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([]);
+        mocks.listSnapshots.mockReturnValue([]);
+        const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+        await expect(runWithJsonOutput('generate', () => generateCommand({ package: 'com.a', skipChecks: true })))
+          .rejects.toThrow('process.exit called');
+
+        const result = JSON.parse(String(write.mock.calls[0][0]));
+        expect(result).toMatchObject({ success: false, exitCode: EXIT_CODES.SNAPSHOT_NOT_FOUND, result: null });
+        expect(result.errors[0]).toBe('No snapshot found');
+        expect(process.exit).toHaveBeenCalledWith(EXIT_CODES.SNAPSHOT_NOT_FOUND);
+      });
+    });
+
+    describe('generate()', () => {
+      it('should return failed tables without printing or throwing', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Orders', 'Order')]);
+        mocks.javaGeneratorGenerateForTable
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(new Error('disk full'));
+
+        const result = await generate({ package: 'com.api' });
+
+        expect(result.targets).toHaveLength(1);
+        expect(result.targets[0].tables).toEqual([
+          expect.objectContaining({ tableName: 'Users', status: 'generated' }),
+          expect.objectContaining({ tableName: 'Orders', status: 'failed', error: 'disk full' }),
+        ]);
+        expect(console.log).not.toHaveBeenCalled();
+        expect(console.error).not.toHaveBeenCalled();
+      });
+
+      it('should send progress to the given logger', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+        const logger = { log: vi.fn(), error: vi.fn(), silent: true };
+
+        await generate({ package: 'com.api', logger });
+
+        expect(logger.log).toHaveBeenCalledWith(expect.stringContaining('Generated'));
+        expect(console.log).not.toHaveBeenCalled();
+      });
+
+      it('should not run the environment checks', async () => {
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+        await generate({ package: 'com.api' });
+
+        expect(doctorCommand).not.toHaveBeenCalled();
+      });
+
+      it('should still throw when nothing can be generated', async () => {
+        await expect(generate({ package: 'com.api' }))
+          .rejects.toBeInstanceOf(SnapshotNotFoundError);
+      });
+    });
+
+    describe('--watch', () => {
+      it('should reject --check and --dry-run', async () => {
+        await expect(generateCommand({ package: 'com.a', watch: true, check: true }))
+          .rejects.toThrow(new UsageError('--watch cannot be combined with --check or --dry-run'));
+        expect(mocks.watchSnapshots).not.toHaveBeenCalled();
+      });
+
+      it('should regenerate changed tables until interrupted', async () => {
+        const snapshotDir = path.join(mocks.configDir, 'snapshots');
+        const close = vi.fn();
+        let onChange: (changedFiles: string[]) => void = () => {};
+        mocks.watchSnapshots.mockImplementation((_dir: string, callback: typeof onChange) => {
+          onChange = callback;
+          return { close };
+        });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+        const watching = generateCommand({ language: 'typescript', output: './gen', snapshotDir, skipChecks: true, watch: true });
+        await vi.waitFor(() => expect(mocks.watchSnapshots).toHaveBeenCalledWith(snapshotDir, expect.any(Function)));
+        vi.mocked(console.log).mockClear();
+
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Orders', 'Order')]);
+        onChange(['/snapshots/Orders__Order.json']);
+        await vi.waitFor(() => expect(console.log).toHaveBeenCalledWith(expect.stringContaining('1 table(s) unchanged')));
+        process.emit('SIGINT');
+        await watching;
+
+        const lines = vi.mocked(console.log).mock.calls.map(([line]) => String(line));
+        expect(lines).toContainEqual(expect.stringContaining('1 snapshot(s) changed'));
+        expect(lines).toContainEqual(expect.stringContaining('✓ Orders (Order): 3 file(s)'));
+        expect(lines.some((line) => line.includes('Users ('))).toBe(false);
+        expect(close).toHaveBeenCalled();
+      });
+
+      it('should keep watching when no snapshot exists yet', async () => {
+        mocks.watchSnapshots.mockReturnValue({ close: vi.fn() });
+
+        const watching = generateCommand({ package: 'com.a', skipChecks: true, watch: true });
+        await vi.waitFor(() => expect(mocks.watchSnapshots).toHaveBeenCalled());
+        process.emit('SIGINT');
+        await watching;
+
+        expect(console.log).toHaveBeenCalledWith(expect.stringContaining('No snapshot found'));
+      });
+    });
+
+    describe('targets', () => {
+      const targets = [
+        { name: 'orders', javaPackage: 'com.orders.model', output: './orders', tables: ['Orders'] },
+        { name: 'users', javaPackage: 'com.users.model', output: './users', stackName: 'UserStack', excludeEntities: ['Admin'] },
+      ];
+
+      it('should generate a single target with its own package, output and stack', async () => {
+        writeRepoConfig({ stackName: 'TopStack', targets });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User'), makeSnapshot('Users', 'Admin')]);
+
+        await generateCommand({ target: 'users', skipChecks: true });
+
+        expect(mocks.resolveAllSnapshots).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ stackName: 'UserStack' })
+        );
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(1);
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+          [expect.objectContaining({ entityName: 'User' })],
+          'com.users.model',
+          path.join(mocks.configDir, 'users'),
+          expect.objectContaining({ tableName: 'Users' })
+        );
+      });
+
+      it('should fall back to top-level values and let CLI flags override the target', async () => {
+        writeRepoConfig({ javaPackage: 'com.top.model', stackName: 'TopStack', targets: [{ name: 'minimal' }] });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Users', 'User')]);
+
+        await generateCommand({ target: 'minimal', output: './cli-out', skipChecks: true });
+
+        expect(mocks.resolveAllSnapshots).toHaveBeenCalledWith(
+          expect.any(String),
+          expect.objectContaining({ stackName: 'TopStack' })
+        );
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+          expect.any(Array),
+          'com.top.model',
+          './cli-out',
+          expect.anything()
+        );
+      });
+
+      it('should run every target with --all-targets and print a combined summary', async () => {
+        writeRepoConfig({ targets });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Orders', 'Order'), makeSnapshot('Users', 'User')]);
+        const consoleLogSpy = vi.spyOn(console, 'log');
+
+        await generateCommand({ allTargets: true, skipChecks: true });
+
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(3);
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledWith(
+          expect.any(Array), 'com.orders.model', path.join(mocks.configDir, 'orders'), expect.objectContaining({ tableName: 'Orders' })
+        );
+        const output = consoleLogSpy.mock.calls.map((c) => c.join(' ')).join('\n');
+        expect(output).toMatch(/✓ orders\s+1 entities, 1 table\(s\)/);
+        expect(output).toMatch(/✓ users\s+2 entities, 2 table\(s\)/);
+        expect(output).toContain('Generated 2 target(s) successfully');
+      });
+
+      it('should keep going after a failing target and fail at the end', async () => {
+        writeRepoConfig({ targets: [{ name: 'broken', javaPackage: 'com.a', tables: ['Missing'] }, targets[0]] });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Orders', 'Order')]);
+
+        await expect(generateCommand({ allTargets: true, skipChecks: true }))
+          .rejects.toThrow(new GeneratorFailureError('1 of 2 target(s) failed'));
+
+        expect(mocks.javaGeneratorGenerateForTable).toHaveBeenCalledTimes(1);
+        expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Target 'broken' failed: No tables matched"));
+      });
+
+      it('should reject an unknown target', async () => {
+        writeRepoConfig({ targets });
+
+        const error = await generateCommand({ target: 'billing', skipChecks: true }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(UsageError);
+        expect(error.message).toBe("Unknown target 'billing'");
+        expect(error.hints).toEqual(['Targets in chaim.json: orders, users']);
+      });
+
+      it('should reject --package with --all-targets', async () => {
+        writeRepoConfig({ targets });
+
+        await expect(generateCommand({ allTargets: true, package: 'com.x', skipChecks: true }))
+          .rejects.toBeInstanceOf(UsageError);
+        expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+      });
+
+      it('should reject a target without a package before generating anything', async () => {
+        writeRepoConfig({ targets: [targets[0], { name: 'nopkg' }] });
+        mocks.resolveAllSnapshots.mockReturnValue([makeSnapshot('Orders', 'Order')]);
+
+        await expect(generateCommand({ allTargets: true, skipChecks: true }))
+          .rejects.toThrow(new ConfigError("Target 'nopkg' has no package"));
+        expect(mocks.javaGeneratorGenerateForTable).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should report invalid config files', async () => {
+      writeRepoConfig({ language: 'Java 8' });
+
+      const error = await generateCommand({ skipChecks: true }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error.message).toContain('"language"');
+      expect(error.exitCode).toBe(EXIT_CODES.CONFIG);
     });
   });
 });
@@ -1,6 +1,8 @@
 import chalk from 'chalk';
 import ora from 'ora';
-import { JavaGenerator } from '@chaim-tools/client-java';
+import { PythonModelStyle, PYTHON_MODEL_STYLES } from '../generators/python-generator';
+import { loadGenerators, resolveGenerator } from '../generators/registry';
+import { ChaimGenerator } from '../generators/types';
 import { doctorCommand } from './doctor';
 import {
   resolveAllSnapshots,
@@ -14,100 +16,699 @@ import {
   TableMetadata,
 } from '../types';
 import {
-  SupportedLanguage,
-  SUPPORTED_LANGUAGES,
-  DEFAULT_LANGUAGE,
+  ResolvedChaimConfig,
+  GenerationTarget,
 } from '../config/types';
-import { resolveFieldNames, detectCollisions } from '../services/name-resolver';
+import { loadConfig, describeConfigSource } from '../config/loader';
+import { resolveNestedFieldNames, detectCollisions } from '../services/name-resolver';
+import {
+  GenerationManifest,
+  MANIFEST_VERSION,
+  computeGenerationHash,
+  detectWrittenFiles,
+  findOrphans,
+  listOutputFiles,
+  manifestsEqual,
+  pruneFiles,
+  readManifest,
+  toManifestPath,
+  writeManifest,
+} from '../services/generation-manifest';
+import { FileComparison, FileStatus, compareGeneratedOutput, seedCheckDir } from '../services/output-check';
+import { isJsonOutput, setCommandResult } from '../services/json-output';
+import { Logger, consoleLogger, silentLogger } from '../services/logger';
+import { waitForInterrupt, watchSnapshots } from '../services/file-watcher';
+import { getBindingId, getTableIdentity, getTableName, validateTableKeyConsistency } from '../services/table-keys';
+import {
+  ChaimError,
+  ConfigError,
+  EnvironmentError,
+  GeneratorFailureError,
+  KeyConsistencyError,
+  NameCollisionError,
+  OutputDriftError,
+  SnapshotNotFoundError,
+  UsageError,
+} from '../errors';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
-interface GenerateOptions {
+/**
+ * Options for generate() and `chaim generate`. Unset values come from
+ * CHAIM_* environment variables, chaim.json and ~/.chaim/config.json, found
+ * from the current directory; relative paths resolve against it too.
+ */
+export interface GenerateOptions {
+  /** CDK stack name filter */
   stack?: string;
-  package: string;
-  output: string;
+  /** Package for the generated code (required by Java) */
+  package?: string;
+  /** Output directory */
+  output?: string;
+  /** Target language: java (default), typescript, python, or a plugin language */
   language?: string;
+  /** Python model base: dataclass (default) or pydantic */
+  pythonModels?: string;
+  /** Snapshot directory (default: OS cache) */
   snapshotDir?: string;
+  /** Skip the `chaim doctor` environment checks the CLI runs first (generate() never runs them) */
   skipChecks?: boolean;
+  /** Run a single named target from chaim.json */
+  target?: string;
+  /** Run every target defined in chaim.json */
+  allTargets?: boolean;
+  /** Regenerate every table, even if the generation manifest says it is unchanged */
+  force?: boolean;
+  /** Delete generated files that are no longer produced */
+  prune?: boolean;
+  /** Report what generation would do without writing anything */
+  dryRun?: boolean;
+  /** Generate into a temporary directory and report differences from the output directory */
+  check?: boolean;
+  /** Keep running and regenerate whenever snapshots change (generateCommand only) */
+  watch?: boolean;
+  /** Where progress is printed; generate() is silent by default */
+  logger?: Logger;
+}
+
+/**
+ * Effective generation settings after merging CLI flags with config files.
+ */
+interface GenerationSettings {
+  /** Target name, when generating a named target */
+  name?: string;
+  /** Package (--package / javaPackage), required when the generator sets requiresPackage */
+  javaPackage?: string;
+  output: string;
+  /** Generator for the target language */
+  generator: ChaimGenerator;
+  /** Generator-specific settings (e.g., { models: 'pydantic' } for Python) */
+  generatorSettings: Record<string, string>;
+  /** Table allow-list (table names or ARNs); undefined means all tables */
+  tables?: string[];
+  /** Tables to skip (table names or ARNs) */
+  excludeTables?: string[];
+  /** Entity allow-list; undefined means all entities */
+  entities?: string[];
+  /** Entities to skip */
+  excludeEntities?: string[];
+  /** Regenerate every table, ignoring the generation manifest */
+  force?: boolean;
+  /** Delete orphaned generated files */
+  prune?: boolean;
+  /** Report the planned output instead of writing to the output directory */
+  dryRun?: boolean;
+  /** Compare freshly generated code with the output directory instead of writing to it */
+  check?: boolean;
+  logger: Logger;
+}
+
+/**
+ * Outcome of generating one set of settings, used for the combined target summary.
+ */
+interface GenerationSummary {
+  settings: GenerationSettings;
+  tables: number;
+  entities: number;
+  failedTables: number;
+  /** Tables skipped because their inputs are unchanged since the last run */
+  unchangedTables: number;
+  /** Files out of date in the output directory (--check) */
+  driftedFiles?: number;
+  /** Set when generation stopped before any code was written */
+  error?: string;
+  /** Per-table results */
+  results?: TableResult[];
+  /** Orphaned files, relative to the output directory */
+  orphans?: string[];
+  /** Output files compared with freshly generated code (--check, --dry-run) */
+  comparisons?: FileComparison[];
+}
+
+/**
+ * Result of `chaim generate` (the `result` of its --json output): one entry
+ * per target, or a single unnamed entry when no target is selected.
+ */
+export interface GenerateResult {
+  targets: GenerateTargetResult[];
+}
+
+/**
+ * JSON result for one target.
+ */
+export interface GenerateTargetResult {
+  /** Target name from chaim.json */
+  name?: string;
+  language: string;
+  /** Absolute output directory */
+  output: string;
+  package?: string;
+  mode: 'generate' | 'check' | 'dry-run';
+  tables: GenerateTableResult[];
+  /** Orphaned files, relative to the output directory */
+  orphans: string[];
+  /** Whether the orphans were deleted (--prune) */
+  pruned: boolean;
+  /** With --check and --dry-run: how each output file compares with freshly generated code */
+  files?: { file: string; status: FileStatus; added?: number; removed?: number }[];
+  /** Set when the target stopped before generating any table */
+  error?: string;
+}
+
+/**
+ * JSON result for one table.
+ */
+export interface GenerateTableResult {
+  /** Table identity (table ARN or {accountId}:{region}:{tableName}) */
+  tableId: string;
+  tableName: string;
+  entities: string[];
+  status: 'generated' | 'unchanged' | 'failed';
+  /** Files generated for the table, relative to the output directory */
+  files: string[];
+  error?: string;
+}
+
+/**
+ * Settings that a target can override.
+ */
+type TargetConfigKey = 'stackName' | 'tables' | 'language' | 'javaPackage' | 'output';
+
+/**
+ * Generate code from local snapshots, as `chaim generate` does, and return
+ * what was generated. Failed tables and, with `check`, out-of-date files are
+ * reported in the result rather than thrown.
+ *
+ * @throws ChaimError subclasses when nothing could be generated: invalid
+ * options or config, no snapshot, inconsistent keys or name collisions
+ */
+export async function generate(options: GenerateOptions = {}): Promise<GenerateResult> {
+  const logger = options.logger ?? silentLogger;
+
+  // Merge CLI flags over env vars, chaim.json and ~/.chaim/config.json
+  const config = loadConfig({
+    cliOverrides: {
+      javaPackage: options.package,
+      output: options.output,
+      stackName: options.stack,
+      language: options.language,
+    },
+  });
+
+  if (options.check && (options.prune || options.dryRun)) {
+    throw new UsageError('--check cannot be combined with --prune or --dry-run');
+  }
+
+  const pythonModels = resolvePythonModels(options.pythonModels);
+  const generatorSettings: Record<string, string> = pythonModels ? { models: pythonModels } : {};
+
+  // Built-in generators plus plugins from chaim.json and node_modules
+  const generators = loadGenerators({
+    projectDir: config.repoConfigPath ? path.dirname(config.repoConfigPath) : process.cwd(),
+    plugins: config.generators,
+  });
+
+  if (options.target || options.allTargets) {
+    return generateTargets(config, options, generators, generatorSettings, logger);
+  }
+
+  // Resolve and validate language (defaults to Java)
+  const generator = resolveGenerator(generators, config.language);
+
+  // Validate required options
+  if (generator.requiresPackage && !config.javaPackage) {
+    const hints = [
+      'Example: chaim generate --package com.mycompany.myapp.model',
+      'Or set "javaPackage" in chaim.json to use it as the default.',
+    ];
+    if (config.targets && config.targets.length > 0) {
+      hints.push(`Or run a target from chaim.json: --target <name> or --all-targets (targets: ${config.targets.map((t) => t.name).join(', ')})`);
+    }
+    throw new UsageError('--package is required', hints);
+  }
+
+  printEffectiveConfig(config, generator, logger);
+
+  // Use OS cache by default, or override if specified
+  const snapshotDir = resolveSnapshotDir(options);
+
+  // Build discovery options from the resolved stack filter
+  const discoveryOptions: DiscoveryOptions = {
+    stackName: config.stackName,
+  };
+
+  // Resolve all matching snapshots
+  const resolvedSnapshots = resolveAllSnapshots(snapshotDir, discoveryOptions);
+
+  if (resolvedSnapshots.length === 0) {
+    // No snapshots found - provide helpful error message
+    throw new SnapshotNotFoundError('No snapshot found', snapshotNotFoundHints(snapshotDir, discoveryOptions));
+  }
+
+  // Generate from all matching snapshots
+  const summary = await generateFromSnapshots(resolvedSnapshots, {
+    javaPackage: config.javaPackage,
+    output: getOutputDir(config, generator),
+    generator,
+    generatorSettings,
+    tables: config.tables,
+    force: options.force,
+    prune: options.prune,
+    dryRun: options.dryRun,
+    check: options.check,
+    logger,
+  });
+
+  return { targets: [toTargetResult(summary)] };
 }
 
+/**
+ * `chaim generate`: generate() with console output, failing if any table or
+ * target failed or, with --check, any file is out of date.
+ */
 export async function generateCommand(options: GenerateOptions): Promise<void> {
+  if (options.watch) {
+    return watchGenerate(options);
+  }
+
+  if (!options.skipChecks) {
+    await runPreGenerationChecks();
+  }
+
+  const result = await generate({ ...options, logger: consoleLogger });
+  setCommandResult('generate', result);
+
+  const { targets } = result;
+  if (options.target || options.allTargets) {
+    const failed = targets.filter((t) => t.error || t.tables.some((table) => table.status === 'failed'));
+    const drifted = targets.filter((t) => t.mode === 'check' && t.files?.some((file) => file.status !== 'unchanged'));
+    if (failed.length > 0) {
+      throw new GeneratorFailureError(`${failed.length} of ${targets.length} target(s) failed`);
+    }
+    if (drifted.length > 0) {
+      throw new OutputDriftError(`${drifted.length} of ${targets.length} target(s) out of date`, [DRIFT_HINT]);
+    }
+    return;
+  }
+
+  const [target] = targets;
+  const failedTables = target.tables.filter((table) => table.status === 'failed').length;
+  if (failedTables > 0) {
+    throw new GeneratorFailureError(`${failedTables} of ${target.tables.length} table(s) failed to generate`);
+  }
+  const outOfDate = target.files?.filter((file) => file.status !== 'unchanged').length ?? 0;
+  if (target.mode === 'check' && outOfDate > 0) {
+    throw new OutputDriftError(`${outOfDate} file(s) in ${target.output} are out of date`, [DRIFT_HINT]);
+  }
+}
+
+/**
+ * `chaim generate --watch`: generate once, then regenerate whenever a snapshot
+ * is added, changed or deleted, until interrupted with Ctrl+C. The generation
+ * manifest skips tables whose inputs are unchanged, so each run only
+ * regenerates the tables affected by the new snapshots.
+ */
+async function watchGenerate(options: GenerateOptions): Promise<void> {
+  if (isJsonOutput()) {
+    throw new UsageError('--watch cannot be combined with --json');
+  }
+  if (options.check || options.dryRun) {
+    throw new UsageError('--watch cannot be combined with --check or --dry-run');
+  }
+
+  const snapshotDir = resolveSnapshotDir(options);
+
+  if (!options.skipChecks) {
+    await runPreGenerationChecks();
+  }
+
   try {
-    // Validate required options
-    if (!options.package) {
-      console.error(chalk.red('Error: --package is required'));
-      console.error(chalk.gray('  Example: chaim generate --package com.mycompany.myapp.model'));
-      process.exit(1);
+    await generate({ ...options, logger: consoleLogger });
+  } catch (error) {
+    // A later synth can fix these; anything else (usage, config) stops here
+    if (!isSnapshotError(error)) {
+      throw error;
     }
+    printWatchError(error);
+  }
+
+  // --force only applies to the first run
+  const runOptions: GenerateOptions = { ...options, force: false, logger: silentLogger };
 
-    // Resolve and validate language (defaults to Java)
-    const language = resolveLanguage(options.language);
+  console.log(chalk.blue(`\n👀 Watching ${snapshotDir} for snapshot changes (Ctrl+C to stop)`));
 
-    // Pre-generation checks (unless skipped)
-    if (!options.skipChecks) {
-      await runPreGenerationChecks();
+  let running = false;
+  let queued: string[] = [];
+
+  const run = async (changedFiles: string[]): Promise<void> => {
+    if (running) {
+      queued.push(...changedFiles);
+      return;
     }
 
-    // Use OS cache by default, or override if specified
-    const snapshotDir = options.snapshotDir 
-      ? getSnapshotDirPath(options.snapshotDir) 
-      : getSnapshotBaseDir();
+    running = true;
+    console.log(`${chalk.gray(`[${new Date().toLocaleTimeString()}]`)} ${changedFiles.length} snapshot(s) changed`);
+    try {
+      printWatchSummary(await generate(runOptions));
+    } catch (error) {
+      printWatchError(error);
+    }
+    running = false;
 
-    // Build discovery options from CLI args (only --stack filter)
-    const discoveryOptions: DiscoveryOptions = {
-      stackName: options.stack,
-    };
+    if (queued.length > 0) {
+      const next = [...new Set(queued)];
+      queued = [];
+      await run(next);
+    }
+  };
 
-    // Resolve all matching snapshots
-    const resolvedSnapshots = resolveAllSnapshots(snapshotDir, discoveryOptions);
+  const watcher = watchSnapshots(snapshotDir, (changedFiles) => {
+    void run(changedFiles);
+  });
+  await waitForInterrupt();
+  watcher.close();
+  console.log(chalk.blue('\nStopped watching'));
+}
 
-    if (resolvedSnapshots.length === 0) {
-      // No snapshots found - provide helpful error message
-      printSnapshotNotFoundError(snapshotDir, discoveryOptions);
-      process.exit(1);
+/**
+ * Errors caused by the snapshots themselves, which the next synth may fix.
+ */
+function isSnapshotError(error: unknown): boolean {
+  return error instanceof SnapshotNotFoundError
+    || error instanceof KeyConsistencyError
+    || error instanceof NameCollisionError;
+}
+
+/**
+ * Print one line per regenerated or failed table of a watch run, then the
+ * number of unchanged tables.
+ */
+function printWatchSummary(result: GenerateResult): void {
+  for (const target of result.targets) {
+    const prefix = target.name ? `${target.name}: ` : '';
+    if (target.error) {
+      console.log(chalk.red(`  ✗ ${prefix}${target.error}`));
+      continue;
     }
 
-    // Generate from all matching snapshots
-    await generateFromSnapshots(resolvedSnapshots, options, language);
+    for (const table of target.tables) {
+      if (table.status === 'generated') {
+        console.log(chalk.green(`  ✓ ${prefix}${table.tableName} (${table.entities.join(', ')}): ${table.files.length} file(s)`));
+      } else if (table.status === 'failed') {
+        console.log(chalk.red(`  ✗ ${prefix}${table.tableName}: ${table.error}`));
+      }
+    }
 
-  } catch (error) {
-    console.error(chalk.red('✗ Generation failed:'), error instanceof Error ? error.message : error);
-    if (error instanceof Error && error.stack) {
-      console.error(error.stack);
+    const unchanged = target.tables.filter((table) => table.status === 'unchanged').length;
+    if (unchanged > 0) {
+      console.log(chalk.gray(`  ${prefix}${unchanged} table(s) unchanged`));
+    }
+    if (target.pruned && target.orphans.length > 0) {
+      console.log(chalk.gray(`  ${prefix}pruned ${target.orphans.length} orphaned file(s)`));
     }
-    process.exit(1);
   }
 }
 
 /**
- * Print a helpful error message when no snapshot is found.
+ * Print an error from a watch run without stopping the watch.
  */
-function printSnapshotNotFoundError(snapshotDir: string, options: DiscoveryOptions): void {
-  console.error(chalk.red('\n✗ No snapshot found'));
-  console.error('');
-  console.error(chalk.yellow('Chaim requires a LOCAL snapshot from chaim-cdk.'));
-  console.error('');
-  console.error(chalk.white('To create a snapshot, run one of the following in your CDK project:'));
-  console.error('');
-  console.error(chalk.cyan('  # Synthesize (creates LOCAL snapshot in cache):'));
-  console.error(chalk.white('  cdk synth'));
-  console.error('');
-  console.error(chalk.cyan('  # Or deploy (also creates LOCAL snapshot):'));
-  console.error(chalk.white('  cdk deploy'));
-  console.error('');
-  console.error(chalk.white('Expected snapshot location (OS cache):'));
-  console.error(chalk.gray(`  ${snapshotDir}/aws/{accountId}/{region}/{stackName}/{datastoreType}/{resourceId}.json`));
-  console.error('');
+function printWatchError(error: unknown): void {
+  console.log(chalk.red(`  ✗ ${error instanceof Error ? error.message : String(error)}`));
+  if (error instanceof ChaimError) {
+    for (const hint of error.hints) {
+      console.log(chalk.gray(`    ${hint}`));
+    }
+  }
+}
+
+/**
+ * Use the OS cache by default, or the directory given with --snapshot-dir.
+ */
+function resolveSnapshotDir(options: GenerateOptions): string {
+  return options.snapshotDir
+    ? getSnapshotDirPath(options.snapshotDir)
+    : getSnapshotBaseDir();
+}
+
+/**
+ * Get the effective value of a setting for a target.
+ *
+ * Priority: CLI flag > target value > top-level config (env, repo, global, default).
+ */
+function getTargetValue<K extends TargetConfigKey>(
+  config: ResolvedChaimConfig,
+  target: GenerationTarget | undefined,
+  key: K
+): ResolvedChaimConfig[K] {
+  if (!target || config.sources[key] === 'cli' || target[key] === undefined) {
+    return config[key];
+  }
+  return target[key] as ResolvedChaimConfig[K];
+}
+
+/**
+ * Get the output directory, using the generator's conventional directory
+ * (e.g., ./src/generated for TypeScript) when no output is configured.
+ */
+function getOutputDir(config: ResolvedChaimConfig, generator: ChaimGenerator, target?: GenerationTarget): string {
+  if (target?.output === undefined && config.sources.output === 'default') {
+    return generator.defaultOutput ?? config.output;
+  }
+  return getTargetValue(config, target, 'output');
+}
+
+/**
+ * Describe where a target setting came from (see getTargetValue).
+ */
+function describeTargetSource(
+  config: ResolvedChaimConfig,
+  target: GenerationTarget | undefined,
+  key: TargetConfigKey
+): string {
+  if (!target || config.sources[key] === 'cli' || target[key] === undefined) {
+    return describeConfigSource(config, key);
+  }
+  return `target "${target.name}"`;
+}
+
+/**
+ * Print each effective generation setting with the source it was resolved from.
+ */
+function printEffectiveConfig(
+  config: ResolvedChaimConfig,
+  generator: ChaimGenerator,
+  logger: Logger,
+  target?: GenerationTarget
+): void {
+  const rows: [string, string | undefined, string][] = (
+    [
+      ['Package', 'javaPackage'],
+      ['Output', 'output'],
+      ['Language', 'language'],
+      ['Stack', 'stackName'],
+      ['Tables', 'tables'],
+    ] as [string, TargetConfigKey][]
+  ).map(([label, key]) => {
+    const value = key === 'output' ? getOutputDir(config, generator, target) : getTargetValue(config, target, key);
+    return [label, Array.isArray(value) ? value.join(', ') : value, describeTargetSource(config, target, key)];
+  });
+
+  if (target) {
+    const source = `target "${target.name}"`;
+    rows.push(['Exclude tables', target.excludeTables?.join(', '), source]);
+    rows.push(['Entities', target.entities?.join(', '), source]);
+    rows.push(['Exclude entities', target.excludeEntities?.join(', '), source]);
+  }
+
+  const shown = rows.filter(([, value]) => value !== undefined);
+  const width = Math.max(...shown.map(([label]) => label.length)) + 2;
+
+  logger.log(chalk.blue('Configuration:'));
+  for (const [label, value, source] of shown) {
+    logger.log(`  ${chalk.green(`${label}:`.padEnd(width))} ${value} ${chalk.gray(`(${source})`)}`);
+  }
+}
+
+/**
+ * Pick the targets selected by --target/--all-targets.
+ */
+function selectTargets(config: ResolvedChaimConfig, options: GenerateOptions): GenerationTarget[] {
+  if (options.target && options.allTargets) {
+    throw new UsageError('Cannot specify both --target and --all-targets');
+  }
+
+  const targets = config.targets ?? [];
+  if (targets.length === 0) {
+    throw new ConfigError('No targets defined in chaim.json', config.repoConfigPath, 'targets', [
+      'Add a "targets" array, e.g. [{ "name": "orders-service", "javaPackage": "com.example.orders", "output": "./services/orders/src/main/java" }]',
+    ]);
+  }
+
+  if (options.allTargets) {
+    if (options.package || options.output) {
+      throw new UsageError('--package and --output cannot be combined with --all-targets', [
+        'Set "javaPackage" and "output" on each target in chaim.json instead.',
+      ]);
+    }
+    return targets;
+  }
+
+  const target = targets.find((t) => t.name === options.target);
+  if (!target) {
+    throw new UsageError(`Unknown target '${options.target}'`, [
+      `Targets in chaim.json: ${targets.map((t) => t.name).join(', ')}`,
+    ]);
+  }
+  return [target];
+}
+
+/**
+ * Build the generation settings for a target, throwing if its generator needs a package and none is set.
+ */
+function resolveTargetSettings(
+  config: ResolvedChaimConfig,
+  target: GenerationTarget,
+  generators: Map<string, ChaimGenerator>,
+  generatorSettings: Record<string, string>
+): Omit<GenerationSettings, 'logger'> {
+  const generator = resolveGenerator(generators, getTargetValue(config, target, 'language'));
+  const javaPackage = getTargetValue(config, target, 'javaPackage');
+  if (generator.requiresPackage && !javaPackage) {
+    throw new ConfigError(`Target '${target.name}' has no package`, config.repoConfigPath, 'javaPackage', [
+      'Set "javaPackage" on the target or at the top level of chaim.json.',
+    ]);
+  }
+
+  return {
+    name: target.name,
+    javaPackage,
+    output: getOutputDir(config, generator, target),
+    generator,
+    generatorSettings,
+    tables: getTargetValue(config, target, 'tables'),
+    excludeTables: target.excludeTables,
+    entities: target.entities,
+    excludeEntities: target.excludeEntities,
+  };
+}
+
+/**
+ * Generate each selected target in turn and print a combined summary.
+ * A failing target does not stop the remaining targets; its error is
+ * recorded in its result.
+ */
+async function generateTargets(
+  config: ResolvedChaimConfig,
+  options: GenerateOptions,
+  generators: Map<string, ChaimGenerator>,
+  generatorSettings: Record<string, string>,
+  logger: Logger
+): Promise<GenerateResult> {
+  const targets = selectTargets(config, options);
+
+  // Resolve every target up front so configuration errors surface before any code is written
+  const settingsList = targets.map((target) => ({
+    ...resolveTargetSettings(config, target, generators, generatorSettings),
+    force: options.force,
+    prune: options.prune,
+    dryRun: options.dryRun,
+    check: options.check,
+    logger,
+  }));
+
+  const snapshotDir = resolveSnapshotDir(options);
+  const summaries: GenerationSummary[] = [];
+
+  for (const [index, target] of targets.entries()) {
+    const settings = settingsList[index];
+    logger.log(chalk.cyan(`\n━━ Target: ${target.name}`));
+    printEffectiveConfig(config, settings.generator, logger, target);
+
+    try {
+      const stackName = getTargetValue(config, target, 'stackName');
+      const snapshots = resolveAllSnapshots(snapshotDir, { stackName });
+      if (snapshots.length === 0) {
+        throw new SnapshotNotFoundError(stackName ? `No snapshot found for stack '${stackName}'` : 'No snapshot found');
+      }
+      summaries.push(await generateFromSnapshots(snapshots, settings));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(chalk.red(`✗ Target '${target.name}' failed: ${message}`));
+      if (error instanceof ChaimError) {
+        for (const hint of error.hints) {
+          logger.error(chalk.gray(`  ${hint}`));
+        }
+      }
+      summaries.push({ settings, tables: 0, entities: 0, failedTables: 0, unchangedTables: 0, error: message });
+    }
+  }
+
+  printTargetsSummary(summaries, logger);
+  return { targets: summaries.map(toTargetResult) };
+}
+
+/**
+ * Print one line per target, followed by the overall result when every target succeeded.
+ */
+function printTargetsSummary(summaries: GenerationSummary[], logger: Logger): void {
+  const width = Math.max(...summaries.map((s) => (s.settings.name ?? '').length));
+
+  logger.log('');
+  logger.log(chalk.blue('Targets:'));
+  for (const summary of summaries) {
+    const name = (summary.settings.name ?? '').padEnd(width);
+    if (summary.error) {
+      logger.log(chalk.red(`  ✗ ${name}  ${summary.error}`));
+    } else if (summary.failedTables > 0) {
+      logger.log(chalk.yellow(`  ✗ ${name}  ${summary.entities} entities, ${summary.failedTables} of ${summary.tables} table(s) failed`));
+    } else if (summary.driftedFiles) {
+      logger.log(chalk.yellow(`  ✗ ${name}  ${summary.driftedFiles} file(s) out of date in ${path.resolve(summary.settings.output)}`));
+    } else if (summary.settings.check) {
+      logger.log(chalk.green(`  ✓ ${name}`) + `  up to date → ${path.resolve(summary.settings.output)}`);
+    } else {
+      logger.log(
+        chalk.green(`  ✓ ${name}`) +
+        `  ${summary.entities} entities, ${summary.tables} table(s)` +
+        (summary.unchangedTables > 0 ? `, ${summary.unchangedTables} unchanged` : '') +
+        ` → ${path.resolve(summary.settings.output)}` +
+        chalk.gray(summary.settings.javaPackage ? ` (${summary.settings.javaPackage})` : ` (${summary.settings.generator.language})`)
+      );
+    }
+  }
+
+  logger.log('');
+  if (summaries.some((s) => s.error || s.failedTables > 0 || s.driftedFiles)) {
+    // generateCommand throws with the overall result
+  } else if (summaries[0]?.settings.check) {
+    logger.log(chalk.green(`✓ All ${summaries.length} target(s) are up to date`));
+  } else if (summaries[0]?.settings.dryRun) {
+    logger.log(chalk.green(`✓ Planned ${summaries.length} target(s)`) + chalk.gray(' (dry run, nothing was written)'));
+  } else {
+    logger.log(chalk.green(`✓ Generated ${summaries.length} target(s) successfully`));
+  }
+}
+
+/**
+ * Build the hints shown when no snapshot is found: how to create one and
+ * which snapshots do exist.
+ */
+function snapshotNotFoundHints(snapshotDir: string, options: DiscoveryOptions): string[] {
+  const hints = [
+    'Chaim requires a LOCAL snapshot from chaim-cdk.',
+    'To create one, run `cdk synth` or `cdk deploy` in your CDK project.',
+    `Expected snapshot location (OS cache): ${snapshotDir}/aws/{accountId}/{region}/{stackName}/{datastoreType}/{resourceId}.json`,
+  ];
 
   // Show applied filters
   if (options.stackName) {
-    console.error(chalk.white('Stack filter applied:'), options.stackName);
-    console.error('');
+    hints.push(`Stack filter applied: ${options.stackName}`);
   }
 
   // Show what snapshots DO exist (if any)
   const existingSnapshots = listSnapshots(snapshotDir);
   if (existingSnapshots.length > 0) {
-    console.error(chalk.white('Found snapshots (but none matched your criteria):'));
+    hints.push('Found snapshots (but none matched your criteria):');
 
     // Group by account/region/stack for cleaner output
     const grouped = new Map<string, typeof existingSnapshots>();
@@ -122,140 +723,82 @@ function printSnapshotNotFoundError(snapshotDir: string, options: DiscoveryOptio
     let shown = 0;
     for (const [key, snaps] of grouped) {
       if (shown >= 5) {
-        console.error(chalk.gray(`  ... and ${grouped.size - 5} more locations`));
+        hints.push(`  ... and ${grouped.size - 5} more locations`);
         break;
       }
       const [acct, reg, stack] = key.split('/');
-      console.error(chalk.gray(`  Account: ${acct} / Region: ${reg} / Stack: ${stack}`));
+      hints.push(`  Account: ${acct} / Region: ${reg} / Stack: ${stack}`);
       for (const snap of snaps.slice(0, 3)) {
-        console.error(chalk.gray(`    - ${snap.entityName} (${snap.resourceName})`));
+        hints.push(`    - ${snap.entityName} (${snap.resourceName})`);
       }
       if (snaps.length > 3) {
-        console.error(chalk.gray(`    ... and ${snaps.length - 3} more entities`));
+        hints.push(`    ... and ${snaps.length - 3} more entities`);
       }
       shown++;
     }
-    console.error('');
-    console.error(chalk.white('Hint: Use --stack <stackName> to filter to a specific stack.'));
+    hints.push('Use --stack <stackName> to filter to a specific stack.');
   }
+
+  return hints;
 }
 
+/**
+ * Run the `chaim doctor` environment checks before a CLI generation. The
+ * generate() API never calls this, since it mutes the console while it runs.
+ */
 async function runPreGenerationChecks(): Promise<void> {
-  const spinner = ora('Running pre-generation checks...').start();
+  const spinner = ora({ text: 'Running pre-generation checks...', isSilent: isJsonOutput() }).start();
 
-  try {
-    // Run environment checks (capture output to avoid duplicate messages)
-    const originalConsoleLog = console.log;
-    const originalConsoleError = console.error;
+  // Run environment checks (capture output to avoid duplicate messages)
+  const originalConsoleLog = console.log;
+  const originalConsoleError = console.error;
 
+  try {
     console.log = () => {}; // Suppress doctor output
     console.error = () => {}; // Suppress doctor errors
 
     await doctorCommand();
-
+  } catch (error) {
+    spinner.fail('Pre-generation checks failed');
+    throw new EnvironmentError(
+      `Environment validation failed: ${error instanceof Error ? error.message : error}`,
+      error instanceof ChaimError ? error.hints : []
+    );
+  } finally {
     // Restore console
     console.log = originalConsoleLog;
     console.error = originalConsoleError;
-
-    spinner.succeed('Pre-generation checks passed');
-  } catch (error) {
-    spinner.fail('Pre-generation checks failed');
-    throw new Error(`Environment validation failed: ${error instanceof Error ? error.message : error}`);
   }
-}
 
-/**
- * Get a unique table identity for grouping entities.
- * Prefers tableArn (globally unique), falls back to composite key.
- */
-function getTableIdentity(snapshot: ResolvedSnapshot): string {
-  const snap = snapshot.snapshot;
-  
-  // Support both v3.0 (resource) and legacy (dataStore) structure
-  const resource = (snap as any).resource || (snap as any).dataStore;
-  const accountId = (snap as any).providerIdentity?.accountId || (snap as any).accountId;
-  const region = (snap as any).providerIdentity?.region || (snap as any).region;
-  
-  // Prefer ARN if it's resolved (not a CDK token)
-  const resourceId = resource.id || resource.tableArn || resource.arn;
-  if (resourceId && !resourceId.includes('${')) {
-    return resourceId;
-  }
-  
-  // Fallback to composite key: {accountId}:{region}:{name}
-  const resourceName = resource.name || resource.tableName;
-  return `${accountId}:${region}:${resourceName}`;
+  spinner.succeed('Pre-generation checks passed');
 }
 
 /**
- * Validate that all entities bound to the same table have matching PK/SK field names.
- * This is required because DynamoDB tables have a single key schema that all items must use.
- * 
- * @throws Error if entities have mismatched key definitions
+ * Check a name against include/exclude lists (an omitted include list matches everything).
  */
-function validateTableKeyConsistency(tableSnapshots: ResolvedSnapshot[], tableName: string): void {
-  if (tableSnapshots.length <= 1) {
-    return; // Single entity, no consistency check needed
-  }
-
-  const first = tableSnapshots[0];
-  
-  // Check if first snapshot has valid schema (should not be null for UPSERT)
-  if (!first.snapshot.schema) {
-    throw new Error(`Cannot validate table key consistency: first snapshot has null schema (DELETE action)`);
-  }
-  
-  const firstPk = first.snapshot.schema.primaryKey?.partitionKey;
-  const firstSk = first.snapshot.schema.primaryKey?.sortKey;
-  const firstEntity = first.entityName;
-
-  for (let i = 1; i < tableSnapshots.length; i++) {
-    const snap = tableSnapshots[i];
-    
-    // Skip DELETE snapshots (null schema)
-    if (!snap.snapshot.schema) {
-      continue;
-    }
-    
-    const pk = snap.snapshot.schema.primaryKey?.partitionKey;
-    const sk = snap.snapshot.schema.primaryKey?.sortKey;
-    const entity = snap.entityName;
-
-    // Check partition key matches
-    if (pk !== firstPk) {
-      throw new Error(
-        `Entity '${entity}' has incompatible partition key for table '${tableName}'.\n` +
-        `  Expected: partitionKey='${firstPk}' (from entity '${firstEntity}')\n` +
-        `  Found:    partitionKey='${pk}'\n\n` +
-        `All entities bound to the same table must have matching PK/SK field names.`
-      );
-    }
-
-    // Check sort key matches (both defined or both undefined)
-    if (sk !== firstSk) {
-      const expectedSk = firstSk || '(none)';
-      const foundSk = sk || '(none)';
-      throw new Error(
-        `Entity '${entity}' has incompatible sort key for table '${tableName}'.\n` +
-        `  Expected: sortKey='${expectedSk}' (from entity '${firstEntity}')\n` +
-        `  Found:    sortKey='${foundSk}'\n\n` +
-        `All entities bound to the same table must have matching PK/SK field names.`
-      );
-    }
+function isSelected(names: string[], include?: string[], exclude?: string[]): boolean {
+  if (include && include.length > 0 && !names.some((name) => include.includes(name))) {
+    return false;
   }
+  return !exclude || !names.some((name) => exclude.includes(name));
 }
 
 /**
  * Generate SDK from multiple resolved snapshots.
  * Groups entities by physical table and generates shared infrastructure once per table.
+ *
+ * @throws SnapshotNotFoundError if nothing is left to generate after filtering
+ * @throws KeyConsistencyError or NameCollisionError if a schema cannot be generated
  */
 async function generateFromSnapshots(
   snapshots: ResolvedSnapshot[],
-  options: GenerateOptions,
-  language: SupportedLanguage
-): Promise<void> {
-  console.log(chalk.blue(`\nGenerating ${language.toUpperCase()} code from ${snapshots.length} LOCAL snapshot(s)`));
-  console.log('');
+  settings: GenerationSettings
+): Promise<GenerationSummary> {
+  const { generator, logger } = settings;
+  logger.log(chalk.blue(
+    `\n${settings.check ? 'Checking' : settings.dryRun ? 'Planning' : 'Generating'} ${generator.language.toUpperCase()} code from ${snapshots.length} LOCAL snapshot(s)`
+  ));
+  logger.log('');
 
   // Filter out DELETE snapshots (those with null schema or action === 'DELETE')
   // Code generation only works with UPSERT snapshots that have valid schemas
@@ -265,39 +808,65 @@ async function generateFromSnapshots(
   });
 
   if (upsertSnapshots.length === 0) {
-    console.error(chalk.yellow('\n⚠ No UPSERT snapshots found for code generation'));
-    console.error(chalk.gray('All snapshots appear to be DELETE actions or have null schemas.'));
-    console.error(chalk.gray('Code generation requires valid entity schemas.'));
-    process.exit(1);
+    throw new SnapshotNotFoundError(
+      'No UPSERT snapshots found for code generation. ' +
+      'All snapshots appear to be DELETE actions or have null schemas.'
+    );
   }
 
+  // What was selected and why, for the --dry-run report
+  const selection: SnapshotSelection = {
+    deleted: snapshots.filter((snap) => !upsertSnapshots.includes(snap)),
+    duplicates: [],
+    entityFiltered: [],
+    tableFiltered: [],
+  };
+
   if (upsertSnapshots.length < snapshots.length) {
     const skippedCount = snapshots.length - upsertSnapshots.length;
-    console.log(chalk.gray(`\nSkipping ${skippedCount} DELETE snapshot(s) - code generation only processes UPSERT actions\n`));
+    logger.log(chalk.gray(`\nSkipping ${skippedCount} DELETE snapshot(s) - code generation only processes UPSERT actions\n`));
   }
 
   // Deduplicate by bindingId (stable across accounts and synths).
   // Snapshots are already sorted newest-first so the first occurrence of each
   // bindingId is always the most recent — local `cdk synth` beats a stale
   // deployed snapshot regardless of which accountId directory it lives under.
-  const seenBindingIds = new Set<string>();
+  const seenBindingIds = new Map<string, ResolvedSnapshot>();
   const dedupedSnapshots = upsertSnapshots.filter(snap => {
-    const bindingId = (snap.snapshot as any).identity?.bindingId
-      ?? `${snap.stackName}:${snap.entityName}`;  // fallback for pre-v3 snapshots
-    if (seenBindingIds.has(bindingId)) return false;
-    seenBindingIds.add(bindingId);
+    const bindingId = getBindingId(snap);
+    const kept = seenBindingIds.get(bindingId);
+    if (kept) {
+      selection.duplicates.push({ snapshot: snap, bindingId, kept });
+      return false;
+    }
+    seenBindingIds.set(bindingId, snap);
     return true;
   });
 
   if (dedupedSnapshots.length < upsertSnapshots.length) {
     const dupes = upsertSnapshots.length - dedupedSnapshots.length;
-    console.log(chalk.gray(`Deduplicated ${dupes} older snapshot(s) — keeping newest per entity.\n`));
+    logger.log(chalk.gray(`Deduplicated ${dupes} older snapshot(s) — keeping newest per entity.\n`));
+  }
+
+  // Apply the entity include/exclude lists
+  const selectedSnapshots = dedupedSnapshots.filter(
+    snap => isSelected([snap.entityName], settings.entities, settings.excludeEntities)
+  );
+
+  selection.entityFiltered = dedupedSnapshots.filter(snap => !selectedSnapshots.includes(snap));
+  if (selectedSnapshots.length < dedupedSnapshots.length) {
+    const skipped = selection.entityFiltered.map(snap => snap.entityName);
+    logger.log(chalk.gray(`Skipping ${skipped.length} entity/entities not selected by the entity filters: ${skipped.join(', ')}\n`));
+  }
+
+  if (selectedSnapshots.length === 0) {
+    throw new SnapshotNotFoundError('No entities matched the entity filters');
   }
 
   // Group snapshots by table identity (ARN or composite key)
   // This ensures multiple entities for the same physical table are generated together
   const byTable = new Map<string, ResolvedSnapshot[]>();
-  for (const snap of dedupedSnapshots) {
+  for (const snap of selectedSnapshots) {
     const tableId = getTableIdentity(snap);
     if (!byTable.has(tableId)) {
       byTable.set(tableId, []);
@@ -305,36 +874,62 @@ async function generateFromSnapshots(
     byTable.get(tableId)!.push(snap);
   }
 
+  // Apply the table include/exclude lists (matches table name or table identity)
+  const skippedTables: string[] = [];
+  const skippedTableIds: string[] = [];
+  for (const [tableId, tableSnapshots] of byTable) {
+    const tableName = getTableName(tableSnapshots[0]);
+    if (!isSelected([tableName, tableId], settings.tables, settings.excludeTables)) {
+      skippedTables.push(tableName);
+      skippedTableIds.push(tableId);
+      selection.tableFiltered.push(...tableSnapshots);
+      byTable.delete(tableId);
+    }
+  }
+
+  if (skippedTables.length > 0) {
+    logger.log(chalk.gray(`Skipping ${skippedTables.length} table(s) not selected by the table filters: ${skippedTables.join(', ')}\n`));
+  }
+
+  if (byTable.size === 0) {
+    const filters = [
+      settings.tables?.length ? `tables: ${settings.tables.join(', ')}` : undefined,
+      settings.excludeTables?.length ? `excludeTables: ${settings.excludeTables.join(', ')}` : undefined,
+    ].filter(Boolean).join('; ');
+    throw new SnapshotNotFoundError(`No tables matched the table filters (${filters})`);
+  }
+
   // Validate key consistency for multi-entity tables BEFORE generation
   for (const [_tableId, tableSnapshots] of byTable) {
-    const firstSnap = tableSnapshots[0].snapshot;
-    const resource = (firstSnap as any).resource || (firstSnap as any).dataStore;
-    const tableName = resource.name || resource.tableName;
-    validateTableKeyConsistency(tableSnapshots, tableName);
+    validateTableKeyConsistency(tableSnapshots, getTableName(tableSnapshots[0]));
   }
 
-  // Pre-validate field name collisions for each schema before generation
-  for (const snap of dedupedSnapshots) {
+  // Pre-validate field name collisions (at every nesting level) for each schema before generation
+  for (const snap of [...byTable.values()].flat()) {
     if (snap.snapshot.schema?.fields) {
-      const resolved = resolveFieldNames(snap.snapshot.schema.fields, language);
+      const resolved = resolveNestedFieldNames(snap.snapshot.schema.fields, generator.naming);
       const collisions = detectCollisions(resolved);
       if (collisions.length > 0) {
-        for (const collision of collisions) {
-          console.error(chalk.red(`\n✗ Name collision in entity '${snap.entityName}': ${collision.message}`));
-        }
-        process.exit(1);
+        throw new NameCollisionError(snap.entityName, collisions);
       }
     }
   }
 
-  const results: { tableId: string; entities: string[]; success: boolean; error?: string }[] = [];
-  const spinner = ora('Generating SDK...').start();
+  const results: TableResult[] = [];
+  const manifest = readManifest(settings.output);
+
+  // With --check and --dry-run, generate into a temporary copy of the previously generated files
+  const checkDir = settings.check || settings.dryRun ? fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-check-')) : undefined;
+  if (checkDir) {
+    seedCheckDir(settings.output, checkDir, Object.values(manifest.tables).flatMap((entry) => entry.files));
+  }
+  const outputDir = checkDir ?? settings.output;
+  const spinner = ora({ text: 'Generating SDK...', isSilent: isJsonOutput() || logger.silent }).start();
 
   try {
     for (const [tableId, tableSnapshots] of byTable) {
       const firstSnapshot = tableSnapshots[0];
-      const resource = (firstSnapshot.snapshot as any).resource || (firstSnapshot.snapshot as any).dataStore;
-      const tableName = resource.name || resource.tableName;
+      const tableName = getTableName(firstSnapshot);
       spinner.text = `Generating for table ${tableName} (${tableSnapshots.length} entities)...`;
 
       // Collect all schemas for this table (filter out any nulls, though they should already be filtered)
@@ -351,25 +946,55 @@ async function generateFromSnapshots(
       // Create table metadata from the first snapshot (all snapshots share the same table)
       const tableMetadata = createTableMetadataFromSnapshot(firstSnapshot.snapshot);
 
+      // Skip tables whose inputs are unchanged since the last run
+      const hash = computeGenerationHash({
+        schemas,
+        tableMetadata,
+        package: settings.javaPackage,
+        language: generator.language,
+        generatorSettings: settings.generatorSettings,
+        generatorVersion: generator.version,
+      });
+      // --check compares every table; --dry-run generates it anyway to list its files
+      const unchanged = !settings.force && manifest.tables[tableId]?.hash === hash;
+      if (unchanged && !checkDir) {
+        results.push({
+          tableId,
+          tableName,
+          entities: entityNames,
+          success: true,
+          unchanged: true,
+          hash,
+          files: manifest.tables[tableId].files,
+        });
+        continue;
+      }
+
       try {
-        const javaGenerator = new JavaGenerator();
-        
-        // Use the new generateForTable API that accepts multiple schemas
-        await javaGenerator.generateForTable(
-          schemas, 
-          options.package, 
-          options.output, 
+        // Built-in generators return the files they wrote; for plugins that do not, compare file fingerprints
+        const before = listOutputFiles(outputDir);
+        const written = await generator.generateForTable(
+          schemas,
+          { output: outputDir, package: settings.javaPackage, settings: settings.generatorSettings },
           tableMetadata
         );
+        const files = Array.isArray(written) && written.every((file) => typeof file === 'string')
+          ? written.map((file: string) => toManifestPath(outputDir, file)).sort()
+          : detectWrittenFiles(before, listOutputFiles(outputDir));
 
         results.push({
           tableId,
+          tableName,
           entities: entityNames,
           success: true,
+          unchanged: unchanged && settings.dryRun,
+          hash,
+          files,
         });
       } catch (error) {
         results.push({
           tableId,
+          tableName,
           entities: entityNames,
           success: false,
           error: error instanceof Error ? error.message : String(error),
@@ -379,69 +1004,401 @@ async function generateFromSnapshots(
 
     spinner.stop();
 
+    const next = buildNextManifest(manifest, results, skippedTableIds, byTable);
+    const orphans = findOrphans(manifest, next, settings.output);
+    const comparisons = checkDir
+      ? compareGeneratedOutput(
+        settings.output,
+        checkDir,
+        results.filter((result) => !result.unchanged).flatMap((result) => result.files ?? []),
+        orphans
+      )
+      : undefined;
+    if (!checkDir) {
+      saveManifest(settings, manifest, next, orphans);
+    }
+
+    logger.log('');
+    if (settings.dryRun && comparisons) {
+      return { ...printGenerationPlan(selection, results, byTable, comparisons, settings), results, orphans, comparisons };
+    }
+
     // Print summary
-    console.log('');
     let totalEntities = 0;
     let failedTables = 0;
+    let unchangedTables = 0;
 
     for (const result of results) {
       const tableSnapshots = byTable.get(result.tableId)!;
-      const firstSnap = tableSnapshots[0];
-      const resource = (firstSnap.snapshot as any).resource || (firstSnap.snapshot as any).dataStore;
-      const tableName = resource.name || resource.tableName;
+      const tableName = getTableName(tableSnapshots[0]);
       
-      console.log(chalk.cyan(`  Table: ${tableName}`));
-      console.log(chalk.gray(`    Identity: ${result.tableId}`));
+      logger.log(chalk.cyan(`  Table: ${tableName}`));
+      logger.log(chalk.gray(`    Identity: ${result.tableId}`));
       
-      if (result.success) {
+      if (result.unchanged) {
+        unchangedTables++;
         for (const entity of result.entities) {
-          console.log(chalk.green(`      ✓ ${entity}.java`));
+          logger.log(chalk.gray(`      – ${generator.entityFileName?.(entity) ?? entity} (unchanged)`));
+        }
+      } else if (result.success) {
+        for (const entity of result.entities) {
+          logger.log(chalk.green(`      ✓ ${generator.entityFileName?.(entity) ?? entity}`));
           totalEntities++;
         }
       } else {
         failedTables++;
         for (const entity of result.entities) {
-          console.log(chalk.red(`      ✗ ${entity}.java - ${result.error}`));
+          logger.log(chalk.red(`      ✗ ${generator.entityFileName?.(entity) ?? entity} - ${result.error}`));
         }
       }
     }
 
-    console.log('');
-    if (failedTables === 0) {
-      console.log(chalk.green(`✓ Generated ${totalEntities} entity/entities across ${results.length} table(s) successfully`));
+    const generatedTables = results.length - unchangedTables;
+    logger.log('');
+    if (comparisons && failedTables === 0) {
+      const drift = comparisons.filter((comparison) => comparison.status !== 'unchanged');
+      printDrift(drift, settings);
+      return {
+        settings,
+        tables: generatedTables,
+        entities: totalEntities,
+        failedTables,
+        unchangedTables,
+        driftedFiles: drift.length,
+        results,
+        orphans,
+        comparisons,
+      };
+    }
+    if (failedTables > 0) {
+      logger.log(chalk.yellow(`Generated ${totalEntities} entities, ${failedTables} table(s) failed`));
+    } else if (generatedTables === 0) {
+      logger.log(chalk.green(`✓ All ${unchangedTables} table(s) are up to date, nothing to generate`));
     } else {
-      console.log(chalk.yellow(`Generated ${totalEntities} entities, ${failedTables} table(s) failed`));
+      logger.log(chalk.green(`✓ Generated ${totalEntities} entity/entities across ${generatedTables} table(s) successfully`));
+    }
+    if (unchangedTables > 0) {
+      logger.log(chalk.gray(`  Skipped ${unchangedTables} unchanged table(s). Use --force to regenerate them.`));
     }
 
-    console.log(chalk.green('  Language:'), language);
-    console.log(chalk.green('  Output directory:'), path.resolve(options.output));
-    console.log(chalk.green('  Package:'), options.package);
-
-    if (failedTables > 0) {
-      process.exit(1);
+    logger.log(chalk.green('  Language:'), generator.language);
+    logger.log(chalk.green('  Generator:'), generator.name);
+    logger.log(chalk.green('  Output directory:'), path.resolve(settings.output));
+    if (settings.javaPackage && generator.requiresPackage) {
+      logger.log(chalk.green('  Package:'), settings.javaPackage);
+    }
+    for (const [key, value] of Object.entries(settings.generatorSettings)) {
+      logger.log(chalk.green(`  ${key}:`), value);
     }
+
+    printOrphans(orphans, settings);
+
+    return { settings, tables: generatedTables, entities: totalEntities, failedTables, unchangedTables, results, orphans };
   } catch (error) {
     spinner.fail('Failed to generate SDK');
     throw error;
+  } finally {
+    if (checkDir) {
+      fs.rmSync(checkDir, { recursive: true, force: true });
+    }
   }
 }
 
 /**
- * Resolve and validate the target language for code generation.
- * 
- * Priority: CLI flag > default (Java)
- * Currently only Java is supported. Returns error for unsupported languages.
- */
-function resolveLanguage(cliLanguage?: string): SupportedLanguage {
-  const language = cliLanguage || DEFAULT_LANGUAGE;
-  
-  if (!SUPPORTED_LANGUAGES.includes(language as SupportedLanguage)) {
-    console.error(chalk.red(`Error: Language '${language}' is not yet supported.`));
-    console.error(chalk.gray(`Currently supported: ${SUPPORTED_LANGUAGES.join(', ')}`));
-    process.exit(1);
-  }
-  
-  return language as SupportedLanguage;
+ * Result of generating (or skipping) one table.
+ */
+interface TableResult {
+  tableId: string;
+  tableName: string;
+  entities: string[];
+  success: boolean;
+  /** Skipped because the inputs match the generation manifest */
+  unchanged?: boolean;
+  hash?: string;
+  /** Generated files, relative to the output directory */
+  files?: string[];
+  error?: string;
+}
+
+/**
+ * Build the JSON result for one target.
+ */
+function toTargetResult(summary: GenerationSummary): GenerateTargetResult {
+  const { settings } = summary;
+  const orphans = summary.orphans ?? [];
+  return {
+    name: settings.name,
+    language: settings.generator.language,
+    output: path.resolve(settings.output),
+    package: settings.javaPackage,
+    mode: settings.check ? 'check' : settings.dryRun ? 'dry-run' : 'generate',
+    tables: (summary.results ?? []).map((result) => ({
+      tableId: result.tableId,
+      tableName: result.tableName,
+      entities: result.entities,
+      status: !result.success ? 'failed' : result.unchanged ? 'unchanged' : 'generated',
+      files: result.files ?? [],
+      error: result.error,
+    })),
+    orphans,
+    pruned: Boolean(settings.prune) && !settings.check && !settings.dryRun && orphans.length > 0,
+    files: summary.comparisons?.map(({ file, status, diff }) => ({ file, status, added: diff?.added, removed: diff?.removed })),
+    error: summary.error,
+  };
+}
+
+/**
+ * Snapshots left out of generation, by reason (for the --dry-run report).
+ */
+interface SnapshotSelection {
+  /** DELETE snapshots (or snapshots without a schema) */
+  deleted: ResolvedSnapshot[];
+  /** Older snapshots with the same bindingId as a newer one */
+  duplicates: { snapshot: ResolvedSnapshot; bindingId: string; kept: ResolvedSnapshot }[];
+  /** Not selected by the entity include/exclude lists */
+  entityFiltered: ResolvedSnapshot[];
+  /** On a table not selected by the table include/exclude lists */
+  tableFiltered: ResolvedSnapshot[];
+}
+
+/**
+ * Print the --dry-run report: the snapshots used and skipped, the tables
+ * they are grouped into, and what would happen to each output file.
+ */
+function printGenerationPlan(
+  selection: SnapshotSelection,
+  results: TableResult[],
+  byTable: Map<string, ResolvedSnapshot[]>,
+  comparisons: FileComparison[],
+  settings: GenerationSettings
+): GenerationSummary {
+  const { generator, logger } = settings;
+  const outputDir = path.resolve(settings.output);
+  const used = [...byTable.values()].flat();
+
+  logger.log(chalk.blue('Snapshots:'));
+  for (const snap of used) {
+    logger.log(chalk.green(`  ✓ ${snap.entityName}`) + chalk.gray(`  ${snap.filePath}`));
+  }
+  for (const snap of selection.deleted) {
+    logger.log(chalk.gray(`  – ${snap.entityName}  skipped: DELETE snapshot  ${snap.filePath}`));
+  }
+  for (const { snapshot, bindingId, kept } of selection.duplicates) {
+    logger.log(chalk.gray(`  – ${snapshot.entityName}  skipped: older duplicate of ${bindingId} (using ${kept.filePath})  ${snapshot.filePath}`));
+  }
+  for (const snap of selection.entityFiltered) {
+    logger.log(chalk.gray(`  – ${snap.entityName}  skipped: not selected by the entity filters  ${snap.filePath}`));
+  }
+  for (const snap of selection.tableFiltered) {
+    logger.log(chalk.gray(`  – ${snap.entityName}  skipped: table ${getTableName(snap)} not selected by the table filters  ${snap.filePath}`));
+  }
+
+  logger.log('');
+  logger.log(chalk.blue('Tables:'));
+  let failedTables = 0;
+  let unchangedTables = 0;
+  for (const result of results) {
+    const tableName = getTableName(byTable.get(result.tableId)![0]);
+    const entities = result.entities.map((entity) => generator.entityFileName?.(entity) ?? entity).join(', ');
+    logger.log(chalk.cyan(`  ${tableName}`) + chalk.gray(`  ${result.tableId}`));
+    if (!result.success) {
+      failedTables++;
+      logger.log(chalk.red(`    ✗ ${entities} - ${result.error}`));
+    } else if (result.unchanged) {
+      unchangedTables++;
+      logger.log(chalk.gray(`    – ${entities} (unchanged, would be skipped; use --force to regenerate)`));
+    } else {
+      logger.log(chalk.green(`    ✓ ${entities}`));
+    }
+  }
+
+  const count = (status: FileComparison['status']): number => comparisons.filter((c) => c.status === status).length;
+  const skippedFiles = results.filter((result) => result.unchanged).flatMap((result) => result.files ?? []);
+
+  logger.log('');
+  logger.log(chalk.blue(`Files in ${outputDir}:`));
+  for (const item of comparisons) {
+    if (item.status === 'missing') {
+      logger.log(chalk.green(`  + ${item.file}`) + chalk.gray(' (create)'));
+    } else if (item.status === 'changed' && item.diff) {
+      logger.log(chalk.yellow(`  ~ ${item.file}`) + chalk.gray(` (change, +${item.diff.added} -${item.diff.removed})`));
+    } else if (item.status === 'unchanged') {
+      logger.log(chalk.gray(`  = ${item.file} (unchanged)`));
+    }
+  }
+  for (const file of [...new Set(skippedFiles)].sort()) {
+    logger.log(chalk.gray(`  = ${file} (unchanged, table skipped)`));
+  }
+
+  const orphans = comparisons.filter((c) => c.status === 'orphaned').map((c) => c.file);
+  if (orphans.length > 0) {
+    logger.log('');
+    if (settings.prune) {
+      logger.log(chalk.yellow(`Would prune ${orphans.length} orphaned file(s):`));
+    } else {
+      logger.log(chalk.yellow(`${orphans.length} orphaned file(s) would be left in place (delete them with --prune):`));
+    }
+    for (const file of orphans) {
+      logger.log(chalk.gray(`  - ${file}`));
+    }
+  }
+
+  logger.log('');
+  logger.log(
+    chalk.green(`Dry run: ${count('missing')} file(s) to create, ${count('changed')} to change, ` +
+      `${count('unchanged') + new Set(skippedFiles).size} unchanged`) +
+    (settings.prune && orphans.length > 0 ? chalk.green(`, ${orphans.length} to delete`) : '') +
+    chalk.gray('. Nothing was written.')
+  );
+
+  return {
+    settings,
+    tables: results.length - unchangedTables,
+    entities: results.filter((r) => r.success && !r.unchanged).reduce((sum, r) => sum + r.entities.length, 0),
+    failedTables,
+    unchangedTables,
+  };
+}
+
+/**
+ * Maximum number of diff lines printed per file by --check.
+ */
+const MAX_DIFF_LINES = 200;
+
+/**
+ * Hint shown when --check finds out-of-date files.
+ */
+const DRIFT_HINT = 'Run chaim generate (with --prune to remove orphaned files) and commit the result.';
+
+/**
+ * Print the --check report: one summary line per out-of-date file, followed
+ * by the unified diff for changed files.
+ */
+function printDrift(drift: FileComparison[], settings: GenerationSettings): void {
+  const { logger } = settings;
+  const outputDir = path.resolve(settings.output);
+  if (drift.length === 0) {
+    logger.log(chalk.green(`✓ ${outputDir} is up to date`));
+    return;
+  }
+
+  logger.log(chalk.yellow(`${drift.length} file(s) in ${outputDir} differ from freshly generated code:`));
+  for (const item of drift) {
+    if (item.status === 'changed' && item.diff) {
+      logger.log(chalk.yellow(`\n  M ${item.file}`) + chalk.gray(` (+${item.diff.added} -${item.diff.removed})`));
+      for (const line of item.diff.lines.slice(0, MAX_DIFF_LINES)) {
+        const color = line.startsWith('+') ? chalk.green : line.startsWith('-') ? chalk.red : line.startsWith('@@') ? chalk.cyan : chalk.gray;
+        logger.log(color(`    ${line}`));
+      }
+      if (item.diff.lines.length > MAX_DIFF_LINES) {
+        logger.log(chalk.gray(`    ... ${item.diff.lines.length - MAX_DIFF_LINES} more line(s)`));
+      }
+    } else if (item.status === 'missing') {
+      logger.log(chalk.yellow(`\n  A ${item.file}`) + chalk.gray(' (not generated yet)'));
+    } else {
+      logger.log(chalk.yellow(`\n  D ${item.file}`) + chalk.gray(' (no longer generated; remove with --prune)'));
+    }
+  }
+}
+
+/**
+ * Build the generation manifest for this run.
+ *
+ * Regenerated tables get a new entry. Unchanged tables and tables skipped by
+ * the table filters keep theirs; failed tables keep their files but lose
+ * their hash, so they are retried. Tables that are no longer generated at all
+ * are dropped, which makes their files orphans.
+ */
+function buildNextManifest(
+  previous: GenerationManifest,
+  results: TableResult[],
+  skippedTableIds: string[],
+  byTable: Map<string, ResolvedSnapshot[]>
+): GenerationManifest {
+  const next: GenerationManifest = { version: MANIFEST_VERSION, tables: {} };
+
+  for (const tableId of skippedTableIds) {
+    if (previous.tables[tableId]) {
+      next.tables[tableId] = previous.tables[tableId];
+    }
+  }
+  for (const result of results) {
+    const existing = previous.tables[result.tableId];
+    if (result.unchanged && existing) {
+      next.tables[result.tableId] = existing;
+    } else if (result.success && result.hash) {
+      next.tables[result.tableId] = {
+        tableName: getTableName(byTable.get(result.tableId)![0]),
+        entities: result.entities,
+        hash: result.hash,
+        files: result.files ?? [],
+        generatedAt: new Date().toISOString(),
+      };
+    } else if (existing) {
+      next.tables[result.tableId] = { ...existing, hash: '' };
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Prune orphaned files if requested, then write the manifest if it changed.
+ * Orphans that are not pruned stay in the manifest so they keep being reported.
+ */
+function saveManifest(
+  settings: GenerationSettings,
+  previous: GenerationManifest,
+  next: GenerationManifest,
+  orphans: string[]
+): void {
+  if (settings.prune) {
+    pruneFiles(settings.output, orphans);
+  } else if (orphans.length > 0) {
+    next.orphans = orphans;
+  }
+
+  if (!manifestsEqual(previous, next)) {
+    writeManifest(settings.output, next);
+  }
+}
+
+/**
+ * Report orphaned files: deleted (--prune) or left in place.
+ */
+function printOrphans(orphans: string[], settings: GenerationSettings): void {
+  const { logger } = settings;
+  if (orphans.length === 0) {
+    return;
+  }
+
+  logger.log('');
+  if (settings.prune) {
+    logger.log(chalk.green(`✓ Pruned ${orphans.length} orphaned file(s):`));
+  } else {
+    logger.log(chalk.yellow(`⚠ ${orphans.length} previously generated file(s) are no longer produced:`));
+  }
+  for (const file of orphans) {
+    logger.log(chalk.gray(`    ${path.join(settings.output, file)}`));
+  }
+  if (!settings.prune) {
+    logger.log(chalk.gray('  Run with --prune to delete them, or --prune --dry-run to preview.'));
+  }
+}
+
+/**
+ * Validate the --python-models option.
+ */
+function resolvePythonModels(value?: string): PythonModelStyle | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!PYTHON_MODEL_STYLES.includes(value as PythonModelStyle)) {
+    throw new UsageError(`Invalid --python-models '${value}'`, [
+      `Expected one of: ${PYTHON_MODEL_STYLES.join(', ')}`,
+    ]);
+  }
+  return value as PythonModelStyle;
 }
 
 /**
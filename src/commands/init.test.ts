@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { initCommand } from './init';
+import { EnvironmentError } from '../errors';
 import { spawn } from 'child_process';
 
 // Mock child_process
@@ -12,9 +13,6 @@ describe('initCommand', () => {
     vi.clearAllMocks();
     vi.spyOn(console, 'log').mockImplementation(() => {});
     vi.spyOn(console, 'error').mockImplementation(() => {});
-    vi.spyOn(process, 'exit').mockImplementation(() => {
-      throw new Error('process.exit called');
-    });
   });
 
   afterEach(() => {
@@ -188,7 +186,7 @@ describe('initCommand', () => {
       configurable: true
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
 
     // Restore original version
     Object.defineProperty(process, 'version', {
@@ -217,7 +215,7 @@ describe('initCommand', () => {
       }
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
   });
 
   it('should handle Java version too old', async () => {
@@ -246,7 +244,7 @@ describe('initCommand', () => {
       }
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
   });
 
   it('should handle AWS CLI not available', async () => {
@@ -291,7 +289,7 @@ describe('initCommand', () => {
       }
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
   });
 
   it('should handle AWS credentials not configured', async () => {
@@ -336,7 +334,7 @@ describe('initCommand', () => {
       }
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
   });
 
   it('should handle CDK CLI not available', async () => {
@@ -401,7 +399,7 @@ describe('initCommand', () => {
       }
     });
 
-    await expect(initCommand({})).rejects.toThrow('process.exit called');
+    await expect(initCommand({})).rejects.toBeInstanceOf(EnvironmentError);
   });
 
   it('should install dependencies when install option is true', async () => {
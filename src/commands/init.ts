@@ -1,6 +1,7 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { spawn } from 'child_process';
+import { ChaimError, EnvironmentError } from '../errors';
 // import * as fs from 'fs';
 // import * as path from 'path';
 
@@ -44,11 +45,10 @@ export async function initCommand(options: InitOptions): Promise<void> {
     console.log('');
 
   } catch (error) {
-    console.error(chalk.red('✗ Setup failed:'), error instanceof Error ? error.message : error);
-    if (error instanceof Error && error.stack) {
-      console.error(error.stack);
+    if (error instanceof ChaimError) {
+      throw error;
     }
-    process.exit(1);
+    throw new EnvironmentError(`Setup failed: ${error instanceof Error ? error.message : error}`);
   }
 }
 
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { validateCommand } from './validate';
+import { validateCommand, validateSchemaFile, validateSchemaFiles } from './validate';
+import { runWithJsonOutput } from '../services/json-output';
+import { EXIT_CODES, KeyConsistencyError, NameCollisionError, SchemaValidationError, UsageError } from '../errors';
+import { loadConfig } from '../config/loader';
+import { waitForInterrupt, watchFiles } from '../services/file-watcher';
+import { findSchemaFiles, isDirectory } from '../services/glob';
+import { ResolvedSnapshot, resolveAllSnapshots } from '../services/snapshot-discovery';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -9,6 +15,34 @@ vi.mock('path');
 vi.mock('@chaim-tools/chaim-bprint-spec', () => ({
   validateSchema: vi.fn()
 }));
+vi.mock('../services/glob', () => ({
+  findFiles: vi.fn(() => ['schemas/order.bprint']),
+  findSchemaFiles: vi.fn(() => []),
+  hasGlobChars: vi.fn((pattern: string) => /[*?{]/.test(pattern)),
+  isDirectory: vi.fn(() => false),
+}));
+vi.mock('../services/snapshot-discovery', () => ({
+  resolveAllSnapshots: vi.fn(() => []),
+}));
+vi.mock('../services/file-watcher', () => ({
+  watchFiles: vi.fn(() => ({ close: vi.fn() })),
+  waitForInterrupt: vi.fn(),
+}));
+vi.mock('@chaim-tools/client-java', () => ({
+  JavaGenerator: vi.fn(),
+}));
+vi.mock('../config/loader', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../config/loader')>()),
+  loadConfig: vi.fn(({ cliOverrides }) => ({ language: cliOverrides?.language ?? 'java' })),
+}));
+// Built-in generators only; plugin discovery reads node_modules through the mocked fs
+vi.mock('../generators/registry', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../generators/registry')>();
+  return {
+    ...actual,
+    loadGenerators: vi.fn(() => new Map(actual.BUILT_IN_GENERATORS.map((generator) => [generator.language, generator]))),
+  };
+});
 
 describe('validateCommand', () => {
   let originalExit: (code?: number) => never;
@@ -68,10 +102,10 @@ describe('validateCommand', () => {
   it('should handle non-existent file', async () => {
     vi.mocked(fs.existsSync).mockReturnValue(false);
 
-    await validateCommand('/nonexistent/schema.bprint');
+    await expect(validateCommand('/nonexistent/schema.bprint'))
+      .rejects.toThrow(new SchemaValidationError('Schema file not found: /nonexistent/schema.bprint'));
     
     expect(fs.existsSync).toHaveBeenCalledWith('/nonexistent/schema.bprint');
-    expect(process.exit).toHaveBeenCalledWith(1);
   });
 
   it('should handle invalid JSON', async () => {
@@ -79,9 +113,7 @@ describe('validateCommand', () => {
     vi.mocked(fs.readFileSync).mockReturnValue('invalid json');
     vi.mocked(path.resolve).mockReturnValue('/path/to/schema.bprint');
 
-    await validateCommand('/path/to/schema.bprint');
-    
-    expect(process.exit).toHaveBeenCalledWith(1);
+    await expect(validateCommand('/path/to/schema.bprint')).rejects.toBeInstanceOf(SchemaValidationError);
   });
 
   it('should handle schema validation failure', async () => {
@@ -93,12 +125,14 @@ describe('validateCommand', () => {
     
     const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
     vi.mocked(validateSchema).mockImplementation(() => {
-      throw new Error('Schema validation failed');
+      throw new Error('primaryKey is required');
     });
 
-    await validateCommand('/path/to/schema.bprint');
+    const error = await validateCommand('/path/to/schema.bprint').catch((e) => e);
     
-    expect(process.exit).toHaveBeenCalledWith(1);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toBe('Schema validation failed: primaryKey is required');
+    expect(error.exitCode).toBe(EXIT_CODES.SCHEMA_INVALID);
   });
 
   it('should handle file read errors', async () => {
@@ -108,9 +142,7 @@ describe('validateCommand', () => {
     });
     vi.mocked(path.resolve).mockReturnValue('/path/to/schema.bprint');
 
-    await validateCommand('/path/to/schema.bprint');
-    
-    expect(process.exit).toHaveBeenCalledWith(1);
+    await expect(validateCommand('/path/to/schema.bprint')).rejects.toThrow('Permission denied');
   });
 
   it('should display validation success information', async () => {
@@ -221,13 +253,69 @@ describe('validateCommand', () => {
     const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
     vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
 
-    await validateCommand('/path/to/schema.bprint');
+    const error = await validateCommand('/path/to/schema.bprint').catch((e) => e);
 
-    // Should report collision and exit
-    expect(console.error).toHaveBeenCalledWith(
-      expect.stringContaining('Collision')
-    );
-    expect(process.exit).toHaveBeenCalledWith(1);
+    // Should fail with the collision
+    expect(error).toBeInstanceOf(NameCollisionError);
+    expect(error.exitCode).toBe(EXIT_CODES.NAME_COLLISION);
+    expect(error.hints).toEqual([expect.stringContaining('Collision')]);
+  });
+
+  it('should print resolved fields and collisions as JSON', async () => {
+    const mockSchema = {
+      schemaVersion: '1.1',
+      entityName: 'Order',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'order-date', type: 'timestamp', required: true },
+        { name: 'orderDate', type: 'string', required: true }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    await runWithJsonOutput('validate', () => validateCommand('/path/to/order.bprint'));
+
+    const output = JSON.parse(String(write.mock.calls[0][0]));
+    expect(output).toMatchObject({ command: 'validate', success: false, exitCode: EXIT_CODES.NAME_COLLISION });
+    expect(output.result).toMatchObject({ file: '/path/to/order.bprint', entityName: 'Order', partitionKey: 'orderId' });
+    expect(output.result.fields).toContainEqual({ originalName: 'order-date', codeName: 'orderDate', conversionType: 'auto' });
+    expect(output.result.collisions).toEqual([expect.objectContaining({ codeName: 'orderDate', conflictingFields: ['order-date', 'orderDate'] })]);
+    expect(output.errors).toEqual(["Field name collisions in entity 'Order'", expect.stringContaining('Collision')]);
+    expect(console.log).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(EXIT_CODES.NAME_COLLISION);
+  });
+
+  it('should return collisions from validateSchemaFile without printing', async () => {
+    const mockSchema = {
+      schemaVersion: '1.1',
+      entityName: 'Order',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'order-date', type: 'timestamp', required: true },
+        { name: 'orderDate', type: 'string', required: true }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+
+    const result = validateSchemaFile('/path/to/order.bprint');
+
+    expect(result).toMatchObject({ file: '/path/to/order.bprint', entityName: 'Order', partitionKey: 'orderId' });
+    expect(result.collisions).toEqual([expect.objectContaining({ codeName: 'orderDate' })]);
+    expect(console.log).not.toHaveBeenCalled();
+
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    expect(() => validateSchemaFile('/path/to/missing.bprint')).toThrow(SchemaValidationError);
   });
 
   it('should show nameOverride fields in mapping table', async () => {
@@ -255,4 +343,294 @@ describe('validateCommand', () => {
     expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Field mappings'));
     expect(process.exit).not.toHaveBeenCalled();
   });
+
+  it('should escape reserved words and show them in the mapping table', async () => {
+    const mockSchema = {
+      schemaVersion: 1.1,
+      entityName: 'Order',
+      description: 'Order entity',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'class', type: 'string', required: false },
+        { name: 'default', type: 'string', required: false }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    vi.mocked(path.resolve).mockReturnValue('/path/to/schema.bprint');
+
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+
+    await validateCommand('/path/to/schema.bprint');
+
+    expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/class\s+→ class_\s+.*reserved word, escaped/));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('2 field(s) are Java reserved words'));
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should report collisions caused by escaping', async () => {
+    const mockSchema = {
+      schemaVersion: 1.1,
+      entityName: 'Order',
+      description: 'Order entity',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'package', type: 'string', required: false },
+        { name: 'package_', type: 'string', required: false }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    vi.mocked(path.resolve).mockReturnValue('/path/to/schema.bprint');
+
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+
+    const error = await validateCommand('/path/to/schema.bprint').catch((e) => e);
+
+    expect(error).toBeInstanceOf(NameCollisionError);
+    expect(error.hints).toContainEqual(
+      expect.stringContaining("Fields 'package' and 'package_' both resolve to 'package_'")
+    );
+  });
+
+  it('should show nested fields with dotted paths and report nested collisions', async () => {
+    const mockSchema = {
+      schemaVersion: 1.1,
+      entityName: 'Order',
+      description: 'Order entity',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        {
+          name: 'address',
+          type: 'map',
+          fields: [
+            { name: 'zip-code', type: 'string' },
+            { name: 'zipCode', type: 'string' }
+          ]
+        }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    vi.mocked(path.resolve).mockReturnValue('/path/to/schema.bprint');
+
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+
+    const error = await validateCommand('/path/to/schema.bprint').catch((e) => e);
+
+    expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/address\.zip-code\s+→ address\.zipCode\s+.*auto-converted/));
+    expect(error.hints).toContainEqual(
+      expect.stringContaining("Fields 'address.zip-code' and 'address.zipCode' both resolve to 'address.zipCode'")
+    );
+  });
+
+  it('should resolve field names for --language, else the configured language', async () => {
+    const mockSchema = {
+      schemaVersion: '1.1',
+      entityName: 'Order',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'order-date', type: 'timestamp', required: true },
+        { name: 'from', type: 'string' }
+      ]
+    };
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockSchema));
+    const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+    vi.mocked(validateSchema).mockReturnValue({ ...mockSchema });
+
+    const result = validateSchemaFile('/path/to/order.bprint', { language: 'python' });
+    expect(result.language).toBe('python');
+    expect(result.fields).toContainEqual({ originalName: 'order-date', codeName: 'order_date', conversionType: 'auto' });
+    expect(result.fields).toContainEqual({ originalName: 'from', codeName: 'from_', conversionType: 'escaped' });
+
+    vi.mocked(loadConfig).mockReturnValueOnce({ language: 'typescript' } as ReturnType<typeof loadConfig>);
+    await validateCommand('/path/to/order.bprint');
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Field mappings (TypeScript)'));
+    expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/order-date\s+→ orderDate\s+/));
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('valid TypeScript identifiers'));
+
+    expect(() => validateSchemaFile('/path/to/order.bprint', { language: 'cobol' })).toThrow(UsageError);
+  });
+
+  describe('--watch', () => {
+    const orderSchema = (schemaVersion: string, fields: { name: string; nameOverride?: string }[]) => ({
+      schemaVersion,
+      entityName: 'Order',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: fields.map((field) => ({ type: 'string' as const, required: true, ...field })),
+    });
+
+    const save = async (schema: ReturnType<typeof orderSchema>) => {
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(schema));
+      const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+      vi.mocked(validateSchema).mockReturnValue({ ...schema });
+    };
+
+    const printed = () => vi.mocked(console.log).mock.calls.map((args) => args.join(' ')).join('\n');
+
+    it('should report mapping changes, collisions and unbumped versions on each save', async () => {
+      let stop: () => void = () => {};
+      vi.mocked(waitForInterrupt).mockReturnValue(new Promise((resolve) => { stop = resolve; }));
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(findSchemaFiles).mockReturnValue(['schemas/order.bprint']);
+      await save(orderSchema('1.0', [{ name: 'orderId' }, { name: 'total' }]));
+
+      const watching = validateCommand('schemas/*.bprint', { watch: true });
+      await vi.waitFor(() => expect(watchFiles).toHaveBeenCalled());
+      expect(printed()).toContain('schemas/order.bprint: Order v1.0, 2 field(s)');
+      const onChange = vi.mocked(watchFiles).mock.calls[0][1];
+
+      vi.mocked(console.log).mockClear();
+      await save(orderSchema('1.0', [{ name: 'orderId' }, { name: 'order-date' }, { name: 'orderDate' }]));
+      onChange(['schemas/order.bprint']);
+      expect(printed()).toContain('+ order-date → orderDate');
+      expect(printed()).toContain('- total');
+      expect(printed()).toContain("Collision: Fields 'order-date' and 'orderDate' both resolve to 'orderDate'");
+      expect(printed()).toContain('Content changed but schemaVersion is still 1.0');
+
+      vi.mocked(console.log).mockClear();
+      await save(orderSchema('1.1', [{ name: 'orderId' }, { name: 'order-date', nameOverride: 'placedOn' }, { name: 'orderDate' }]));
+      onChange(['schemas/order.bprint']);
+      expect(printed()).toContain('~ order-date: orderDate → placedOn');
+      expect(printed()).not.toContain('Collision');
+      expect(printed()).not.toContain('schemaVersion is still');
+
+      vi.mocked(console.log).mockClear();
+      vi.mocked(fs.readFileSync).mockReturnValue('{ not json');
+      onChange(['schemas/order.bprint']);
+      expect(printed()).toContain('✗ schemas/order.bprint: Schema validation failed');
+
+      stop();
+      await watching;
+      expect(process.exit).not.toHaveBeenCalled();
+    });
+
+    it('should watch the .bprint files under a directory', async () => {
+      vi.mocked(waitForInterrupt).mockResolvedValue(undefined);
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(isDirectory).mockReturnValue(true);
+      vi.mocked(findSchemaFiles).mockReturnValue(['schemas/order.bprint', 'schemas/nested/order.bprint']);
+      await save(orderSchema('1.0', [{ name: 'orderId' }]));
+
+      await validateCommand('schemas', { watch: true });
+
+      expect(findSchemaFiles).toHaveBeenCalledWith('schemas');
+      expect(printed()).toContain('Validating 2 schema file(s) matching schemas');
+      expect(printed()).toContain('schemas/nested/order.bprint: Order v1.0, 1 field(s)');
+      const listFiles = vi.mocked(watchFiles).mock.calls[0][0];
+      expect(listFiles()).toEqual(['schemas/order.bprint', 'schemas/nested/order.bprint']);
+    });
+  });
+
+  describe('directory or glob', () => {
+    const schema = (entityName: string, partitionKey: string, sortKey?: string) => ({
+      schemaVersion: '1.0',
+      entityName,
+      primaryKey: { partitionKey, sortKey },
+      fields: [{ name: partitionKey, type: 'string' as const, required: true }],
+    });
+
+    const snapshot = (entityName: string, partitionKey: string, tableName = 'orders-table') => ({
+      entityName,
+      stackName: 'ShopStack',
+      snapshot: {
+        identity: { bindingId: `ShopStack:${entityName}` },
+        resource: { name: tableName, id: `arn:aws:dynamodb:us-east-1:123456789012:table/${tableName}` },
+        schema: schema(entityName, partitionKey),
+      },
+    }) as ResolvedSnapshot;
+
+    const useFiles = async (files: Record<string, object | string>) => {
+      vi.mocked(isDirectory).mockReturnValue(true);
+      vi.mocked(findSchemaFiles).mockReturnValue(Object.keys(files));
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(path.resolve).mockImplementation((file) => file);
+      vi.mocked(fs.readFileSync).mockImplementation((file) => {
+        const content = files[String(file)];
+        return typeof content === 'string' ? content : JSON.stringify(content);
+      });
+      const { validateSchema } = await import('@chaim-tools/chaim-bprint-spec');
+      vi.mocked(validateSchema).mockImplementation((raw) => raw as ReturnType<typeof validateSchema>);
+    };
+
+    const printed = () => vi.mocked(console.log).mock.calls.map((args) => args.join(' ')).join('\n');
+
+    it('should validate every file and print one row per file', async () => {
+      await useFiles({
+        'schemas/customer.bprint': schema('Customer', 'pk', 'sk'),
+        'schemas/order.bprint': schema('Order', 'pk', 'sk'),
+      });
+      vi.mocked(resolveAllSnapshots).mockReturnValue([snapshot('Order', 'pk'), snapshot('Customer', 'pk')]);
+
+      await validateCommand('schemas');
+
+      expect(findSchemaFiles).toHaveBeenCalledWith('schemas');
+      expect(printed()).toMatch(/File\s+Entity\s+Version\s+Table\s+Fields/);
+      expect(printed()).toMatch(/schemas\/order\.bprint\s+Order\s+1\.0\s+orders-table\s+1$/m);
+      expect(printed()).toContain('✓ All 2 schema file(s) are valid');
+    });
+
+    it('should report invalid files and duplicate entity names', async () => {
+      await useFiles({
+        'schemas/broken.bprint': '{ not json',
+        'schemas/order.bprint': schema('Order', 'orderId'),
+        'schemas/order-v2.bprint': schema('Order', 'orderId'),
+      });
+
+      const error = await validateCommand('schemas/*.bprint').catch((e) => e);
+
+      expect(error).toBeInstanceOf(SchemaValidationError);
+      expect(error.message).toBe('3 of 3 schema file(s) are invalid');
+      expect(printed()).toContain('Schema validation failed');
+      expect(printed()).toContain("entityName 'Order' is also declared in schemas/order-v2.bprint");
+      expect(printed()).toContain("entityName 'Order' is also declared in schemas/order.bprint");
+      expect(printed()).toContain('No local snapshots found');
+    });
+
+    it('should compare keys with the other entities bound to the same table', async () => {
+      await useFiles({ 'schemas/order.bprint': schema('Order', 'orderId') });
+      vi.mocked(resolveAllSnapshots).mockReturnValue([
+        snapshot('Order', 'pk'),
+        snapshot('Customer', 'pk'),
+        snapshot('Invoice', 'invoiceId', 'invoices-table'),
+      ]);
+
+      const result = validateSchemaFiles('schemas', { snapshotDir: '/snapshots' });
+
+      expect(resolveAllSnapshots).toHaveBeenCalledWith('/snapshots');
+      expect(result.files[0].tables).toEqual(['orders-table']);
+      expect(result.files[0].keyMismatches).toEqual([
+        "Entity 'Customer' has incompatible partition key for table 'orders-table'. Expected: partitionKey='orderId' (from entity 'Order') Found: partitionKey='pk'",
+      ]);
+
+      const error = await validateCommand('schemas').catch((e) => e);
+      expect(error).toBeInstanceOf(KeyConsistencyError);
+      expect(error.exitCode).toBe(EXIT_CODES.KEY_CONSISTENCY);
+    });
+
+    it('should only flag the entity whose keys differ', async () => {
+      await useFiles({
+        'schemas/customer.bprint': schema('Customer', 'customerId'),
+        'schemas/order.bprint': schema('Order', 'pk'),
+      });
+      vi.mocked(resolveAllSnapshots).mockReturnValue([snapshot('Order', 'pk'), snapshot('Customer', 'pk')]);
+
+      const { files } = validateSchemaFiles('schemas');
+
+      expect(files.map((file) => file.keyMismatches.length)).toEqual([1, 0]);
+      expect(files[0].keyMismatches[0]).toContain("Entity 'Customer' has incompatible partition key");
+    });
+  });
 });
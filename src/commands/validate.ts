@@ -2,68 +2,502 @@ import chalk from 'chalk';
 import { validateSchema } from '@chaim-tools/chaim-bprint-spec';
 import * as fs from 'fs';
 import * as path from 'path';
-import { resolveFieldNames, detectCollisions, ResolvedField } from '../services/name-resolver';
+import { resolveNestedFieldNames, detectCollisions, CollisionError, ResolvedField } from '../services/name-resolver';
+import { loadConfig } from '../config/loader';
+import { loadGenerators, resolveGenerator } from '../generators/registry';
+import { ChaimGenerator } from '../generators/types';
+import { isJsonOutput, setCommandResult } from '../services/json-output';
+import { waitForInterrupt, watchFiles } from '../services/file-watcher';
+import { findSchemaFiles, hasGlobChars, isDirectory } from '../services/glob';
+import { ResolvedSnapshot, resolveAllSnapshots } from '../services/snapshot-discovery';
+import { getBindingId, getTableIdentity, getTableName, validateTableKeyConsistency } from '../services/table-keys';
+import { KeyConsistencyError, NameCollisionError, SchemaValidationError, UsageError } from '../errors';
 
-export async function validateCommand(schemaFile: string): Promise<void> {
-  try {
-    console.log(chalk.blue('🔍 Validating schema:'), schemaFile);
-    
-    // Check if file exists
-    if (!fs.existsSync(schemaFile)) {
-      console.error(chalk.red(`Error: Schema file not found: ${schemaFile}`));
-      process.exit(1);
+/**
+ * Quiet period after a save before re-validating; editors may write a file more than once.
+ */
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Result of `chaim validate` (the `result` of its --json output).
+ */
+export interface ValidateResult {
+  file: string;
+  entityName: string;
+  schemaVersion: string;
+  partitionKey: string;
+  sortKey?: string;
+  /** Language the field names were resolved for */
+  language: string;
+  /** Every field, nested fields as dotted paths, with its name in that language */
+  fields: ResolvedField[];
+  collisions: CollisionError[];
+}
+
+/**
+ * One file of `chaim validate <directory|glob>`.
+ */
+export interface ValidatedSchemaFile {
+  file: string;
+  /** Result, if the file passed spec validation */
+  result?: ValidateResult;
+  /** Why the file failed spec validation */
+  error?: string;
+  /** Tables the entity is bound to in the local snapshots (from the last `cdk synth`) */
+  tables: string[];
+  /** Other files that declare the same entityName */
+  duplicateOf: string[];
+  /** Partition or sort key mismatches with other entities bound to the same table */
+  keyMismatches: string[];
+}
+
+/**
+ * Result of `chaim validate <directory|glob>` (the `result` of its --json output).
+ */
+export interface ValidateFilesResult {
+  files: ValidatedSchemaFile[];
+  /** Whether local snapshots were found to tell which tables the entities are bound to */
+  tableBindingsFound: boolean;
+}
+
+/**
+ * Options for validateSchemaFile().
+ */
+export interface ValidateOptions {
+  /** Language to resolve field names for (default: the configured language, else Java) */
+  language?: string;
+}
+
+/**
+ * Options for validateSchemaFiles().
+ */
+export interface ValidateFilesOptions extends ValidateOptions {
+  /** Snapshot directory to read table bindings from (default: OS cache) */
+  snapshotDir?: string;
+}
+
+/**
+ * Last valid state of a file under `validate --watch`.
+ */
+interface WatchedSchema {
+  result: ValidateResult;
+  /** Schema content without schemaVersion */
+  content: string;
+  /** Version and content when schemaVersion last changed, or when the watch started */
+  baseline: { schemaVersion: string; content: string };
+}
+
+/**
+ * Validate a .bprint file and resolve its field names for the target
+ * language, as `generate` would. Name collisions are reported in the result,
+ * not thrown.
+ *
+ * @throws SchemaValidationError if the file is missing, not JSON, or invalid
+ * @throws UsageError if no generator provides the language
+ */
+export function validateSchemaFile(schemaFile: string, options: ValidateOptions = {}): ValidateResult {
+  return checkSchemaFile(schemaFile, resolveTargetGenerator(options.language)).result;
+}
+
+/**
+ * Validate every .bprint file in a directory (searched recursively) or
+ * matching a glob, then check them against each other: no two files may
+ * declare the same entityName, and entities bound to the same table must
+ * have the same partition and sort keys (the rule `generate` applies to
+ * snapshots). Which table an entity is bound to comes from the local
+ * snapshots; entities without one are only checked for duplicates.
+ * Problems are reported per file, not thrown.
+ *
+ * @throws SchemaValidationError if nothing matches the pattern
+ */
+export function validateSchemaFiles(pattern: string, options: ValidateFilesOptions = {}): ValidateFilesResult {
+  const generator = resolveTargetGenerator(options.language);
+  const schemasByEntity = new Map<string, { file: ValidatedSchemaFile; schema: ReturnType<typeof validateSchema> }[]>();
+  const files: ValidatedSchemaFile[] = findSchemaFiles(pattern).map((file) => {
+    const validated: ValidatedSchemaFile = { file, tables: [], duplicateOf: [], keyMismatches: [] };
+    try {
+      const { schema, result } = checkSchemaFile(file, generator);
+      validated.result = result;
+      schemasByEntity.set(result.entityName, [...(schemasByEntity.get(result.entityName) ?? []), { file: validated, schema }]);
+    } catch (error) {
+      validated.error = error instanceof Error ? error.message : String(error);
     }
-    
-    // Load and validate schema
-    const schemaContent = fs.readFileSync(path.resolve(schemaFile), 'utf-8');
-    const schema = JSON.parse(schemaContent);
-    const validatedSchema = validateSchema(schema);
-    
-    console.log(chalk.green('✓ Schema is valid'));
-    console.log(chalk.green('  Entity:'), validatedSchema.entityName);
-    console.log(chalk.green('  Partition Key:'), validatedSchema.primaryKey.partitionKey);
-    console.log(chalk.green('  Version:'), validatedSchema.schemaVersion);
-    console.log(chalk.green('  Fields:'), validatedSchema.fields.length);
-
-    // Resolve field names for Java and display mapping table
-    const resolvedFields = resolveFieldNames(validatedSchema.fields, 'java');
-    const collisions = detectCollisions(resolvedFields);
-
-    // Display field mapping table
-    printFieldMappingTable(resolvedFields);
-
-    // Report auto-conversions
-    const autoConverted = resolvedFields.filter(f => f.conversionType === 'auto');
-    if (autoConverted.length > 0) {
-      console.log(chalk.yellow(`\n  ⚠ ${autoConverted.length} field(s) will be auto-converted. Add "nameOverride" to override.`));
+    return validated;
+  });
+  if (files.length === 0) {
+    throw new SchemaValidationError(`No .bprint files match ${pattern}`, pattern);
+  }
+
+  for (const declared of schemasByEntity.values()) {
+    for (const { file } of declared) {
+      file.duplicateOf = declared.filter((other) => other.file !== file).map((other) => other.file.file);
     }
+  }
+
+  // Newest snapshot per binding, with the schema replaced by the file being validated
+  const seenBindingIds = new Set<string>();
+  const byTable = new Map<string, { snapshots: ResolvedSnapshot[]; files: ValidatedSchemaFile[] }>();
+  for (const snap of resolveAllSnapshots(options.snapshotDir)) {
+    const bindingId = getBindingId(snap);
+    if (!snap.snapshot.schema || seenBindingIds.has(bindingId)) continue;
+    seenBindingIds.add(bindingId);
 
-    // Report collisions
-    if (collisions.length > 0) {
-      console.log('');
-      for (const collision of collisions) {
-        console.error(chalk.red(`  ✗ Collision: ${collision.message}`));
-      }
-      process.exit(1);
+    const tableId = getTableIdentity(snap);
+    const table = byTable.get(tableId) ?? { snapshots: [], files: [] };
+    const declared = schemasByEntity.get(snap.entityName);
+    if (declared?.length === 1) {
+      const [{ file, schema }] = declared;
+      table.snapshots.push({ ...snap, snapshot: { ...snap.snapshot, schema } });
+      table.files.push(file);
+      file.tables.push(getTableName(snap));
     } else {
-      console.log(chalk.green('  ✓ No collisions detected'));
+      table.snapshots.push(snap);
     }
+    byTable.set(tableId, table);
+  }
+
+  for (const { snapshots, files: tableFiles } of byTable.values()) {
+    if (tableFiles.length === 0) continue;
+    try {
+      validateTableKeyConsistency(snapshots, getTableName(snapshots[0]));
+    } catch (error) {
+      if (!(error instanceof KeyConsistencyError)) throw error;
+      const mismatch = error.message.split('\n').slice(0, 3).join(' ').replace(/\s+/g, ' ');
+      // Blame the entity that differs, or every file on the table if that entity has no file here
+      const { entityName } = error;
+      const offending = tableFiles.filter((file) => file.result?.entityName === entityName);
+      (offending.length > 0 ? offending : tableFiles).forEach((file) => file.keyMismatches.push(mismatch));
+    }
+  }
+
+  return { files, tableBindingsFound: byTable.size > 0 };
+}
+
+/**
+ * Validate a .bprint file and print how its field names map to the target
+ * language (--language, else the configured language, else Java). With a
+ * directory or glob, validates every matching file and checks them against
+ * each other; see validateSchemaFiles().
+ *
+ * @throws SchemaValidationError if the file is missing, not JSON, or invalid
+ * @throws KeyConsistencyError if entities bound to the same table have different keys
+ * @throws NameCollisionError if two fields resolve to the same name
+ */
+export async function validateCommand(
+  schemaFile: string,
+  options: { watch?: boolean } & ValidateFilesOptions = {}
+): Promise<void> {
+  if (options.watch) {
+    return watchValidate(schemaFile, options);
+  }
+  if (hasGlobChars(schemaFile) || isDirectory(schemaFile)) {
+    return validateFilesCommand(schemaFile, options);
+  }
+
+  const generator = resolveTargetGenerator(options.language);
+  console.log(chalk.blue('🔍 Validating schema:'), schemaFile);
+
+  const { schema: validatedSchema, result } = checkSchemaFile(schemaFile, generator);
+  const { fields: resolvedFields, collisions } = result;
+  setCommandResult('validate', result);
+
+  console.log(chalk.green('✓ Schema is valid'));
+  console.log(chalk.green('  Entity:'), validatedSchema.entityName);
+  console.log(chalk.green('  Partition Key:'), validatedSchema.primaryKey.partitionKey);
+  console.log(chalk.green('  Version:'), validatedSchema.schemaVersion);
+  console.log(chalk.green('  Fields:'), validatedSchema.fields.length);
+
+  // Display field mapping table
+  printFieldMappingTable(resolvedFields, generator);
+
+  // Report auto-conversions
+  const autoConverted = resolvedFields.filter(f => f.conversionType === 'auto');
+  if (autoConverted.length > 0) {
+    console.log(chalk.yellow(`\n  ⚠ ${autoConverted.length} field(s) will be auto-converted. Add "nameOverride" to override.`));
+  }
+
+  // Report reserved words
+  const escaped = resolvedFields.filter(f => f.conversionType === 'escaped');
+  if (escaped.length > 0) {
+    console.log(chalk.yellow(`\n  ⚠ ${escaped.length} field(s) are ${languageName(generator)} reserved words and will be escaped. Add "nameOverride" to choose a different name.`));
+  }
+
+  // Report collisions
+  if (collisions.length > 0) {
+    throw new NameCollisionError(validatedSchema.entityName, collisions);
+  }
+  console.log(chalk.green('  ✓ No collisions detected'));
+
+  console.log(chalk.green(`  ✓ All resolved names are valid ${languageName(generator)} identifiers`));
+}
+
+/**
+ * `chaim validate <directory|glob>`: print one row per file with its
+ * problems, then fail with the most basic kind of problem found: invalid or
+ * duplicate schemas first, then table key mismatches, then name collisions.
+ */
+async function validateFilesCommand(pattern: string, options: ValidateFilesOptions): Promise<void> {
+  const validation = validateSchemaFiles(pattern, options);
+  const { files } = validation;
+  setCommandResult('validate', validation);
+
+  console.log(chalk.blue(`🔍 Validating ${files.length} schema file(s) matching ${pattern}`));
+  printValidatedFilesTable(files);
+  if (!validation.tableBindingsFound) {
+    console.log(chalk.gray('  No local snapshots found, so table keys were not compared. Run `cdk synth` to bind entities to tables.'));
+  }
+
+  const invalid = files.filter((file) => file.error || file.duplicateOf.length > 0);
+  if (invalid.length > 0) {
+    throw new SchemaValidationError(
+      `${invalid.length} of ${files.length} schema file(s) are invalid`,
+      invalid[0].file
+    );
+  }
+
+  const mismatched = files.find((file) => file.keyMismatches.length > 0);
+  if (mismatched?.result) {
+    throw new KeyConsistencyError(
+      `${mismatched.keyMismatches[0]}\n\nAll entities bound to the same table must have matching PK/SK field names.`,
+      mismatched.tables[0],
+      mismatched.result.entityName
+    );
+  }
 
-    console.log(chalk.green('  ✓ All resolved names are valid Java identifiers'));
-    
+  const colliding = files.find((file) => file.result && file.result.collisions.length > 0);
+  if (colliding?.result) {
+    throw new NameCollisionError(colliding.result.entityName, colliding.result.collisions);
+  }
+
+  console.log(chalk.green(`\n✓ All ${files.length} schema file(s) are valid`));
+}
+
+/**
+ * Print one row per validated file (file, entity, version, tables, fields),
+ * each followed by its problems.
+ */
+function printValidatedFilesTable(files: ValidatedSchemaFile[]): void {
+  const rows = files.map(({ file, result, tables }) => [
+    file,
+    result?.entityName ?? '—',
+    result?.schemaVersion ?? '—',
+    tables.length > 0 ? tables.join(', ') : '—',
+    result ? String(result.fields.length) : '—',
+  ]);
+  const header = ['File', 'Entity', 'Version', 'Table', 'Fields'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column].length)));
+  const format = (row: string[]): string => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  console.log(chalk.blue(`    ${format(header)}`));
+  files.forEach((validated, index) => {
+    const problems = [
+      ...(validated.error ? [validated.error] : []),
+      ...validated.duplicateOf.map((other) => `entityName '${validated.result?.entityName}' is also declared in ${other}`),
+      ...validated.keyMismatches,
+      ...(validated.result?.collisions ?? []).map((collision) => `Collision: ${collision.message}`),
+    ];
+    console.log(problems.length > 0 ? chalk.red(`  ✗ ${format(rows[index])}`) : chalk.green(`  ✓ `) + format(rows[index]));
+    for (const problem of problems) {
+      console.log(chalk.red(`      ${problem}`));
+    }
+  });
+}
+
+/**
+ * `chaim validate --watch <path>`: validate the .bprint file, every one under
+ * a directory, or every glob match, then re-validate each file when it is
+ * saved, until interrupted with Ctrl+C.
+ * Each save prints the field mapping changes, collisions, and a warning when
+ * the content changed but schemaVersion was not bumped. Invalid files are
+ * reported without stopping the watch.
+ */
+async function watchValidate(pattern: string, options: ValidateOptions): Promise<void> {
+  if (isJsonOutput()) {
+    throw new UsageError('--watch cannot be combined with --json');
+  }
+
+  const generator = resolveTargetGenerator(options.language);
+  const listFiles = (): string[] => findSchemaFiles(pattern);
+  const files = listFiles();
+  const watched = new Map<string, WatchedSchema>();
+
+  console.log(chalk.blue(`🔍 Validating ${files.length} schema file(s) matching ${pattern}`));
+  for (const file of files) {
+    checkWatchedFile(file, watched, generator, { initial: true });
+  }
+
+  console.log(chalk.blue(`\n👀 Watching ${pattern} for changes (Ctrl+C to stop)`));
+  const watcher = watchFiles(listFiles, (changedFiles) => {
+    console.log(`\n${chalk.gray(`[${new Date().toLocaleTimeString()}]`)}`);
+    for (const file of changedFiles) {
+      checkWatchedFile(file, watched, generator, { initial: false });
+    }
+  }, { debounceMs: WATCH_DEBOUNCE_MS });
+
+  await waitForInterrupt();
+  watcher.close();
+  console.log(chalk.blue('\nStopped watching'));
+}
+
+/**
+ * Validate one watched file and print what changed since its last valid state.
+ */
+function checkWatchedFile(
+  file: string,
+  watched: Map<string, WatchedSchema>,
+  generator: ChaimGenerator,
+  { initial }: { initial: boolean }
+): void {
+  if (!fs.existsSync(file)) {
+    watched.delete(file);
+    console.log(chalk.gray(`- ${file}: deleted`));
+    return;
+  }
+
+  let checked: ReturnType<typeof checkSchemaFile>;
+  try {
+    checked = checkSchemaFile(file, generator);
+  } catch (error) {
+    console.log(chalk.red(`✗ ${file}: ${error instanceof Error ? error.message : error}`));
+    return;
+  }
+
+  const { schema, result } = checked;
+  const content = JSON.stringify({ ...schema, schemaVersion: undefined });
+  const previous = watched.get(file);
+  const baseline = previous && previous.baseline.schemaVersion === result.schemaVersion
+    ? previous.baseline
+    : { schemaVersion: result.schemaVersion, content };
+  watched.set(file, { result, content, baseline });
+
+  const summary = `${file}: ${result.entityName} v${result.schemaVersion}, ${result.fields.length} field(s)`;
+  console.log(result.collisions.length > 0 ? chalk.red(`✗ ${summary}`) : chalk.green(`✓ ${summary}`));
+
+  if (previous) {
+    const changes = diffFieldMappings(previous.result.fields, result.fields);
+    for (const change of changes) {
+      console.log(`    ${change}`);
+    }
+    if (changes.length === 0 && content !== previous.content) {
+      console.log(chalk.gray('    No field mapping changes'));
+    }
+  } else if (!initial) {
+    printFieldMappingTable(result.fields, generator);
+  }
+
+  for (const collision of result.collisions) {
+    console.log(chalk.red(`    Collision: ${collision.message}`));
+  }
+
+  if (content !== baseline.content) {
+    console.log(chalk.yellow(
+      `    ⚠ Content changed but schemaVersion is still ${result.schemaVersion}; deploying will be rejected. Run: chaim bump ${file}`
+    ));
+  }
+}
+
+/**
+ * Describe added (+), removed (-) and renamed (~) field mappings.
+ */
+function diffFieldMappings(before: ResolvedField[], after: ResolvedField[]): string[] {
+  const beforeByName = new Map(before.map((field) => [field.originalName, field]));
+  const afterNames = new Set(after.map((field) => field.originalName));
+  const changes: string[] = [];
+
+  for (const field of after) {
+    const old = beforeByName.get(field.originalName);
+    if (!old) {
+      changes.push(chalk.green(`+ ${field.originalName} → ${field.codeName}`));
+    } else if (old.codeName !== field.codeName) {
+      changes.push(chalk.yellow(`~ ${field.originalName}: ${old.codeName} → ${field.codeName}`));
+    }
+  }
+  for (const field of before) {
+    if (!afterNames.has(field.originalName)) {
+      changes.push(chalk.red(`- ${field.originalName}`));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Resolve the generator whose naming rules apply, the same way `generate`
+ * does: --language, else CHAIM_LANGUAGE, chaim.json or ~/.chaim/config.json,
+ * else Java. Plugin languages are included.
+ */
+function resolveTargetGenerator(language?: string): ChaimGenerator {
+  const config = loadConfig({ cliOverrides: { language } });
+  const generators = loadGenerators({
+    projectDir: config.repoConfigPath ? path.dirname(config.repoConfigPath) : process.cwd(),
+    plugins: config.generators,
+  });
+  return resolveGenerator(generators, config.language);
+}
+
+/**
+ * Language name for messages: the generator's display name without its
+ * framework (e.g., "Java" for "Java (DynamoDB Enhanced Client)").
+ */
+function languageName(generator: ChaimGenerator): string {
+  return generator.name.replace(/\s*\(.*\)$/, '') || generator.language;
+}
+
+/**
+ * Load and validate a schema file, returning the parsed schema along with the result.
+ */
+function checkSchemaFile(
+  schemaFile: string,
+  generator: ChaimGenerator
+): { schema: ReturnType<typeof validateSchema>; result: ValidateResult } {
+  // Check if file exists
+  if (!fs.existsSync(schemaFile)) {
+    throw new SchemaValidationError(`Schema file not found: ${schemaFile}`, schemaFile);
+  }
+
+  const schema = loadSchema(schemaFile);
+
+  // Resolve field names (including nested map fields) for the target language
+  const fields = resolveNestedFieldNames(schema.fields, generator.naming);
+  return {
+    schema,
+    result: {
+      file: schemaFile,
+      entityName: schema.entityName,
+      schemaVersion: schema.schemaVersion,
+      partitionKey: schema.primaryKey.partitionKey,
+      sortKey: schema.primaryKey.sortKey,
+      language: generator.language,
+      fields,
+      collisions: detectCollisions(fields),
+    },
+  };
+}
+
+/**
+ * Read and parse a schema file and check it against the .bprint spec.
+ */
+function loadSchema(schemaFile: string): ReturnType<typeof validateSchema> {
+  try {
+    const schemaContent = fs.readFileSync(path.resolve(schemaFile), 'utf-8');
+    return validateSchema(JSON.parse(schemaContent));
   } catch (error) {
-    console.error(chalk.red('✗ Schema validation failed:'), error instanceof Error ? error.message : error);
-    process.exit(1);
+    throw new SchemaValidationError(
+      `Schema validation failed: ${error instanceof Error ? error.message : error}`,
+      schemaFile
+    );
   }
 }
 
 /**
- * Print a formatted table showing how each field name maps to its Java identifier.
+ * Print a formatted table showing how each field name maps to its identifier
+ * in the target language. Nested fields are shown with dotted paths
+ * (address.zip-code → address.zipCode).
  */
-function printFieldMappingTable(resolvedFields: ResolvedField[]): void {
+function printFieldMappingTable(resolvedFields: ResolvedField[], generator: ChaimGenerator): void {
   if (resolvedFields.length === 0) return;
 
-  console.log(chalk.blue('\n  Field mappings (Java):'));
+  console.log(chalk.blue(`\n  Field mappings (${languageName(generator)}):`));
 
   // Calculate column widths for alignment
   const maxOrigLen = Math.max(...resolvedFields.map(f => f.originalName.length));
@@ -84,6 +518,9 @@ function printFieldMappingTable(resolvedFields: ResolvedField[]): void {
       case 'override':
         label = chalk.cyan('(nameOverride)');
         break;
+      case 'escaped':
+        label = chalk.yellow('(reserved word, escaped)');
+        break;
     }
 
     console.log(`    ${orig} → ${code}  ${label}`);
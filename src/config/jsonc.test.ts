@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonc, removeJsonProperty, setJsonProperty, stripJsonComments } from './jsonc';
+
+const COMMENTED = `{
+  // Application settings
+  "appId": "app-1", // production app
+  "region": "us-east-1",
+  /* generation */
+  "tables": ["Orders"]
+}
+`;
+
+describe('parseJsonc', () => {
+  it('should ignore line and block comments', () => {
+    expect(parseJsonc(COMMENTED)).toEqual({ appId: 'app-1', region: 'us-east-1', tables: ['Orders'] });
+  });
+
+  it('should leave comment-like text inside strings alone', () => {
+    expect(parseJsonc('{ "output": "./gen//java", "x": "/* y */" }')).toEqual({ output: './gen//java', x: '/* y */' });
+  });
+
+  it('should preserve line numbers when stripping comments', () => {
+    expect(stripJsonComments(COMMENTED).split('\n')).toHaveLength(COMMENTED.split('\n').length);
+  });
+});
+
+describe('setJsonProperty', () => {
+  it('should replace an existing value in place and keep comments', () => {
+    const result = setJsonProperty(COMMENTED, 'region', 'eu-west-1');
+
+    expect(result).toContain('"region": "eu-west-1",');
+    expect(result).toContain('// production app');
+    expect(result).toContain('/* generation */');
+    expect(parseJsonc(result)).toMatchObject({ region: 'eu-west-1' });
+  });
+
+  it('should append a new key after the last property with matching indentation', () => {
+    const result = setJsonProperty(COMMENTED, 'stackName', 'OrdersStack');
+
+    expect(result).toContain('"tables": ["Orders"],\n  "stackName": "OrdersStack"\n}');
+    expect(Object.keys(parseJsonc(result) as object)).toEqual(['appId', 'region', 'tables', 'stackName']);
+  });
+
+  it('should keep CRLF line endings', () => {
+    const result = setJsonProperty('{\r\n  "appId": "app-1"\r\n}\r\n', 'region', 'us-west-2');
+
+    expect(result).toBe('{\r\n  "appId": "app-1",\r\n  "region": "us-west-2"\r\n}\r\n');
+  });
+
+  it('should handle empty text and empty objects', () => {
+    expect(parseJsonc(setJsonProperty('', 'appId', 'a'))).toEqual({ appId: 'a' });
+    expect(parseJsonc(setJsonProperty('{}\n', 'appId', 'a'))).toEqual({ appId: 'a' });
+  });
+});
+
+describe('removeJsonProperty', () => {
+  it('should remove a property with its trailing comment', () => {
+    const result = removeJsonProperty(COMMENTED, 'appId');
+
+    expect(result).not.toContain('production app');
+    expect(result).toContain('// Application settings');
+    expect(parseJsonc(result)).toEqual({ region: 'us-east-1', tables: ['Orders'] });
+  });
+
+  it('should drop the dangling comma when removing the last property', () => {
+    const result = removeJsonProperty(COMMENTED, 'tables');
+
+    expect(result).toContain('"region": "us-east-1"\n');
+    expect(parseJsonc(result)).toEqual({ appId: 'app-1', region: 'us-east-1' });
+  });
+
+  it('should return the text unchanged when the key is absent', () => {
+    expect(removeJsonProperty(COMMENTED, 'stackName')).toBe(COMMENTED);
+  });
+});
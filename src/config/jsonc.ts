@@ -0,0 +1,274 @@
+/**
+ * Minimal JSON-with-comments support for config files.
+ *
+ * Config files may contain `//` and `/* *\/` comments. Edits made by the CLI
+ * (`config set`, `config unset`) are applied to the original text so comments,
+ * key order and formatting outside the edited property are preserved.
+ *
+ * Only top-level properties of the root object are edited; nested values are
+ * replaced as a whole.
+ */
+
+/**
+ * Location of a top-level property in the source text.
+ */
+interface PropertyRange {
+  key: string;
+  /** Index of the opening quote of the key */
+  keyStart: number;
+  /** Index of the first character of the value */
+  valueStart: number;
+  /** Index just past the last character of the value */
+  valueEnd: number;
+}
+
+/**
+ * Result of scanning the root object.
+ */
+interface RootScan {
+  openBrace: number;
+  closeBrace: number;
+  properties: PropertyRange[];
+}
+
+/**
+ * Return the index just past a string literal starting at `start` (a `"`).
+ */
+function skipString(text: string, start: number): number {
+  let i = start + 1;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '"') {
+      return i + 1;
+    }
+    i++;
+  }
+  throw new Error('Unterminated string in JSON');
+}
+
+/**
+ * Return the index just past a comment starting at `start`, or `start` if there is none.
+ */
+function skipComment(text: string, start: number): number {
+  if (text[start] !== '/') return start;
+  if (text[start + 1] === '/') {
+    const end = text.indexOf('\n', start);
+    return end === -1 ? text.length : end;
+  }
+  if (text[start + 1] === '*') {
+    const end = text.indexOf('*/', start + 2);
+    if (end === -1) throw new Error('Unterminated comment in JSON');
+    return end + 2;
+  }
+  return start;
+}
+
+/**
+ * Remove comments from JSON text, leaving string contents untouched.
+ */
+export function stripJsonComments(text: string): string {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      const end = skipString(text, i);
+      result += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    const afterComment = skipComment(text, i);
+    if (afterComment !== i) {
+      // Keep line structure so JSON.parse positions stay meaningful
+      result += text.slice(i, afterComment).replace(/[^\n]/g, ' ');
+      i = afterComment;
+      continue;
+    }
+    result += ch;
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Parse JSON text that may contain comments.
+ */
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripJsonComments(text));
+}
+
+/**
+ * Locate the root object and its top-level properties.
+ */
+function scanRoot(text: string): RootScan {
+  let i = 0;
+  const skipTrivia = (): void => {
+    for (;;) {
+      while (i < text.length && /\s/.test(text[i])) i++;
+      const next = skipComment(text, i);
+      if (next === i) return;
+      i = next;
+    }
+  };
+
+  skipTrivia();
+  if (text[i] !== '{') {
+    throw new Error('Config file must contain a JSON object');
+  }
+  const openBrace = i++;
+  const properties: PropertyRange[] = [];
+
+  for (;;) {
+    skipTrivia();
+    if (text[i] === '}') {
+      return { openBrace, closeBrace: i, properties };
+    }
+    if (text[i] === ',') {
+      i++;
+      continue;
+    }
+    if (text[i] !== '"') {
+      throw new Error(`Unexpected character '${text[i] ?? 'end of input'}' at position ${i}`);
+    }
+
+    const keyStart = i;
+    i = skipString(text, i);
+    const key = JSON.parse(text.slice(keyStart, i)) as string;
+    skipTrivia();
+    if (text[i] !== ':') {
+      throw new Error(`Expected ':' after key "${key}"`);
+    }
+    i++;
+    skipTrivia();
+
+    // Scan the value, tracking nesting so commas inside arrays/objects are ignored
+    const valueStart = i;
+    let valueEnd = i;
+    let depth = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') {
+        i = skipString(text, i);
+        valueEnd = i;
+        continue;
+      }
+      const afterComment = skipComment(text, i);
+      if (afterComment !== i) {
+        i = afterComment;
+        continue;
+      }
+      if (depth === 0 && (ch === ',' || ch === '}')) break;
+      if (ch === '{' || ch === '[') depth++;
+      if (ch === '}' || ch === ']') depth--;
+      i++;
+      if (!/\s/.test(ch)) valueEnd = i;
+    }
+
+    properties.push({ key, keyStart, valueStart, valueEnd });
+  }
+}
+
+/**
+ * Serialize a value for insertion into a config file.
+ * String arrays stay on one line; other values use standard JSON.
+ */
+function serializeValue(value: unknown): string {
+  if (Array.isArray(value) && value.every((v) => typeof v !== 'object' || v === null)) {
+    return `[${value.map((v) => JSON.stringify(v)).join(', ')}]`;
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Get the whitespace that precedes a position on its line (two spaces if the
+ * position is not the first thing on the line).
+ */
+function lineIndent(text: string, pos: number): string {
+  const lineStart = text.lastIndexOf('\n', pos - 1) + 1;
+  const prefix = text.slice(lineStart, pos);
+  return /^\s*$/.test(prefix) ? prefix : '  ';
+}
+
+/**
+ * Set a top-level property, replacing its value in place or appending it
+ * after the last property.
+ */
+export function setJsonProperty(text: string, key: string, value: unknown): string {
+  if (text.trim() === '') {
+    return JSON.stringify({ [key]: value }, null, 2) + '\n';
+  }
+
+  const scan = scanRoot(text);
+  const serialized = serializeValue(value);
+  const existing = scan.properties.find((p) => p.key === key);
+
+  if (existing) {
+    return text.slice(0, existing.valueStart) + serialized + text.slice(existing.valueEnd);
+  }
+
+  const last = scan.properties[scan.properties.length - 1];
+  if (!last) {
+    return (
+      text.slice(0, scan.openBrace) +
+      JSON.stringify({ [key]: value }, null, 2) +
+      text.slice(scan.closeBrace + 1)
+    );
+  }
+
+  const indent = lineIndent(text, last.keyStart);
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  return (
+    text.slice(0, last.valueEnd) +
+    `,${eol}${indent}${JSON.stringify(key)}: ${serialized}` +
+    text.slice(last.valueEnd)
+  );
+}
+
+/**
+ * Remove a top-level property together with its separating comma and any
+ * trailing comment on the same line. Returns the text unchanged if absent.
+ */
+export function removeJsonProperty(text: string, key: string): string {
+  if (text.trim() === '') return text;
+
+  const scan = scanRoot(text);
+  const index = scan.properties.findIndex((p) => p.key === key);
+  if (index === -1) return text;
+
+  const prop = scan.properties[index];
+  const isLast = index === scan.properties.length - 1;
+
+  // Start at the beginning of the line when the key is the first thing on it
+  const lineStart = text.lastIndexOf('\n', prop.keyStart - 1) + 1;
+  const start = /^\s*$/.test(text.slice(lineStart, prop.keyStart)) ? lineStart : prop.keyStart;
+
+  // Consume the following comma (if any)
+  let end = prop.valueEnd;
+  const afterValue = text.slice(end).match(/^\s*,/);
+  if (afterValue && !isLast) {
+    end += afterValue[0].length;
+  }
+
+  // Consume the rest of the line if only whitespace or a line comment remains
+  const restOfLine = text.slice(end).match(/^[ \t]*(\/\/[^\n]*)?(\r?\n|$)/);
+  if (restOfLine && start === lineStart) {
+    end += restOfLine[0].length;
+  }
+
+  let result = text.slice(0, start) + text.slice(end);
+
+  // Removing the last property leaves a dangling comma on the previous one
+  if (isLast && index > 0) {
+    const prev = scan.properties[index - 1];
+    const commaMatch = result.slice(prev.valueEnd).match(/^\s*,/);
+    if (commaMatch) {
+      const commaPos = prev.valueEnd + commaMatch[0].length - 1;
+      result = result.slice(0, commaPos) + result.slice(commaPos + 1);
+    }
+  }
+
+  return result;
+}
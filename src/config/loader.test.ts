@@ -0,0 +1,248 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadConfig,
+  findRepoConfigPath,
+  getGlobalConfigPath,
+  expandHomeDir,
+  ConfigError,
+} from './loader';
+
+let tmpDir: string;
+let homeDir: string;
+let repoDir: string;
+
+function writeJson(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2), 'utf-8');
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-config-test-'));
+  homeDir = path.join(tmpDir, 'home');
+  repoDir = path.join(tmpDir, 'repo');
+  fs.mkdirSync(homeDir, { recursive: true });
+  fs.mkdirSync(repoDir, { recursive: true });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('expandHomeDir', () => {
+  it('expands a leading ~', () => {
+    expect(expandHomeDir('~/.chaim/config.json', '/home/me')).toBe(path.join('/home/me', '.chaim/config.json'));
+    expect(expandHomeDir('~', '/home/me')).toBe('/home/me');
+  });
+
+  it('leaves other paths untouched', () => {
+    expect(expandHomeDir('./out', '/home/me')).toBe('./out');
+    expect(expandHomeDir('/abs/~/x', '/home/me')).toBe('/abs/~/x');
+  });
+});
+
+describe('getGlobalConfigPath', () => {
+  it('points at ~/.chaim/config.json', () => {
+    expect(getGlobalConfigPath('/home/me')).toBe(path.join('/home/me', '.chaim', 'config.json'));
+  });
+});
+
+describe('findRepoConfigPath', () => {
+  it('finds chaim.json in a parent directory', () => {
+    writeJson(path.join(repoDir, 'chaim.json'), {});
+    const nested = path.join(repoDir, 'services', 'api');
+    fs.mkdirSync(nested, { recursive: true });
+
+    expect(findRepoConfigPath(nested)).toBe(path.join(repoDir, 'chaim.json'));
+  });
+
+  it('returns undefined when no chaim.json exists', () => {
+    expect(findRepoConfigPath(repoDir)).toBeUndefined();
+  });
+});
+
+describe('loadConfig', () => {
+  it('returns defaults when no config files exist', () => {
+    const config = loadConfig({ cwd: repoDir, homeDir, env: {} });
+
+    expect(config.region).toBe('us-east-1');
+    expect(config.output).toBe('./src/main/java');
+    expect(config.language).toBe('java');
+    expect(config.isAuthenticated).toBe(false);
+    expect(config.globalConfigPath).toBeUndefined();
+    expect(config.repoConfigPath).toBeUndefined();
+    expect(config.sources).toEqual({ region: 'default', output: 'default', language: 'default' });
+  });
+
+  it('applies global defaults', () => {
+    writeJson(getGlobalConfigPath(homeDir), {
+      defaultRegion: 'eu-west-1',
+      defaultJavaPackage: 'com.global.model',
+      activeProfile: 'work',
+    });
+
+    const config = loadConfig({ cwd: repoDir, homeDir, env: {} });
+
+    expect(config.region).toBe('eu-west-1');
+    expect(config.javaPackage).toBe('com.global.model');
+    expect(config.activeProfile).toBe('work');
+    expect(config.globalConfigPath).toBe(getGlobalConfigPath(homeDir));
+    expect(config.sources.region).toBe('global');
+    expect(config.sources.javaPackage).toBe('global');
+  });
+
+  it('lets repo config override global config', () => {
+    writeJson(getGlobalConfigPath(homeDir), { defaultJavaPackage: 'com.global.model' });
+    writeJson(path.join(repoDir, 'chaim.json'), {
+      javaPackage: 'com.repo.model',
+      stackName: 'OrdersStack',
+      tables: ['Orders'],
+    });
+
+    const config = loadConfig({ cwd: repoDir, homeDir, env: {} });
+
+    expect(config.javaPackage).toBe('com.repo.model');
+    expect(config.stackName).toBe('OrdersStack');
+    expect(config.tables).toEqual(['Orders']);
+    expect(config.sources.javaPackage).toBe('repo');
+    expect(config.repoConfigPath).toBe(path.join(repoDir, 'chaim.json'));
+  });
+
+  it('resolves repo output relative to the chaim.json directory', () => {
+    writeJson(path.join(repoDir, 'chaim.json'), { output: './generated' });
+    const nested = path.join(repoDir, 'sub');
+    fs.mkdirSync(nested);
+
+    const config = loadConfig({ cwd: nested, homeDir, env: {} });
+
+    expect(config.output).toBe(path.join(repoDir, 'generated'));
+  });
+
+  it('lets environment variables override config files', () => {
+    writeJson(path.join(repoDir, 'chaim.json'), { javaPackage: 'com.repo.model' });
+
+    const config = loadConfig({
+      cwd: repoDir,
+      homeDir,
+      env: { CHAIM_JAVA_PACKAGE: 'com.env.model', CHAIM_REGION: 'ap-south-1' },
+    });
+
+    expect(config.javaPackage).toBe('com.env.model');
+    expect(config.region).toBe('ap-south-1');
+    expect(config.sources.javaPackage).toBe('env');
+  });
+
+  it('lets CLI overrides win over everything and ignores undefined values', () => {
+    writeJson(path.join(repoDir, 'chaim.json'), { javaPackage: 'com.repo.model', output: 'out' });
+
+    const config = loadConfig({
+      cwd: repoDir,
+      homeDir,
+      env: { CHAIM_JAVA_PACKAGE: 'com.env.model' },
+      cliOverrides: { javaPackage: 'com.cli.model', output: undefined },
+    });
+
+    expect(config.javaPackage).toBe('com.cli.model');
+    expect(config.sources.javaPackage).toBe('cli');
+    expect(config.output).toBe(path.join(repoDir, 'out'));
+    expect(config.sources.output).toBe('repo');
+  });
+
+  it('loads targets and resolves their output relative to chaim.json', () => {
+    writeJson(path.join(repoDir, 'chaim.json'), {
+      targets: [
+        { name: 'orders', javaPackage: 'com.orders.model', output: './services/orders/src' },
+        { name: 'billing', entities: ['Invoice'] },
+      ],
+    });
+
+    const config = loadConfig({ cwd: repoDir, homeDir, env: {} });
+
+    expect(config.targets).toEqual([
+      { name: 'orders', javaPackage: 'com.orders.model', output: path.join(repoDir, 'services', 'orders', 'src') },
+      { name: 'billing', entities: ['Invoice'], output: undefined },
+    ]);
+  });
+
+  describe('validation errors', () => {
+    it('reports invalid JSON with the file path', () => {
+      const file = path.join(repoDir, 'chaim.json');
+      fs.writeFileSync(file, '{ not json', 'utf-8');
+
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(ConfigError);
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(file);
+    });
+
+    it('reports wrong value types with file path and key', () => {
+      const file = path.join(repoDir, 'chaim.json');
+      writeJson(file, { tables: 'Orders' });
+
+      try {
+        loadConfig({ cwd: repoDir, homeDir, env: {} });
+        expect.fail('expected ConfigError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).filePath).toBe(file);
+        expect((error as ConfigError).key).toBe('tables');
+        expect((error as ConfigError).message).toContain('an array of strings');
+      }
+    });
+
+    it('rejects malformed language keys', () => {
+      writeJson(getGlobalConfigPath(homeDir), { defaultLanguage: 'Java 8' });
+
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(/defaultLanguage.*a language key/);
+    });
+
+    it('accepts plugin languages and resolves plugin paths relative to chaim.json', () => {
+      writeJson(path.join(repoDir, 'chaim.json'), {
+        language: 'kotlin',
+        generators: ['./tools/kotlin-generator.js', '@acme/chaim-generator-go'],
+      });
+
+      const config = loadConfig({ cwd: repoDir, homeDir, env: {} });
+
+      expect(config.language).toBe('kotlin');
+      expect(config.generators).toEqual([path.join(repoDir, 'tools', 'kotlin-generator.js'), '@acme/chaim-generator-go']);
+    });
+
+    it('rejects unknown keys but allows $-prefixed hints', () => {
+      writeJson(path.join(repoDir, 'chaim.json'), { $schema: './schema.json', javaPackge: 'com.typo' });
+
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(/Unknown key "javaPackge"/);
+    });
+
+    it('reports invalid target fields with an indexed key', () => {
+      writeJson(path.join(repoDir, 'chaim.json'), { targets: [{ name: 'a' }, { name: 'b', excludeTables: 'Orders' }] });
+
+      try {
+        loadConfig({ cwd: repoDir, homeDir, env: {} });
+        expect.fail('expected ConfigError');
+      } catch (error) {
+        expect((error as ConfigError).key).toBe('targets[1].excludeTables');
+        expect((error as ConfigError).message).toContain('an array of strings');
+      }
+    });
+
+    it('rejects targets without a name or with duplicate names', () => {
+      writeJson(path.join(repoDir, 'chaim.json'), { targets: [{ javaPackage: 'com.a' }] });
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(/target objects with a "name"/);
+
+      writeJson(path.join(repoDir, 'chaim.json'), { targets: [{ name: 'a' }, { name: 'a' }] });
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(/targets\[1\]\.name.*unique/);
+    });
+
+    it('rejects a non-object config file', () => {
+      writeJson(path.join(repoDir, 'chaim.json'), ['not', 'an', 'object']);
+
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: {} })).toThrow(/must contain a JSON object/);
+    });
+
+    it('rejects a malformed language from the environment', () => {
+      expect(() => loadConfig({ cwd: repoDir, homeDir, env: { CHAIM_LANGUAGE: 'C++' } }))
+        .toThrow(/CHAIM_LANGUAGE/);
+    });
+  });
+});
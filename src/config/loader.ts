@@ -0,0 +1,416 @@
+/**
+ * Configuration Loader
+ *
+ * Reads the global config (~/.chaim/config.json) and the nearest repo config
+ * (chaim.json, found by walking up from the working directory), validates
+ * every field, and merges them into a ResolvedChaimConfig.
+ *
+ * Resolution order (lowest to highest precedence):
+ *   defaults < global config < repo config < environment variables < CLI flags
+ *
+ * Each resolved value records where it came from in `sources`, so commands
+ * can explain why a given value was used.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseJsonc } from './jsonc';
+import { ConfigError } from '../errors';
+import {
+  GenerationTarget,
+  GlobalChaimConfig,
+  RepoChaimConfig,
+  ResolvedChaimConfig,
+  ResolvedConfigKey,
+  ConfigSource,
+  CONFIG_DEFAULTS,
+  CONFIG_PATHS,
+  CONFIG_ENV_VARS,
+  SUPPORTED_LANGUAGES,
+} from './types';
+
+export { ConfigError };
+
+/**
+ * Options for loading configuration.
+ */
+export interface LoadConfigOptions {
+  /** Directory to start the repo config search from (default: process.cwd()) */
+  cwd?: string;
+  /** Home directory used to locate the global config (default: os.homedir()) */
+  homeDir?: string;
+  /** Environment variables (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Values supplied as CLI flags; undefined entries are ignored */
+  cliOverrides?: Partial<Pick<ResolvedChaimConfig, ResolvedConfigKey>>;
+}
+
+/**
+ * Regex for a language key (built-in, e.g. java, or provided by a generator plugin, e.g. kotlin).
+ * Whether a generator exists for the language is checked when generating.
+ */
+export const LANGUAGE_KEY_REGEX = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Expected value kind for a config file field.
+ */
+export type ConfigFieldKind = 'string' | 'boolean' | 'stringArray' | 'language' | 'profiles' | 'targets';
+
+/**
+ * Field kinds for ~/.chaim/config.json
+ */
+export const GLOBAL_CONFIG_FIELDS: Record<keyof GlobalChaimConfig, ConfigFieldKind> = {
+  configVersion: 'string',
+  activeProfile: 'string',
+  profiles: 'profiles',
+  defaultRegion: 'string',
+  defaultJavaPackage: 'string',
+  defaultOutput: 'string',
+  defaultLanguage: 'language',
+  telemetryOptOut: 'boolean',
+};
+
+/**
+ * Field kinds for chaim.json
+ */
+export const REPO_CONFIG_FIELDS: Record<keyof RepoChaimConfig, ConfigFieldKind> = {
+  configVersion: 'string',
+  appId: 'string',
+  environment: 'string',
+  region: 'string',
+  stackName: 'string',
+  javaPackage: 'string',
+  output: 'string',
+  language: 'language',
+  tables: 'stringArray',
+  targets: 'targets',
+  generators: 'stringArray',
+};
+
+/**
+ * Field kinds for each entry of `targets` in chaim.json
+ */
+export const TARGET_CONFIG_FIELDS: Record<keyof GenerationTarget, ConfigFieldKind> = {
+  name: 'string',
+  stackName: 'string',
+  tables: 'stringArray',
+  excludeTables: 'stringArray',
+  entities: 'stringArray',
+  excludeEntities: 'stringArray',
+  language: 'language',
+  javaPackage: 'string',
+  output: 'string',
+};
+
+/**
+ * Expand a leading `~` to the user's home directory.
+ */
+export function expandHomeDir(filePath: string, homeDir: string = os.homedir()): string {
+  if (filePath === '~') return homeDir;
+  if (filePath.startsWith('~/')) return path.join(homeDir, filePath.slice(2));
+  return filePath;
+}
+
+/**
+ * Get the absolute path of the global config file.
+ */
+export function getGlobalConfigPath(homeDir: string = os.homedir()): string {
+  return expandHomeDir(CONFIG_PATHS.globalFile, homeDir);
+}
+
+/**
+ * Find the nearest chaim.json by walking up from the given directory.
+ *
+ * @returns Absolute path to chaim.json, or undefined if none exists up to the filesystem root
+ */
+export function findRepoConfigPath(startDir: string = process.cwd()): string | undefined {
+  const fileName = path.basename(CONFIG_PATHS.repoFile);
+  let dir = path.resolve(startDir);
+
+  for (;;) {
+    const candidate = path.join(dir, fileName);
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+      return candidate;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read and parse a JSON config file. `//` and `/* *\/` comments are allowed.
+ *
+ * @throws ConfigError if the file cannot be read or is not a JSON object
+ */
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${filePath}: ${error instanceof Error ? error.message : error}`,
+      filePath
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseJsonc(content);
+  } catch (error) {
+    throw new ConfigError(
+      `Invalid JSON in config file ${filePath}: ${error instanceof Error ? error.message : error}`,
+      filePath
+    );
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigError(`Config file ${filePath} must contain a JSON object`, filePath);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Check a single value against its expected kind.
+ *
+ * @returns A description of what was expected, or undefined if the value is valid
+ */
+export function checkFieldKind(value: unknown, kind: ConfigFieldKind): string | undefined {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string' ? undefined : 'a string';
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'a boolean';
+    case 'stringArray':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string')
+        ? undefined
+        : 'an array of strings';
+    case 'language':
+      return typeof value === 'string' && LANGUAGE_KEY_REGEX.test(value)
+        ? undefined
+        : `a language key (e.g., ${SUPPORTED_LANGUAGES.join(', ')})`;
+    case 'profiles':
+      return Array.isArray(value) && value.every(
+        (p) => typeof p === 'object' && p !== null && typeof (p as { name?: unknown }).name === 'string'
+      )
+        ? undefined
+        : 'an array of profile objects with a "name" string';
+    case 'targets':
+      return Array.isArray(value) && value.every(
+        (t) => typeof t === 'object' && t !== null && !Array.isArray(t) && typeof (t as { name?: unknown }).name === 'string'
+      )
+        ? undefined
+        : 'an array of target objects with a "name" string';
+  }
+}
+
+/**
+ * Validate a parsed config object against a field table.
+ *
+ * @throws ConfigError naming the file and key of the first invalid entry
+ */
+function validateFields<T>(
+  raw: Record<string, unknown>,
+  fields: Record<string, ConfigFieldKind>,
+  filePath: string,
+  keyPrefix = ''
+): T {
+  for (const [key, value] of Object.entries(raw)) {
+    // Allow editor hints such as "$schema"
+    if (key.startsWith('$')) continue;
+
+    const keyPath = `${keyPrefix}${key}`;
+    const kind = fields[key];
+    if (!kind) {
+      throw new ConfigError(
+        `Unknown key "${keyPath}" in ${filePath}. Valid keys: ${Object.keys(fields).join(', ')}`,
+        filePath,
+        keyPath
+      );
+    }
+
+    const expected = checkFieldKind(value, kind);
+    if (expected) {
+      throw new ConfigError(
+        `Invalid value for "${keyPath}" in ${filePath}: expected ${expected}, got ${JSON.stringify(value)}`,
+        filePath,
+        keyPath
+      );
+    }
+  }
+
+  return raw as T;
+}
+
+/**
+ * Validate a parsed global config object.
+ *
+ * @throws ConfigError if any field has the wrong type or is unknown
+ */
+export function validateGlobalConfig(raw: Record<string, unknown>, filePath: string): GlobalChaimConfig {
+  return validateFields<GlobalChaimConfig>(raw, GLOBAL_CONFIG_FIELDS, filePath);
+}
+
+/**
+ * Validate a parsed repo config object.
+ *
+ * @throws ConfigError if any field has the wrong type or is unknown
+ */
+export function validateRepoConfig(raw: Record<string, unknown>, filePath: string): RepoChaimConfig {
+  const config = validateFields<RepoChaimConfig>(raw, REPO_CONFIG_FIELDS, filePath);
+
+  const names = new Set<string>();
+  (config.targets ?? []).forEach((target, index) => {
+    validateFields<GenerationTarget>(
+      target as unknown as Record<string, unknown>,
+      TARGET_CONFIG_FIELDS,
+      filePath,
+      `targets[${index}].`
+    );
+    if (target.name.trim() === '' || names.has(target.name)) {
+      throw new ConfigError(
+        `Invalid value for "targets[${index}].name" in ${filePath}: target names must be non-empty and unique, got ${JSON.stringify(target.name)}`,
+        filePath,
+        `targets[${index}].name`
+      );
+    }
+    names.add(target.name);
+  });
+
+  return config;
+}
+
+/**
+ * Load and validate the global config file, if present.
+ */
+export function loadGlobalConfig(filePath: string): GlobalChaimConfig | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  return validateGlobalConfig(readConfigFile(filePath), filePath);
+}
+
+/**
+ * Load and validate a repo config file.
+ */
+export function loadRepoConfig(filePath: string): RepoChaimConfig {
+  return validateRepoConfig(readConfigFile(filePath), filePath);
+}
+
+/**
+ * Load, validate and merge all configuration sources.
+ *
+ * @throws ConfigError if a config file or environment variable holds an invalid value
+ */
+export function loadConfig(options: LoadConfigOptions = {}): ResolvedChaimConfig {
+  const homeDir = options.homeDir ?? os.homedir();
+  const env = options.env ?? process.env;
+
+  const globalConfigPath = getGlobalConfigPath(homeDir);
+  const globalConfig = loadGlobalConfig(globalConfigPath);
+
+  const repoConfigPath = findRepoConfigPath(options.cwd ?? process.cwd());
+  const repoConfig = repoConfigPath ? loadRepoConfig(repoConfigPath) : undefined;
+
+  const resolved: ResolvedChaimConfig = {
+    region: CONFIG_DEFAULTS.region!,
+    output: CONFIG_DEFAULTS.output!,
+    language: CONFIG_DEFAULTS.language!,
+    isAuthenticated: CONFIG_DEFAULTS.isAuthenticated!,
+    globalConfigPath: globalConfig ? globalConfigPath : undefined,
+    repoConfigPath,
+    sources: {
+      region: 'default',
+      output: 'default',
+      language: 'default',
+    },
+  };
+
+  const assign = <K extends ResolvedConfigKey>(
+    key: K,
+    value: ResolvedChaimConfig[K] | undefined,
+    source: ConfigSource
+  ): void => {
+    if (value === undefined) return;
+    resolved[key] = value as ResolvedChaimConfig[K];
+    resolved.sources[key] = source;
+  };
+
+  // Global config
+  if (globalConfig) {
+    assign('activeProfile', globalConfig.activeProfile, 'global');
+    assign('region', globalConfig.defaultRegion, 'global');
+    assign('javaPackage', globalConfig.defaultJavaPackage, 'global');
+    assign('output', globalConfig.defaultOutput && expandHomeDir(globalConfig.defaultOutput, homeDir), 'global');
+    assign('language', globalConfig.defaultLanguage, 'global');
+  }
+
+  // Repo config (relative output paths are anchored at the chaim.json directory)
+  if (repoConfig && repoConfigPath) {
+    assign('appId', repoConfig.appId, 'repo');
+    assign('environment', repoConfig.environment, 'repo');
+    assign('region', repoConfig.region, 'repo');
+    assign('stackName', repoConfig.stackName, 'repo');
+    assign('javaPackage', repoConfig.javaPackage, 'repo');
+    assign('output', repoConfig.output && path.resolve(path.dirname(repoConfigPath), repoConfig.output), 'repo');
+    assign('language', repoConfig.language, 'repo');
+    assign('tables', repoConfig.tables, 'repo');
+    resolved.targets = repoConfig.targets?.map((target) => ({
+      ...target,
+      output: target.output && path.resolve(path.dirname(repoConfigPath), target.output),
+    }));
+    resolved.generators = repoConfig.generators?.map((plugin) =>
+      plugin.startsWith('.') ? path.resolve(path.dirname(repoConfigPath), plugin) : plugin
+    );
+  }
+
+  // Environment variables
+  for (const [key, envVar] of Object.entries(CONFIG_ENV_VARS) as [ResolvedConfigKey, string][]) {
+    const value = env[envVar];
+    if (!value) continue;
+
+    if (key === 'language' && checkFieldKind(value, 'language')) {
+      throw new ConfigError(
+        `Invalid value for environment variable ${envVar}: expected ${checkFieldKind(value, 'language')}, got "${value}"`,
+        undefined,
+        envVar
+      );
+    }
+    assign(key, value as ResolvedChaimConfig[typeof key], 'env');
+  }
+
+  // CLI flags
+  if (options.cliOverrides) {
+    for (const [key, value] of Object.entries(options.cliOverrides) as [ResolvedConfigKey, unknown][]) {
+      assign(key, value as ResolvedChaimConfig[typeof key], 'cli');
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Describe where a resolved value came from, for display in command output.
+ *
+ * @example describeConfigSource(config, 'javaPackage') // "repo config (/work/app/chaim.json)"
+ */
+export function describeConfigSource(config: ResolvedChaimConfig, key: ResolvedConfigKey): string {
+  switch (config.sources[key]) {
+    case 'cli':
+      return 'CLI flag';
+    case 'env':
+      return `env ${CONFIG_ENV_VARS[key]}`;
+    case 'repo':
+      return `repo config (${config.repoConfigPath})`;
+    case 'global':
+      return `global config (${config.globalConfigPath})`;
+    case 'default':
+      return 'default';
+    default:
+      return 'unset';
+  }
+}
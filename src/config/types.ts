@@ -10,21 +10,22 @@
  * 2. Repo config: ./chaim.json (in project root)
  *    - Project-specific overrides
  *
- * Resolution order: Repo config values override global config values.
+ * Resolution order (lowest to highest precedence):
+ *   defaults < global config < repo config < environment variables < CLI flags
  *
- * NOTE: File I/O is not implemented yet. This module only defines types.
+ * File I/O lives in ./loader.ts. This module only defines types and constants.
  */
 
 /**
- * Supported languages for code generation.
- * Extend this union type when adding new language support.
+ * Languages with a built-in code generator.
+ * Generator plugins can add more (see src/generators/registry.ts).
  */
-export type SupportedLanguage = 'java'; // extend later: | 'typescript' | 'python'
+export type SupportedLanguage = 'java' | 'typescript' | 'python';
 
 /**
- * List of currently supported languages for code generation.
+ * List of languages with a built-in code generator.
  */
-export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['java'];
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['java', 'typescript', 'python'];
 
 /**
  * Default language for code generation when not specified.
@@ -71,13 +72,49 @@ export interface GlobalChaimConfig {
   /** Default output directory for generated code */
   defaultOutput?: string;
 
-  /** Default language for code generation (java, typescript, python) */
-  defaultLanguage?: SupportedLanguage;
+  /** Default language for code generation (java, typescript, python, or a plugin language) */
+  defaultLanguage?: string;
 
   /** Telemetry opt-out flag */
   telemetryOptOut?: boolean;
 }
 
+/**
+ * A named generation target in chaim.json.
+ *
+ * Targets let one repo generate the same snapshots into several places
+ * (e.g., two services with different packages). Values not set on a target
+ * fall back to the top-level repo/global config.
+ */
+export interface GenerationTarget {
+  /** Unique target name, used with `chaim generate --target <name>` */
+  name: string;
+
+  /** CloudFormation stack name filter */
+  stackName?: string;
+
+  /** Tables to include (table names or ARNs); all tables if omitted */
+  tables?: string[];
+
+  /** Tables to exclude (table names or ARNs) */
+  excludeTables?: string[];
+
+  /** Entities to include; all entities if omitted */
+  entities?: string[];
+
+  /** Entities to exclude */
+  excludeEntities?: string[];
+
+  /** Language for code generation */
+  language?: string;
+
+  /** Java package name for code generation */
+  javaPackage?: string;
+
+  /** Output directory for generated code (relative to chaim.json) */
+  output?: string;
+}
+
 /**
  * Repository/project configuration stored at ./chaim.json
  *
@@ -106,12 +143,38 @@ export interface RepoChaimConfig {
   output?: string;
 
   /** Language for code generation (overrides global default) */
-  language?: SupportedLanguage;
+  language?: string;
 
   /** Specific tables to include (if not all) */
   tables?: string[];
+
+  /** Named generation targets (see GenerationTarget) */
+  targets?: GenerationTarget[];
+
+  /** Generator plugins: module paths (relative to chaim.json) or package names */
+  generators?: string[];
 }
 
+/**
+ * Where a resolved configuration value came from.
+ */
+export type ConfigSource = 'default' | 'global' | 'repo' | 'env' | 'cli';
+
+/**
+ * Keys of ResolvedChaimConfig that are resolved from config sources
+ * (as opposed to bookkeeping fields like file paths).
+ */
+export type ResolvedConfigKey =
+  | 'activeProfile'
+  | 'appId'
+  | 'environment'
+  | 'region'
+  | 'stackName'
+  | 'language'
+  | 'javaPackage'
+  | 'output'
+  | 'tables';
+
 /**
  * Resolved configuration after merging global and repo configs
  *
@@ -124,6 +187,8 @@ export interface ResolvedChaimConfig {
   globalConfigPath?: string;
   /** Path to repo config file (if loaded) */
   repoConfigPath?: string;
+  /** Origin of each resolved value */
+  sources: Partial<Record<ResolvedConfigKey, ConfigSource>>;
 
   // === Authentication ===
   /** Active profile name */
@@ -145,21 +210,34 @@ export interface ResolvedChaimConfig {
 
   // === Code generation ===
   /** Language for code generation */
-  language: SupportedLanguage;
+  language: string;
   /** Java package name */
   javaPackage?: string;
   /** Output directory */
   output: string;
   /** Specific tables to include */
   tables?: string[];
+  /** Named generation targets from chaim.json (outputs resolved to absolute paths) */
+  targets?: GenerationTarget[];
+  /** Generator plugins from chaim.json (module paths resolved to absolute paths) */
+  generators?: string[];
 }
 
+/**
+ * Conventional output directory per language, used when no output is configured.
+ */
+export const DEFAULT_OUTPUT_DIRS: Record<SupportedLanguage, string> = {
+  java: './src/main/java',
+  typescript: './src/generated',
+  python: './generated',
+};
+
 /**
  * Default values for resolved configuration
  */
 export const CONFIG_DEFAULTS: Partial<ResolvedChaimConfig> = {
   region: 'us-east-1',
-  output: './src/main/java',
+  output: DEFAULT_OUTPUT_DIRS[DEFAULT_LANGUAGE],
   language: DEFAULT_LANGUAGE,
   isAuthenticated: false,
 };
@@ -176,4 +254,18 @@ export const CONFIG_PATHS = {
   repoFile: './chaim.json',
 } as const;
 
+/**
+ * Environment variables that override config file values.
+ */
+export const CONFIG_ENV_VARS: Partial<Record<ResolvedConfigKey, string>> = {
+  activeProfile: 'CHAIM_PROFILE',
+  appId: 'CHAIM_APP_ID',
+  environment: 'CHAIM_ENVIRONMENT',
+  region: 'CHAIM_REGION',
+  stackName: 'CHAIM_STACK',
+  language: 'CHAIM_LANGUAGE',
+  javaPackage: 'CHAIM_JAVA_PACKAGE',
+  output: 'CHAIM_OUTPUT',
+};
+
 
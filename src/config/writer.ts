@@ -0,0 +1,219 @@
+/**
+ * Configuration Writer
+ *
+ * Parses and validates user-supplied config values and writes config files
+ * atomically (write to a temp file in the same directory, then rename), so an
+ * interrupted write never leaves a truncated chaim.json behind.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseJsonc, removeJsonProperty, setJsonProperty } from './jsonc';
+import {
+  ConfigError,
+  ConfigFieldKind,
+  GLOBAL_CONFIG_FIELDS,
+  REPO_CONFIG_FIELDS,
+  checkFieldKind,
+  findRepoConfigPath,
+  getGlobalConfigPath,
+} from './loader';
+
+/**
+ * Which config file a value belongs to.
+ */
+export type ConfigScope = 'global' | 'repo';
+
+/**
+ * Regex for an AWS region name (e.g., us-east-1, eu-central-2, us-gov-west-1).
+ */
+export const REGION_REGEX = /^[a-z]{2}(-gov|-iso[a-z]?)?-[a-z]+-\d+$/;
+
+/**
+ * Regex for a dotted Java package name (e.g., com.mycompany.myapp.model).
+ */
+export const JAVA_PACKAGE_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*(\.[a-zA-Z_$][a-zA-Z0-9_$]*)*$/;
+
+/**
+ * Get the field table for a config scope.
+ */
+export function getConfigFields(scope: ConfigScope): Record<string, ConfigFieldKind> {
+  return scope === 'global' ? GLOBAL_CONFIG_FIELDS : REPO_CONFIG_FIELDS;
+}
+
+/**
+ * Decide which config file a write command targets.
+ *
+ * Without --global/--local, an existing chaim.json (or a git repository in the
+ * current directory) selects the repo config; otherwise the global config.
+ */
+export function resolveConfigTarget(
+  options: { global?: boolean; local?: boolean },
+  cwd: string
+): { scope: ConfigScope; filePath: string } {
+  if (options.global) {
+    return { scope: 'global', filePath: getGlobalConfigPath() };
+  }
+
+  const existingRepoConfig = findRepoConfigPath(cwd);
+  if (options.local) {
+    return { scope: 'repo', filePath: existingRepoConfig ?? path.join(cwd, 'chaim.json') };
+  }
+
+  if (existingRepoConfig) {
+    return { scope: 'repo', filePath: existingRepoConfig };
+  }
+  if (fs.existsSync(path.join(cwd, '.git'))) {
+    return { scope: 'repo', filePath: path.join(cwd, 'chaim.json') };
+  }
+  return { scope: 'global', filePath: getGlobalConfigPath() };
+}
+
+/**
+ * Check that the nearest existing ancestor of a directory is writable,
+ * so the directory can be created (or written to) at generation time.
+ *
+ * @returns An error message, or undefined if the directory is writable
+ */
+export function checkDirWritable(dir: string): string | undefined {
+  let current = path.resolve(dir);
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+
+  if (!fs.statSync(current).isDirectory()) {
+    return `${current} exists and is not a directory`;
+  }
+
+  try {
+    fs.accessSync(current, fs.constants.W_OK);
+    return undefined;
+  } catch {
+    return `${current} is not writable`;
+  }
+}
+
+/**
+ * Semantic checks beyond the type check done by the loader.
+ *
+ * @returns An error message, or undefined if the value is acceptable
+ */
+export function checkConfigValue(key: string, value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  switch (key) {
+    case 'region':
+    case 'defaultRegion':
+      return REGION_REGEX.test(value) ? undefined : `"${value}" is not a valid AWS region (e.g., us-east-1)`;
+    case 'javaPackage':
+    case 'defaultJavaPackage':
+      return JAVA_PACKAGE_REGEX.test(value) ? undefined : `"${value}" is not a valid Java package name (e.g., com.example.model)`;
+    case 'output':
+    case 'defaultOutput':
+      return checkDirWritable(value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert a string from the command line or a prompt into a typed config value.
+ *
+ * - `stringArray` values are comma-separated (`Orders,Customers`)
+ * - `boolean` values accept true/false/yes/no/1/0
+ *
+ * @throws ConfigError if the key is unknown for the scope or the value is invalid
+ */
+export function parseConfigValue(scope: ConfigScope, key: string, raw: string): unknown {
+  const fields = getConfigFields(scope);
+  const kind = fields[key];
+  if (!kind) {
+    throw new ConfigError(
+      `Unknown ${scope} config key "${key}". Valid keys: ${Object.keys(fields).join(', ')}`,
+      undefined,
+      key
+    );
+  }
+
+  let value: unknown;
+  switch (kind) {
+    case 'stringArray':
+      value = raw.split(',').map((s) => s.trim()).filter((s) => s.length > 0);
+      break;
+    case 'boolean': {
+      const normalized = raw.trim().toLowerCase();
+      if (['true', 'yes', '1'].includes(normalized)) value = true;
+      else if (['false', 'no', '0'].includes(normalized)) value = false;
+      else value = raw;
+      break;
+    }
+    case 'profiles':
+    case 'targets':
+      throw new ConfigError(`"${key}" cannot be set from the command line`, undefined, key);
+    default:
+      value = raw.trim();
+  }
+
+  const expected = checkFieldKind(value, kind);
+  if (expected) {
+    throw new ConfigError(`Invalid value for "${key}": expected ${expected}, got ${JSON.stringify(raw)}`, undefined, key);
+  }
+
+  const problem = checkConfigValue(key, value);
+  if (problem) {
+    throw new ConfigError(`Invalid value for "${key}": ${problem}`, undefined, key);
+  }
+
+  return value;
+}
+
+/**
+ * Write file content atomically, creating parent directories as needed.
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, content, 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Apply changes to a config file; a change whose value is undefined removes the key.
+ *
+ * Edits are applied to the existing text so comments, key order and formatting
+ * are preserved. If the text cannot be edited in place, the file is rewritten
+ * as plain JSON.
+ */
+export function updateConfigFile(filePath: string, changes: Record<string, unknown>): void {
+  const original = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+
+  let updated = original;
+  try {
+    for (const [key, value] of Object.entries(changes)) {
+      updated = value === undefined ? removeJsonProperty(updated, key) : setJsonProperty(updated, key, value);
+    }
+    parseJsonc(updated);
+  } catch {
+    const config = (original.trim() ? parseJsonc(original) : {}) as Record<string, unknown>;
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) {
+        delete config[key];
+      } else {
+        config[key] = value;
+      }
+    }
+    updated = JSON.stringify(config, null, 2) + '\n';
+  }
+
+  writeFileAtomic(filePath, updated);
+}
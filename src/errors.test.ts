@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ChaimError,
+  ConfigError,
+  EXIT_CODES,
+  NameCollisionError,
+  SnapshotNotFoundError,
+  getExitCode,
+} from './errors';
+
+describe('errors', () => {
+  it('should give each error type its own exit code', () => {
+    expect(new ChaimError('failed').exitCode).toBe(EXIT_CODES.ERROR);
+    expect(new ConfigError('bad region', '/repo/chaim.json', 'region').exitCode).toBe(EXIT_CODES.CONFIG);
+    expect(new SnapshotNotFoundError('No snapshot found').exitCode).toBe(EXIT_CODES.SNAPSHOT_NOT_FOUND);
+  });
+
+  it('should keep exit codes unique', () => {
+    const codes = Object.values(EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('should list each name collision as a hint', () => {
+    const error = new NameCollisionError('Order', [
+      { codeName: 'orderDate', conflictingFields: ['order-date', 'orderDate'], message: "Fields 'order-date' and 'orderDate' both resolve to 'orderDate'" },
+    ]);
+
+    expect(error).toBeInstanceOf(ChaimError);
+    expect(error.name).toBe('NameCollisionError');
+    expect(error.message).toBe("Field name collisions in entity 'Order'");
+    expect(error.hints).toEqual(["Collision: Fields 'order-date' and 'orderDate' both resolve to 'orderDate'"]);
+  });
+
+  it('should exit 1 for unexpected errors', () => {
+    expect(getExitCode(new ConfigError('bad'))).toBe(EXIT_CODES.CONFIG);
+    expect(getExitCode(new TypeError('undefined is not a function'))).toBe(EXIT_CODES.ERROR);
+    expect(getExitCode('boom')).toBe(EXIT_CODES.ERROR);
+  });
+});
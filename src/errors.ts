@@ -0,0 +1,229 @@
+/**
+ * Error types and exit codes.
+ *
+ * Commands throw a ChaimError subclass instead of calling process.exit().
+ * The top-level handler in index.ts prints the message and hints and exits
+ * with the error's exit code; with --json the code and message become part
+ * of the JSON document. Any other error is unexpected and exits with 1.
+ *
+ * ConfigError and GeneratorPluginError are also re-exported from
+ * config/loader.ts and generators/registry.ts, where they were first defined,
+ * so existing imports from those modules keep working.
+ */
+
+import { CollisionError } from './services/name-resolver';
+
+/**
+ * Process exit codes. Documented under "Exit codes" in the README; existing
+ * codes never change meaning.
+ */
+export const EXIT_CODES = {
+  /** Success */
+  SUCCESS: 0,
+  /** Unexpected error, or a failure without a more specific code */
+  ERROR: 1,
+  /** Invalid command-line usage: unknown values, conflicting or missing flags */
+  USAGE: 2,
+  /** Invalid or unreadable chaim.json or ~/.chaim/config.json */
+  CONFIG: 3,
+  /** No snapshot matched the stack, entity and table filters */
+  SNAPSHOT_NOT_FOUND: 4,
+  /** Schema file missing, not JSON, or rejected by the .bprint spec */
+  SCHEMA_INVALID: 5,
+  /** Entities bound to the same table have different partition/sort keys */
+  KEY_CONSISTENCY: 6,
+  /** Two fields resolve to the same code name */
+  NAME_COLLISION: 7,
+  /** A generator failed for one or more tables or targets */
+  GENERATOR_FAILURE: 8,
+  /** A generator plugin could not be loaded or is invalid */
+  GENERATOR_PLUGIN: 9,
+  /** generate --check found out-of-date files */
+  OUTPUT_DRIFT: 10,
+  /** A required tool or dependency is missing */
+  ENVIRONMENT: 11,
+  /** bump --check found schema changes without a large enough schemaVersion bump */
+  VERSION_NOT_BUMPED: 12,
+} as const;
+
+/**
+ * Base class for expected failures. Carries the exit code and optional hints
+ * (follow-up lines such as examples or the valid values).
+ */
+export class ChaimError extends Error {
+  readonly exitCode: number = EXIT_CODES.ERROR;
+
+  constructor(
+    message: string,
+    public readonly hints: string[] = []
+  ) {
+    super(message);
+    this.name = 'ChaimError';
+  }
+}
+
+/**
+ * Invalid command-line usage.
+ */
+export class UsageError extends ChaimError {
+  readonly exitCode = EXIT_CODES.USAGE;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Error raised when a config file cannot be read or contains invalid values.
+ * Carries the offending file path and key so callers can point users at the fix.
+ */
+export class ConfigError extends ChaimError {
+  readonly exitCode = EXIT_CODES.CONFIG;
+
+  constructor(
+    message: string,
+    public readonly filePath?: string,
+    public readonly key?: string,
+    hints: string[] = []
+  ) {
+    super(message, hints);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * No snapshot to generate from: none found, only DELETE snapshots, or none
+ * left after the entity and table filters.
+ */
+export class SnapshotNotFoundError extends ChaimError {
+  readonly exitCode = EXIT_CODES.SNAPSHOT_NOT_FOUND;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'SnapshotNotFoundError';
+  }
+}
+
+/**
+ * A schema file that is missing, not JSON, or invalid.
+ */
+export class SchemaValidationError extends ChaimError {
+  readonly exitCode = EXIT_CODES.SCHEMA_INVALID;
+
+  constructor(
+    message: string,
+    public readonly filePath?: string
+  ) {
+    super(message);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Entities bound to the same table with different partition or sort keys.
+ */
+export class KeyConsistencyError extends ChaimError {
+  readonly exitCode = EXIT_CODES.KEY_CONSISTENCY;
+
+  constructor(
+    message: string,
+    public readonly tableName: string,
+    public readonly entityName: string
+  ) {
+    super(message);
+    this.name = 'KeyConsistencyError';
+  }
+}
+
+/**
+ * Fields of an entity that resolve to the same code name. Each collision is
+ * listed as a hint.
+ */
+export class NameCollisionError extends ChaimError {
+  readonly exitCode = EXIT_CODES.NAME_COLLISION;
+
+  constructor(
+    public readonly entityName: string,
+    public readonly collisions: CollisionError[]
+  ) {
+    super(
+      `Field name collisions in entity '${entityName}'`,
+      collisions.map((collision) => `Collision: ${collision.message}`)
+    );
+    this.name = 'NameCollisionError';
+  }
+}
+
+/**
+ * Code generation failed for one or more tables or targets.
+ */
+export class GeneratorFailureError extends ChaimError {
+  readonly exitCode = EXIT_CODES.GENERATOR_FAILURE;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'GeneratorFailureError';
+  }
+}
+
+/**
+ * Error raised when a generator plugin cannot be loaded or is invalid.
+ * Carries the plugin module or package so callers can point users at the fix.
+ */
+export class GeneratorPluginError extends ChaimError {
+  readonly exitCode = EXIT_CODES.GENERATOR_PLUGIN;
+
+  constructor(
+    message: string,
+    public readonly plugin?: string
+  ) {
+    super(message);
+    this.name = 'GeneratorPluginError';
+  }
+}
+
+/**
+ * generate --check found files in the output directory that differ from
+ * freshly generated code.
+ */
+export class OutputDriftError extends ChaimError {
+  readonly exitCode = EXIT_CODES.OUTPUT_DRIFT;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'OutputDriftError';
+  }
+}
+
+/**
+ * A required tool or dependency is missing.
+ */
+export class EnvironmentError extends ChaimError {
+  readonly exitCode = EXIT_CODES.ENVIRONMENT;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'EnvironmentError';
+  }
+}
+
+/**
+ * A schema changed since its baseline but its schemaVersion was not bumped
+ * enough for those changes.
+ */
+export class VersionNotBumpedError extends ChaimError {
+  readonly exitCode = EXIT_CODES.VERSION_NOT_BUMPED;
+
+  constructor(message: string, hints: string[] = []) {
+    super(message, hints);
+    this.name = 'VersionNotBumpedError';
+  }
+}
+
+/**
+ * Get the exit code for an error: the ChaimError's own code, otherwise 1.
+ */
+export function getExitCode(error: unknown): number {
+  return error instanceof ChaimError ? error.exitCode : EXIT_CODES.ERROR;
+}
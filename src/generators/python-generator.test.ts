@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { PythonGenerator } from './python-generator';
+import { SchemaData, TableMetadata } from '../types';
+
+// Minimal stand-in for the boto3 modules imported by the generated code
+const BOTO3_STUB = {
+  '__init__.py': 'def resource(*args, **kwargs):\n    raise RuntimeError("not available in tests")\n',
+  'dynamodb/__init__.py': '',
+  'dynamodb/conditions.py': [
+    'class Key:',
+    '    def __init__(self, name):',
+    '        self.name = name',
+    '    def eq(self, value):',
+    '        return ("eq", self.name, value)',
+    '',
+  ].join('\n'),
+};
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+
+const orderSchema: SchemaData = {
+  schemaVersion: '1.0',
+  entityName: 'Order',
+  description: 'Customer order',
+  primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' },
+  fields: [
+    { name: 'orderId', type: 'string', required: true },
+    { name: 'createdAt', type: 'timestamp', required: true },
+    { name: 'customer-id', type: 'string', required: true },
+    { name: 'total', type: 'number' },
+    { name: 'status', type: 'string', enum: ['PENDING', 'SHIPPED'] },
+    { name: 'tags', type: 'stringSet' },
+    { name: 'scores', type: 'numberSet' },
+    { name: 'shipping', type: 'map', fields: [{ name: 'street', type: 'string' }, { name: 'zipCode', type: 'string' }] },
+    { name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'sku', type: 'string' }, { name: 'qty', type: 'number' }] } },
+    { name: 'notes', type: 'list', items: { type: 'string' } },
+  ],
+};
+
+const orderItemSchema: SchemaData = {
+  schemaVersion: '1.0',
+  entityName: 'OrderItem',
+  description: 'Line item stored with its order',
+  primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' },
+  fields: [
+    { name: 'orderId', type: 'string', required: true },
+    { name: 'createdAt', type: 'timestamp', required: true },
+    { name: 'quantity', type: 'number', required: true },
+  ],
+};
+
+const ordersTable: TableMetadata = {
+  tableName: 'orders-table',
+  tableArn: 'arn:aws:dynamodb:us-east-1:123456789012:table/orders-table',
+  region: 'us-east-1',
+  partitionKey: 'orderId',
+  sortKey: 'createdAt',
+  globalSecondaryIndexes: [
+    { indexName: 'customer-index', partitionKey: 'customer-id', sortKey: 'total', projectionType: 'ALL' },
+  ],
+  localSecondaryIndexes: [
+    { indexName: 'status-index', sortKey: 'status', projectionType: 'ALL' },
+  ],
+};
+
+let tmpDir: string;
+let outputDir: string;
+
+function read(fileName: string): string {
+  return fs.readFileSync(path.join(outputDir, fileName), 'utf-8');
+}
+
+/**
+ * Run a Python script with the generated package (as `models`) and the boto3 stub importable.
+ */
+function runPython(script: string): { status: number | null; output: string } {
+  for (const [file, content] of Object.entries(BOTO3_STUB)) {
+    const stubPath = path.join(tmpDir, 'boto3', file);
+    fs.mkdirSync(path.dirname(stubPath), { recursive: true });
+    fs.writeFileSync(stubPath, content);
+  }
+  const result = spawnSync('python3', ['-c', script], { cwd: tmpDir, encoding: 'utf-8' });
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+describe('PythonGenerator', () => {
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-py-generator-test-'));
+    outputDir = path.join(tmpDir, 'models');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should write entity modules, the runtime and one repository per table', async () => {
+    const files = await new PythonGenerator().generateForTable([orderSchema, orderItemSchema], outputDir, ordersTable);
+
+    expect(files.map((f) => path.basename(f)).sort()).toEqual([
+      '__init__.py',
+      'chaim_runtime.py',
+      'order.py',
+      'order_item.py',
+      'orders_table_repository.py',
+    ]);
+  });
+
+  it('should not overwrite an existing __init__.py', async () => {
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, '__init__.py'), 'from .order import Order\n');
+
+    const files = await new PythonGenerator().generateForTable([orderSchema], outputDir, ordersTable);
+
+    // Not reported either, so it never ends up in the manifest or gets pruned as an orphan
+    expect(files.map((f) => path.basename(f))).not.toContain('__init__.py');
+    expect(read('__init__.py')).toBe('from .order import Order\n');
+  });
+
+  it('should generate dataclasses with snake_case fields and nested models', async () => {
+    await new PythonGenerator().generateForTable([orderSchema], outputDir, ordersTable);
+    const order = read('order.py');
+
+    expect(order).toContain('@dataclass\nclass Order:');
+    expect(order).toContain('    order_id: str\n    created_at: str\n    customer_id: str\n');
+    expect(order).toContain('    total: Optional[Decimal] = None');
+    expect(order).toContain('    status: Optional[Literal["PENDING", "SHIPPED"]] = None');
+    expect(order).toContain('    tags: Optional[Set[str]] = None');
+    expect(order).toContain('    scores: Optional[Set[Decimal]] = None');
+    expect(order).toContain('    shipping: Optional[OrderShipping] = None');
+    expect(order).toContain('    lines: Optional[List[OrderLinesItem]] = None');
+    expect(order).toContain('    notes: Optional[List[str]] = None');
+    expect(order).toContain('class OrderShipping:');
+    expect(order).toContain('    zip_code: Optional[str] = None');
+    expect(order).toContain('"customer-id": self.customer_id,');
+    expect(order).toContain('customer_id=item["customer-id"],');
+    // Nested classes are defined before the entity that references them
+    expect(order.indexOf('class OrderShipping:')).toBeLessThan(order.indexOf('class Order:'));
+  });
+
+  it('should escape Python keywords in attribute and parameter names', async () => {
+    await new PythonGenerator().generateForTable(
+      [{ ...orderItemSchema, fields: [...orderItemSchema.fields, { name: 'from', type: 'string' }] }],
+      outputDir,
+      { ...ordersTable, globalSecondaryIndexes: [{ indexName: 'from-index', partitionKey: 'from', projectionType: 'ALL' }] }
+    );
+
+    expect(read('order_item.py')).toContain('    from_: Optional[str] = None');
+    expect(read('order_item.py')).toContain('"from": self.from_,');
+    expect(read('orders_table_repository.py')).toContain('def query_by_from_index(self, from_: str)');
+  });
+
+  it('should generate pydantic models when requested', async () => {
+    await new PythonGenerator({ modelStyle: 'pydantic' }).generateForTable([orderSchema], outputDir, ordersTable);
+    const order = read('order.py');
+
+    expect(order).toContain('from pydantic import BaseModel');
+    expect(order).toContain('class Order(BaseModel):');
+    expect(order).toContain('class OrderShipping(BaseModel):');
+    expect(order).not.toContain('@dataclass');
+  });
+
+  it('should not give pydantic fields a leading underscore, which would make them private', async () => {
+    const schema: SchemaData = { ...orderItemSchema, fields: [...orderItemSchema.fields, { name: '2fa', type: 'boolean' }] };
+
+    await new PythonGenerator({ modelStyle: 'pydantic' }).generateForTable([schema], outputDir, ordersTable);
+    const orderItem = read('order_item.py');
+
+    expect(orderItem).toContain('    field_2fa: Optional[bool] = None');
+    expect(orderItem).toContain('"2fa": self.field_2fa,');
+    expect(orderItem).toContain('field_2fa=item.get("2fa"),');
+    expect(orderItem).not.toMatch(/^\s+_\w+:/m);
+  });
+
+  it('should generate a key builder and index query helpers', async () => {
+    await new PythonGenerator().generateForTable([orderSchema, orderItemSchema], outputDir, ordersTable);
+
+    expect(read('order.py')).toContain(
+      'def order_key(order_id: str, created_at: str) -> Dict[str, Any]:\n' +
+      '    """Build the primary key of a Order item (DynamoDB attribute names)."""\n' +
+      '    return {"orderId": order_id, "createdAt": created_at}'
+    );
+
+    const repository = read('orders_table_repository.py');
+    expect(repository).toContain('ORDERS_TABLE: Dict[str, Any] = {');
+    expect(repository).toContain(
+      'def query_by_customer_index(self, customer_id: str, total: Optional[Decimal] = None) -> List[Order]:'
+    );
+    expect(repository).toContain('return self._query("customer-index", "customer-id", customer_id, "total", total)');
+    expect(repository).toContain(
+      'def query_by_status_index(self, order_id: str, status: Optional[str] = None) -> List[Order]:'
+    );
+    expect(repository).toContain('        self.order = OrderRepository(table)\n        self.order_item = OrderItemRepository(table)');
+  });
+
+  it('should omit the partition-key query for tables without a sort key', async () => {
+    await new PythonGenerator().generateForTable(
+      [orderItemSchema],
+      outputDir,
+      { tableName: 'Items', tableArn: 'arn', region: 'us-east-1', partitionKey: 'orderId' }
+    );
+
+    expect(read('items_table_repository.py')).not.toContain('query_by_partition_key');
+    expect(read('order_item.py')).toContain('def order_item_key(order_id: str) -> Dict[str, Any]:');
+  });
+
+  it.skipIf(!hasPython)('should produce importable code that round-trips items', async () => {
+    await new PythonGenerator().generateForTable([orderSchema, orderItemSchema], outputDir, ordersTable);
+
+    const result = runPython([
+      'from decimal import Decimal',
+      'from models.order import Order',
+      'from models.orders_table_repository import OrdersTableRepository',
+      'item = {"orderId": "o1", "createdAt": "2024-01-01", "customer-id": "c1", "total": Decimal("9.5"),',
+      '        "shipping": {"zipCode": "12345"}, "lines": [{"sku": "A", "qty": Decimal(2)}], "tags": {"x"}}',
+      'order = Order.from_item(item)',
+      'assert order.customer_id == "c1" and order.shipping.zip_code == "12345", order',
+      'assert order.lines[0].sku == "A", order',
+      'assert order.to_item() == item, order.to_item()',
+      'class FakeTable:',
+      '    def query(self, **kwargs):',
+      '        return {"Items": [item]}',
+      'repository = OrdersTableRepository(FakeTable())',
+      'assert repository.order.query_by_customer_index("c1")[0] == order',
+      'print("ok")',
+    ].join('\n'));
+
+    expect(result.output).toContain('ok');
+    expect(result.status).toBe(0);
+  });
+});
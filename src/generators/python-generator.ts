@@ -0,0 +1,527 @@
+/**
+ * Python code generator.
+ *
+ * Produces dataclass (or pydantic) models and a boto3 Table-resource
+ * repository for each DynamoDB table, from the same SchemaData + TableMetadata
+ * that are passed to the other generators. Entities that share a table are
+ * generated together, so each table gets one repository exposing a typed
+ * repository per entity.
+ *
+ * Output layout (for a table `Orders` with `Order` and `OrderItem` entities):
+ *
+ *   {output}/
+ *   ├── __init__.py                  # Created if missing (never overwritten)
+ *   ├── chaim_runtime.py             # Shared boto3 repository base class
+ *   ├── order.py                     # Order model, nested models, order_key()
+ *   ├── order_item.py
+ *   └── orders_table_repository.py   # Table constants, OrderRepository, OrderItemRepository
+ *
+ * Attribute names are converted to snake_case; `to_item()` / `from_item()`
+ * map them back to DynamoDB attribute names (including nested maps). Numbers
+ * use `Decimal`, as required by the boto3 resource API.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaData, SchemaField, TableMetadata } from '../types';
+import { resolveFieldNames, toSnakeCase } from '../services/name-resolver';
+import { toConstantCase, toPascalCase } from '../services/naming';
+
+/**
+ * Model base for generated Python classes.
+ */
+export type PythonModelStyle = 'dataclass' | 'pydantic';
+
+/**
+ * Supported model styles.
+ */
+export const PYTHON_MODEL_STYLES: PythonModelStyle[] = ['dataclass', 'pydantic'];
+
+/**
+ * Options for Python generation.
+ */
+export interface PythonGeneratorOptions {
+  /** Model base class (default: dataclass) */
+  modelStyle?: PythonModelStyle;
+}
+
+/**
+ * Header written at the top of every generated file.
+ */
+const GENERATED_HEADER = '# Generated by chaim-cli from .bprint schemas. Do not edit.\n';
+
+/**
+ * Module name of the shared runtime.
+ */
+const RUNTIME_MODULE = 'chaim_runtime';
+
+/**
+ * Shared runtime written alongside the generated models.
+ */
+const RUNTIME_SOURCE = `${GENERATED_HEADER}
+from typing import Any, Callable, Dict, Generic, List, Optional, TypeVar
+
+from boto3.dynamodb.conditions import Key
+
+T = TypeVar("T")
+
+
+class ChaimEntityRepository(Generic[T]):
+    """Base repository for one entity stored in a DynamoDB table (boto3 Table resource)."""
+
+    def __init__(
+        self,
+        table: Any,
+        to_item: Callable[[T], Dict[str, Any]],
+        from_item: Callable[[Dict[str, Any]], T],
+    ) -> None:
+        self._table = table
+        self._to_item = to_item
+        self._from_item = from_item
+
+    def save(self, entity: T) -> None:
+        """Write an entity, replacing any existing item with the same key."""
+        self._table.put_item(Item=self._to_item(entity))
+
+    def find_by_key(self, key: Dict[str, Any]) -> Optional[T]:
+        """Read an entity by its primary key."""
+        item = self._table.get_item(Key=key).get("Item")
+        return self._from_item(item) if item is not None else None
+
+    def delete_by_key(self, key: Dict[str, Any]) -> None:
+        """Delete an entity by its primary key."""
+        self._table.delete_item(Key=key)
+
+    def _query(
+        self,
+        index_name: Optional[str],
+        partition_key: str,
+        partition_value: Any,
+        sort_key: Optional[str] = None,
+        sort_value: Any = None,
+    ) -> List[T]:
+        """Query the table or an index by partition key, optionally matching a sort key value.
+
+        Follows pagination until all matching items have been read.
+        """
+        condition = Key(partition_key).eq(partition_value)
+        if sort_key is not None and sort_value is not None:
+            condition = condition & Key(sort_key).eq(sort_value)
+
+        kwargs: Dict[str, Any] = {"KeyConditionExpression": condition}
+        if index_name is not None:
+            kwargs["IndexName"] = index_name
+
+        entities: List[T] = []
+        while True:
+            response = self._table.query(**kwargs)
+            entities.extend(self._from_item(item) for item in response.get("Items", []))
+            last_key = response.get("LastEvaluatedKey")
+            if last_key is None:
+                return entities
+            kwargs["ExclusiveStartKey"] = last_key
+`;
+
+/**
+ * Render a Python string literal.
+ */
+function pyString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * Render a docstring at the given indentation.
+ */
+function docstring(text: string, indent: string): string {
+  return `${indent}"""${text.replace(/\\/g, '\\\\').replace(/"""/g, '\\"\\"\\"')}"""\n`;
+}
+
+/**
+ * Map a scalar .bprint type to a Python type.
+ */
+function scalarType(type: string): string {
+  switch (type) {
+    case 'string':
+    case 'timestamp':
+      return 'str';
+    case 'number':
+      return 'Decimal';
+    case 'boolean':
+      return 'bool';
+    default:
+      return 'Any';
+  }
+}
+
+/**
+ * How a field value is converted between model and item.
+ */
+type Conversion =
+  | { kind: 'plain' }
+  | { kind: 'model'; className: string }
+  | { kind: 'modelList'; className: string };
+
+/**
+ * A rendered model attribute.
+ */
+interface ModelAttribute {
+  attribute: string;
+  name: string;
+  type: string;
+  required: boolean;
+  description?: string;
+  conversion: Conversion;
+}
+
+/**
+ * Collects model classes for one module, nested classes first.
+ */
+class ModelWriter {
+  readonly classes: string[] = [];
+
+  constructor(private readonly style: PythonModelStyle) {}
+
+  /**
+   * Render a model class for a set of fields and return its attributes.
+   */
+  addModel(className: string, fields: SchemaField[], description: string): void {
+    const resolved = resolveFieldNames(fields, 'python');
+    const attributes: ModelAttribute[] = fields.map((field, i) => {
+      const { type, conversion } = this.fieldType(field, `${className}${toPascalCase(field.name)}`);
+      return {
+        attribute: field.name,
+        name: resolved[i].codeName,
+        type,
+        required: !!field.required,
+        description: field.description,
+        conversion,
+      };
+    });
+
+    // Dataclass fields without defaults must come before fields with defaults
+    const ordered = [...attributes.filter((a) => a.required), ...attributes.filter((a) => !a.required)];
+
+    const base = this.style === 'pydantic' ? '(BaseModel)' : '';
+    const decorator = this.style === 'dataclass' ? '@dataclass\n' : '';
+    const body = ordered.map((a) => {
+      const comment = a.description ? `  # ${a.description.replace(/\s+/g, ' ')}` : '';
+      return a.required
+        ? `    ${a.name}: ${a.type}${comment}`
+        : `    ${a.name}: Optional[${a.type}] = None${comment}`;
+    });
+
+    const toItem = attributes.map((a) => `            ${pyString(a.attribute)}: ${this.toItemExpr(a)},`);
+    const fromItem = attributes.map((a) => `            ${a.name}=${this.fromItemExpr(a)},`);
+
+    this.classes.push(
+      `${decorator}class ${className}${base}:\n` +
+      docstring(description, '    ') +
+      '\n' +
+      (body.length > 0 ? `${body.join('\n')}\n\n` : '') +
+      '    def to_item(self) -> Dict[str, Any]:\n' +
+      '        """Convert to a DynamoDB item (attribute names), omitting unset values."""\n' +
+      `        item: Dict[str, Any] = {${toItem.length > 0 ? `\n${toItem.join('\n')}\n        ` : ''}}\n` +
+      '        return {key: value for key, value in item.items() if value is not None}\n' +
+      '\n' +
+      '    @classmethod\n' +
+      `    def from_item(cls, item: Dict[str, Any]) -> "${className}":\n` +
+      '        """Create from a DynamoDB item."""\n' +
+      `        return cls(${fromItem.length > 0 ? `\n${fromItem.join('\n')}\n        ` : ''})\n`
+    );
+  }
+
+  /**
+   * Map a field to its Python type, adding nested model classes as needed.
+   */
+  private fieldType(field: SchemaField, nestedName: string): { type: string; conversion: Conversion } {
+    switch (field.type) {
+      case 'string':
+        return {
+          type: field.enum && field.enum.length > 0 ? `Literal[${field.enum.map(pyString).join(', ')}]` : 'str',
+          conversion: { kind: 'plain' },
+        };
+      case 'stringSet':
+        return { type: 'Set[str]', conversion: { kind: 'plain' } };
+      case 'numberSet':
+        return { type: 'Set[Decimal]', conversion: { kind: 'plain' } };
+      case 'map':
+        this.addModel(nestedName, field.fields ?? [], `Nested map \`${field.name}\`.`);
+        return { type: nestedName, conversion: { kind: 'model', className: nestedName } };
+      case 'list':
+        if (field.items?.type === 'map') {
+          const itemName = `${nestedName}Item`;
+          this.addModel(itemName, field.items.fields ?? [], `Item of list \`${field.name}\`.`);
+          return { type: `List[${itemName}]`, conversion: { kind: 'modelList', className: itemName } };
+        }
+        return { type: `List[${scalarType(field.items?.type ?? 'string')}]`, conversion: { kind: 'plain' } };
+      default:
+        return { type: scalarType(field.type), conversion: { kind: 'plain' } };
+    }
+  }
+
+  private toItemExpr(a: ModelAttribute): string {
+    const value = `self.${a.name}`;
+    switch (a.conversion.kind) {
+      case 'model':
+        return a.required ? `${value}.to_item()` : `${value}.to_item() if ${value} is not None else None`;
+      case 'modelList':
+        return a.required
+          ? `[v.to_item() for v in ${value}]`
+          : `[v.to_item() for v in ${value}] if ${value} is not None else None`;
+      default:
+        return value;
+    }
+  }
+
+  private fromItemExpr(a: ModelAttribute): string {
+    const key = pyString(a.attribute);
+    const value = a.required ? `item[${key}]` : `item.get(${key})`;
+    switch (a.conversion.kind) {
+      case 'model':
+        return a.required
+          ? `${a.conversion.className}.from_item(${value})`
+          : `${a.conversion.className}.from_item(${value}) if ${value} is not None else None`;
+      case 'modelList':
+        return a.required
+          ? `[${a.conversion.className}.from_item(v) for v in ${value}]`
+          : `[${a.conversion.className}.from_item(v) for v in ${value}] if ${value} is not None else None`;
+      default:
+        return value;
+    }
+  }
+}
+
+/**
+ * Key attribute description used for key builders and query helpers.
+ */
+interface KeyAttribute {
+  /** DynamoDB attribute name */
+  attribute: string;
+  /** Parameter name in generated code */
+  param: string;
+  /** Python type of the key value */
+  type: string;
+}
+
+/**
+ * Describe a key attribute using the entity's field definition when present.
+ */
+function keyAttribute(schema: SchemaData, attribute: string): KeyAttribute {
+  const field = schema.fields.find((f) => f.name === attribute);
+  const [resolved] = resolveFieldNames([field ?? { name: attribute }], 'python');
+  return {
+    attribute,
+    param: resolved.codeName,
+    type: field?.type === 'number' ? 'Decimal' : 'str',
+  };
+}
+
+/**
+ * Render the module for one entity.
+ */
+function renderEntityModule(schema: SchemaData, table: TableMetadata, style: PythonModelStyle): string {
+  const entity = schema.entityName;
+  const writer = new ModelWriter(style);
+  writer.addModel(entity, schema.fields, `${schema.description || `${entity} entity`} (table: ${table.tableName})`);
+
+  // Nested models are added before the class that references them; the entity comes last
+  const classes = [...writer.classes];
+
+  const partitionKey = keyAttribute(schema, table.partitionKey);
+  const sortKey = table.sortKey ? keyAttribute(schema, table.sortKey) : undefined;
+  const keyAttributes = sortKey ? [partitionKey, sortKey] : [partitionKey];
+
+  const stdlibImports = [
+    ...(style === 'dataclass' ? ['from dataclasses import dataclass'] : []),
+    'from decimal import Decimal',
+    'from typing import Any, Dict, List, Literal, Optional, Set  # noqa: F401',
+  ];
+  const imports = style === 'pydantic'
+    ? `${stdlibImports.join('\n')}\n\nfrom pydantic import BaseModel\n`
+    : `${stdlibImports.join('\n')}\n`;
+
+  return `${GENERATED_HEADER}
+${imports}
+
+${classes.join('\n\n')}
+
+def ${toSnakeCase(entity)}_key(${keyAttributes.map((k) => `${k.param}: ${k.type}`).join(', ')}) -> Dict[str, Any]:
+    """Build the primary key of a ${entity} item (DynamoDB attribute names)."""
+    return {${keyAttributes.map((k) => `${pyString(k.attribute)}: ${k.param}`).join(', ')}}
+`;
+}
+
+/**
+ * Render the query helper for the table's partition key or one index.
+ */
+function renderQueryMethod(
+  entity: string,
+  methodName: string,
+  description: string,
+  indexName: string | undefined,
+  partitionKey: KeyAttribute,
+  sortKey?: KeyAttribute
+): string {
+  const params = ['self', `${partitionKey.param}: ${partitionKey.type}`];
+  const args = [indexName ? pyString(indexName) : 'None', pyString(partitionKey.attribute), partitionKey.param];
+  if (sortKey) {
+    params.push(`${sortKey.param}: Optional[${sortKey.type}] = None`);
+    args.push(pyString(sortKey.attribute), sortKey.param);
+  }
+
+  return `    def ${methodName}(${params.join(', ')}) -> List[${entity}]:
+${docstring(description, '        ')}        return self._query(${args.join(', ')})
+`;
+}
+
+/**
+ * Render the repository class for one entity.
+ */
+function renderEntityRepository(schema: SchemaData, table: TableMetadata): string {
+  const entity = schema.entityName;
+  const partitionKey = keyAttribute(schema, table.partitionKey);
+  const sortKey = table.sortKey ? keyAttribute(schema, table.sortKey) : undefined;
+
+  const methods: string[] = [];
+  if (sortKey) {
+    methods.push(renderQueryMethod(
+      entity,
+      'query_by_partition_key',
+      `Query ${entity} items by partition key (${partitionKey.attribute}), optionally matching the sort key.`,
+      undefined,
+      partitionKey,
+      sortKey
+    ));
+  }
+  for (const gsi of table.globalSecondaryIndexes ?? []) {
+    methods.push(renderQueryMethod(
+      entity,
+      `query_by_${toSnakeCase(gsi.indexName)}`,
+      `Query GSI ${gsi.indexName} (partition key ${gsi.partitionKey}${gsi.sortKey ? `, sort key ${gsi.sortKey}` : ''}).`,
+      gsi.indexName,
+      keyAttribute(schema, gsi.partitionKey),
+      gsi.sortKey ? keyAttribute(schema, gsi.sortKey) : undefined
+    ));
+  }
+  for (const lsi of table.localSecondaryIndexes ?? []) {
+    // LSIs always share the table's partition key
+    methods.push(renderQueryMethod(
+      entity,
+      `query_by_${toSnakeCase(lsi.indexName)}`,
+      `Query LSI ${lsi.indexName} (partition key ${table.partitionKey}, sort key ${lsi.sortKey}).`,
+      lsi.indexName,
+      partitionKey,
+      keyAttribute(schema, lsi.sortKey)
+    ));
+  }
+
+  return `class ${entity}Repository(ChaimEntityRepository[${entity}]):
+    """Repository for ${entity} items."""
+
+    def __init__(self, table: Any) -> None:
+        super().__init__(table, ${entity}.to_item, ${entity}.from_item)
+${methods.map((method) => `\n${method}`).join('')}`;
+}
+
+/**
+ * Render the repository module for a table and all entities bound to it.
+ */
+function renderTableModule(schemas: SchemaData[], table: TableMetadata, baseName: string): string {
+  const tableConstant = toConstantCase(baseName);
+  const imports = schemas.map((schema) => `from .${toSnakeCase(schema.entityName)} import ${schema.entityName}`);
+
+  const indexNames = [
+    ...(table.globalSecondaryIndexes ?? []).map((index) => index.indexName),
+    ...(table.localSecondaryIndexes ?? []).map((index) => index.indexName),
+  ];
+
+  const tableInfo = [
+    `    "table_name": ${pyString(table.tableName)},`,
+    `    "table_arn": ${pyString(table.tableArn)},`,
+    `    "region": ${pyString(table.region)},`,
+    `    "partition_key": ${pyString(table.partitionKey)},`,
+    ...(table.sortKey ? [`    "sort_key": ${pyString(table.sortKey)},`] : []),
+    `    "indexes": {${indexNames.map((name) => `\n        ${pyString(toSnakeCase(name))}: ${pyString(name)},`).join('')}${indexNames.length > 0 ? '\n    ' : ''}},`,
+  ];
+
+  const assignments = schemas.map(
+    (schema) => `        self.${toSnakeCase(schema.entityName)} = ${schema.entityName}Repository(table)`
+  );
+
+  return `${GENERATED_HEADER}
+from decimal import Decimal
+from typing import Any, Dict, List, Optional  # noqa: F401
+
+import boto3
+
+from .${RUNTIME_MODULE} import ChaimEntityRepository
+${imports.join('\n')}
+
+${tableConstant}: Dict[str, Any] = {
+${tableInfo.join('\n')}
+}
+
+
+${schemas.map((schema) => renderEntityRepository(schema, table)).join('\n\n')}
+
+class ${baseName}Repository:
+    """Repositories for every entity stored in table ${table.tableName}."""
+
+    def __init__(self, table: Any = None) -> None:
+        if table is None:
+            table = boto3.resource("dynamodb", region_name=${tableConstant}["region"]).Table(${tableConstant}["table_name"])
+${assignments.join('\n')}
+`;
+}
+
+/**
+ * Generates Python source files for DynamoDB tables.
+ */
+export class PythonGenerator {
+  constructor(private readonly options: PythonGeneratorOptions = {}) {}
+
+  /**
+   * Generate model modules and a table repository for all entities bound to one table.
+   *
+   * @returns Absolute paths of the generated files, including an existing __init__.py
+   *          (kept as-is, but still part of the generated package)
+   */
+  async generateForTable(
+    schemas: SchemaData[],
+    outputDir: string,
+    tableMetadata: TableMetadata
+  ): Promise<string[]> {
+    const dir = path.resolve(outputDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const style = this.options.modelStyle ?? 'dataclass';
+    // "Orders" and "orders-table" both become OrdersTable (orders_table_repository.py, ORDERS_TABLE)
+    const pascalName = toPascalCase(tableMetadata.tableName);
+    const baseName = pascalName.endsWith('Table') ? pascalName : `${pascalName}Table`;
+
+    const files: [string, string][] = [
+      [`${RUNTIME_MODULE}.py`, RUNTIME_SOURCE],
+      ...schemas.map((schema): [string, string] => [
+        `${toSnakeCase(schema.entityName)}.py`,
+        renderEntityModule(schema, tableMetadata, style),
+      ]),
+      [`${toSnakeCase(baseName)}_repository.py`, renderTableModule(schemas, tableMetadata, baseName)],
+    ];
+
+    // A hand-written __init__.py is left alone and not reported, so it never becomes an orphan
+    const initPath = path.join(dir, '__init__.py');
+    const written: string[] = [];
+    if (!fs.existsSync(initPath)) {
+      fs.writeFileSync(initPath, GENERATED_HEADER, 'utf-8');
+      written.push(initPath);
+    } else if (fs.readFileSync(initPath, 'utf-8').startsWith(GENERATED_HEADER)) {
+      written.push(initPath);
+    }
+    for (const [fileName, content] of files) {
+      const filePath = path.join(dir, fileName);
+      fs.writeFileSync(filePath, content, 'utf-8');
+      written.push(filePath);
+    }
+    return written;
+  }
+}
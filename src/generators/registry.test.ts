@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JavaGenerator } from '@chaim-tools/client-java';
+import {
+  BUILT_IN_GENERATORS,
+  GeneratorPluginError,
+  applyEscapedNames,
+  discoverGeneratorPackages,
+  loadGenerators,
+} from './registry';
+import { SchemaData } from '../types';
+
+vi.mock('@chaim-tools/client-java', () => ({
+  JavaGenerator: vi.fn(),
+}));
+
+/**
+ * Source of a plugin module exporting generators for the given languages.
+ */
+function pluginSource(...languages: string[]): string {
+  const generators = languages.map((language) =>
+    `{ name: '${language} generator', language: '${language}', naming: { convert: (n) => n }, generateForTable: async () => {} }`
+  );
+  return languages.length === 1
+    ? `module.exports = ${generators[0]};`
+    : `exports.generators = [${generators.join(', ')}];`;
+}
+
+/**
+ * Write an installed npm package exporting generators.
+ */
+function writePackage(nodeModules: string, name: string, ...languages: string[]): void {
+  const dir = path.join(nodeModules, name);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name, main: 'index.js' }));
+  fs.writeFileSync(path.join(dir, 'index.js'), pluginSource(...languages));
+}
+
+describe('generator registry', () => {
+  let tmpDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-registry-test-'));
+    projectDir = path.join(tmpDir, 'project');
+    fs.mkdirSync(projectDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should contain the built-in generators', () => {
+    const generators = loadGenerators({ projectDir });
+
+    expect([...generators.keys()]).toEqual(['java', 'typescript', 'python']);
+    expect(generators.get('java')).toBe(BUILT_IN_GENERATORS[0]);
+    expect(generators.get('java')?.requiresPackage).toBe(true);
+    expect(generators.get('python')?.entityFileName?.('OrderItem')).toBe('order_item.py');
+  });
+
+  it('should pass escaped reserved words to the Java generator as nameOverride', async () => {
+    const generateForTable = vi.fn().mockResolvedValue(undefined);
+    vi.mocked(JavaGenerator).mockImplementation(() => ({ generateForTable }) as unknown as JavaGenerator);
+    const schema: SchemaData = {
+      schemaVersion: '1.0',
+      entityName: 'Order',
+      description: 'Order entity',
+      primaryKey: { partitionKey: 'orderId' },
+      fields: [{ name: 'orderId', type: 'string' }, { name: 'class', type: 'string' }],
+    };
+    const table = { tableName: 'Orders', tableArn: 'arn', region: 'us-east-1', partitionKey: 'orderId' };
+    const java = loadGenerators({ projectDir }).get('java');
+    if (!java) throw new Error('The java generator is not registered');
+
+    await java.generateForTable(
+      [schema],
+      { output: './out', package: 'com.example', settings: {} },
+      table
+    );
+
+    expect(generateForTable).toHaveBeenCalledWith(
+      [expect.objectContaining({ fields: [schema.fields[0], { name: 'class', type: 'string', nameOverride: 'class_' }] })],
+      'com.example',
+      './out',
+      table
+    );
+    // Nested reserved words are pinned too
+    const nested = applyEscapedNames(
+      [{ ...schema, fields: [{ name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'new', type: 'string' }] } }] }],
+      { convert: (n) => n, reservedWords: ['new'] }
+    );
+    expect(nested[0].fields[0].items?.fields).toEqual([{ name: 'new', type: 'string', nameOverride: 'new_' }]);
+    // Schemas without reserved words are passed through unchanged
+    expect(applyEscapedNames([{ ...schema, fields: [schema.fields[0]] }], { convert: (n) => n })[0].fields)
+      .toEqual([schema.fields[0]]);
+  });
+
+  it('should discover plain and scoped plugin packages, nearest first', () => {
+    writePackage(path.join(projectDir, 'node_modules'), 'chaim-generator-kotlin', 'kotlin');
+    writePackage(path.join(projectDir, 'node_modules'), '@acme/chaim-generator-go', 'go');
+    writePackage(path.join(projectDir, 'node_modules'), 'unrelated-package', 'ruby');
+    writePackage(path.join(tmpDir, 'node_modules'), 'chaim-generator-kotlin', 'kotlin');
+
+    expect(discoverGeneratorPackages(projectDir)).toEqual([
+      { name: '@acme/chaim-generator-go', dir: path.join(projectDir, 'node_modules', '@acme', 'chaim-generator-go') },
+      { name: 'chaim-generator-kotlin', dir: path.join(projectDir, 'node_modules', 'chaim-generator-kotlin') },
+    ]);
+
+    const generators = loadGenerators({ projectDir });
+    expect(generators.get('kotlin')?.name).toBe('kotlin generator');
+    expect(generators.get('go')?.name).toBe('go generator');
+    expect(generators.has('ruby')).toBe(false);
+  });
+
+  it('should load plugins listed in chaim.json, including modules exporting several generators', () => {
+    const pluginPath = path.join(projectDir, 'tools', 'generators.js');
+    fs.mkdirSync(path.dirname(pluginPath));
+    fs.writeFileSync(pluginPath, pluginSource('kotlin', 'scala'));
+
+    const generators = loadGenerators({ projectDir, plugins: [pluginPath] });
+
+    expect(generators.has('kotlin')).toBe(true);
+    expect(generators.has('scala')).toBe(true);
+  });
+
+  it('should load a package that is both listed and installed only once', () => {
+    writePackage(path.join(projectDir, 'node_modules'), 'chaim-generator-kotlin', 'kotlin');
+
+    const generators = loadGenerators({ projectDir, plugins: ['chaim-generator-kotlin'] });
+
+    expect(generators.has('kotlin')).toBe(true);
+  });
+
+  it('should reject a plugin that claims an existing language', () => {
+    writePackage(path.join(projectDir, 'node_modules'), 'chaim-generator-java', 'java');
+
+    expect(() => loadGenerators({ projectDir })).toThrow(
+      /chaim-generator-java registers language "java", which is already provided by the built-in generators/
+    );
+  });
+
+  it('should reject invalid plugin exports', () => {
+    const pluginPath = path.join(projectDir, 'broken.js');
+    fs.writeFileSync(pluginPath, "module.exports = { name: 'Broken', language: 'broken' };");
+
+    expect(() => loadGenerators({ projectDir, plugins: [pluginPath] })).toThrow(GeneratorPluginError);
+    expect(() => loadGenerators({ projectDir, plugins: [pluginPath] })).toThrow(/missing "naming.convert\(\)"/);
+  });
+
+  it('should report plugins that cannot be found', () => {
+    try {
+      loadGenerators({ projectDir, plugins: ['chaim-generator-missing'] });
+      expect.fail('expected GeneratorPluginError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(GeneratorPluginError);
+      expect((error as GeneratorPluginError).plugin).toBe('chaim-generator-missing');
+      expect((error as GeneratorPluginError).message).toContain('not found');
+    }
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Generator Registry
+ *
+ * Maps language keys to code generators. The registry always contains the
+ * built-in Java, TypeScript and Python generators, plus plugins from:
+ *
+ * 1. The `generators` array in chaim.json (module paths or package names)
+ * 2. Installed npm packages named `chaim-generator-*` or `@scope/chaim-generator-*`,
+ *    found in node_modules directories from the project directory upward
+ *
+ * Plugins are CommonJS modules; see ./types.ts for the exported shape.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JavaGenerator } from '@chaim-tools/client-java';
+import { DEFAULT_LANGUAGE, DEFAULT_OUTPUT_DIRS } from '../config/types';
+import { LANGUAGE_KEY_REGEX } from '../config/loader';
+import { NamingConvention, getNamingConvention, resolveFieldNames, toSnakeCase } from '../services/name-resolver';
+import { SchemaData, SchemaField } from '../types';
+import { GeneratorPluginError, UsageError } from '../errors';
+import { detectWrittenFiles, listOutputFiles } from '../services/generation-manifest';
+import { ChaimGenerator } from './types';
+import { TypeScriptGenerator } from './typescript-generator';
+import { PythonGenerator, PythonModelStyle } from './python-generator';
+
+export { GeneratorPluginError };
+
+/**
+ * Package name prefix for auto-discovered generator plugins.
+ */
+export const GENERATOR_PACKAGE_PREFIX = 'chaim-generator-';
+
+/**
+ * Pin escaped reserved words as nameOverride, for generators that resolve
+ * field names themselves and do not know the CLI's reserved-word tables.
+ * Applies to nested map and list-of-map fields as well.
+ */
+export function applyEscapedNames(schemas: SchemaData[], naming: NamingConvention): SchemaData[] {
+  return schemas.map((schema) => {
+    const fields = escapeFields(schema.fields, naming);
+    return fields === schema.fields ? schema : { ...schema, fields };
+  });
+}
+
+/**
+ * Pin escaped names on one level of fields and their nested fields.
+ *
+ * @returns The same array if nothing was escaped, so unchanged schemas are passed through as-is
+ */
+function escapeFields(fields: SchemaField[], naming: NamingConvention): SchemaField[] {
+  const resolved = resolveFieldNames(fields, naming);
+  let changed = false;
+
+  const result = fields.map((field, i) => {
+    let updated = field;
+    if (resolved[i].conversionType === 'escaped') {
+      updated = { ...updated, nameOverride: resolved[i].codeName };
+    }
+    if (field.fields) {
+      const nested = escapeFields(field.fields, naming);
+      if (nested !== field.fields) updated = { ...updated, fields: nested };
+    }
+    if (field.items?.fields) {
+      const nested = escapeFields(field.items.fields, naming);
+      if (nested !== field.items.fields) updated = { ...updated, items: { ...field.items, fields: nested } };
+    }
+    changed = changed || updated !== field;
+    return updated;
+  });
+
+  return changed ? result : fields;
+}
+
+/**
+ * Read the version of an installed package, if it can be found.
+ */
+function packageVersion(packageJsonPath: string): string | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(require.resolve(packageJsonPath), 'utf-8')).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * CLI version; the built-in TypeScript and Python generators are versioned with the CLI.
+ */
+const CLI_VERSION = packageVersion(path.join(__dirname, '..', '..', 'package.json')) ?? 'unknown';
+
+/**
+ * Generators shipped with the CLI.
+ */
+export const BUILT_IN_GENERATORS: ChaimGenerator[] = [
+  {
+    name: 'Java (DynamoDB Enhanced Client)',
+    language: 'java',
+    version: `${CLI_VERSION} (client-java ${packageVersion('@chaim-tools/client-java/package.json') ?? 'unknown'})`,
+    naming: getNamingConvention('java'),
+    requiresPackage: true,
+    defaultOutput: DEFAULT_OUTPUT_DIRS.java,
+    entityFileName: (entityName) => `${entityName}.java`,
+    generateForTable: async (schemas, options, tableMetadata) => {
+      // client-java does not report what it wrote, but writes everything under the package directory
+      const packageDir = path.join(options.output, ...options.package!.split('.'));
+      const before = listOutputFiles(packageDir);
+      await new JavaGenerator().generateForTable(
+        applyEscapedNames(schemas, getNamingConvention('java')),
+        options.package!,
+        options.output,
+        tableMetadata
+      );
+      return detectWrittenFiles(before, listOutputFiles(packageDir)).map((file) => path.join(packageDir, file));
+    },
+  },
+  {
+    name: 'TypeScript (AWS SDK v3 DocumentClient)',
+    language: 'typescript',
+    version: CLI_VERSION,
+    naming: getNamingConvention('typescript'),
+    defaultOutput: DEFAULT_OUTPUT_DIRS.typescript,
+    entityFileName: (entityName) => `${entityName}.ts`,
+    generateForTable: (schemas, options, tableMetadata) =>
+      new TypeScriptGenerator().generateForTable(schemas, options.output, tableMetadata),
+  },
+  {
+    name: 'Python (boto3)',
+    language: 'python',
+    version: CLI_VERSION,
+    naming: getNamingConvention('python'),
+    defaultOutput: DEFAULT_OUTPUT_DIRS.python,
+    entityFileName: (entityName) => `${toSnakeCase(entityName)}.py`,
+    generateForTable: (schemas, options, tableMetadata) =>
+      new PythonGenerator({ modelStyle: options.settings.models as PythonModelStyle | undefined })
+        .generateForTable(schemas, options.output, tableMetadata),
+  },
+];
+
+/**
+ * Options for building a generator registry.
+ */
+export interface LoadGeneratorsOptions {
+  /** Directory to start the node_modules search from (usually the chaim.json directory) */
+  projectDir: string;
+  /** Plugins from chaim.json: absolute module paths or package names */
+  plugins?: string[];
+}
+
+/**
+ * An installed generator plugin package.
+ */
+export interface GeneratorPackage {
+  /** Package name (e.g., chaim-generator-kotlin or @acme/chaim-generator-kotlin) */
+  name: string;
+  /** Absolute package directory */
+  dir: string;
+}
+
+/**
+ * Find installed generator plugin packages.
+ *
+ * Searches node_modules in `startDir` and each parent directory; when a
+ * package is installed at several levels, the nearest one wins.
+ */
+export function discoverGeneratorPackages(startDir: string): GeneratorPackage[] {
+  const found = new Map<string, string>();
+  let current = path.resolve(startDir);
+
+  for (;;) {
+    const nodeModules = path.join(current, 'node_modules');
+    for (const name of listPluginPackages(nodeModules)) {
+      if (!found.has(name)) {
+        found.set(name, path.join(nodeModules, name));
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+
+  return [...found].map(([name, dir]) => ({ name, dir }));
+}
+
+/**
+ * List `chaim-generator-*` and `@scope/chaim-generator-*` packages in a node_modules directory.
+ */
+function listPluginPackages(nodeModules: string): string[] {
+  if (!fs.existsSync(nodeModules)) {
+    return [];
+  }
+
+  const names: string[] = [];
+  for (const entry of fs.readdirSync(nodeModules)) {
+    if (entry.startsWith(GENERATOR_PACKAGE_PREFIX)) {
+      names.push(entry);
+    } else if (entry.startsWith('@')) {
+      const scopeDir = path.join(nodeModules, entry);
+      if (!fs.statSync(scopeDir).isDirectory()) continue;
+      for (const scoped of fs.readdirSync(scopeDir)) {
+        if (scoped.startsWith(GENERATOR_PACKAGE_PREFIX)) {
+          names.push(`${entry}/${scoped}`);
+        }
+      }
+    }
+  }
+  return names.sort();
+}
+
+/**
+ * Check that a plugin export has the shape of a ChaimGenerator.
+ *
+ * @returns A description of what is missing, or undefined if the export is valid
+ */
+function checkGenerator(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return 'does not export a generator object';
+  }
+  const generator = value as Partial<ChaimGenerator>;
+  if (typeof generator.name !== 'string' || !generator.name) return 'is missing "name"';
+  if (typeof generator.language !== 'string' || !LANGUAGE_KEY_REGEX.test(generator.language)) {
+    return 'has no valid "language" key (lowercase letters, digits and hyphens)';
+  }
+  if (typeof generator.naming?.convert !== 'function') return 'is missing "naming.convert()"';
+  if (typeof generator.generateForTable !== 'function') return 'is missing "generateForTable()"';
+  return undefined;
+}
+
+/**
+ * Load the generators exported by a plugin module.
+ *
+ * @throws GeneratorPluginError if the module cannot be loaded or exports no valid generator
+ */
+export function loadGeneratorPlugin(modulePath: string, label: string = modulePath): ChaimGenerator[] {
+  let exported: Record<string, unknown>;
+  try {
+    exported = require(modulePath);
+  } catch (error) {
+    throw new GeneratorPluginError(
+      `Failed to load generator plugin ${label}: ${error instanceof Error ? error.message : error}`,
+      label
+    );
+  }
+
+  const candidates = Array.isArray(exported?.generators)
+    ? exported.generators
+    : [exported?.default ?? exported?.generator ?? exported];
+
+  for (const candidate of candidates) {
+    const problem = checkGenerator(candidate);
+    if (problem) {
+      throw new GeneratorPluginError(`Generator plugin ${label} ${problem}`, label);
+    }
+  }
+  return candidates as ChaimGenerator[];
+}
+
+/**
+ * Resolve a chaim.json plugin entry (absolute path or package name) to a module path.
+ */
+function resolvePluginEntry(entry: string, projectDir: string): string {
+  try {
+    return require.resolve(entry, { paths: [projectDir] });
+  } catch {
+    throw new GeneratorPluginError(
+      `Generator plugin ${entry} not found. Install it or fix the path in chaim.json "generators".`,
+      entry
+    );
+  }
+}
+
+/**
+ * Build the generator registry: built-in generators plus all plugins.
+ *
+ * @returns Generators keyed by language
+ * @throws GeneratorPluginError if a plugin is invalid or two generators claim the same language
+ */
+export function loadGenerators(options: LoadGeneratorsOptions): Map<string, ChaimGenerator> {
+  const registry = new Map<string, ChaimGenerator>();
+  const origins = new Map<string, string>();
+
+  const register = (generator: ChaimGenerator, origin: string): void => {
+    const existing = origins.get(generator.language);
+    if (existing) {
+      throw new GeneratorPluginError(
+        `Generator plugin ${origin} registers language "${generator.language}", which is already provided by ${existing}`,
+        origin
+      );
+    }
+    registry.set(generator.language, generator);
+    origins.set(generator.language, origin);
+  };
+
+  for (const generator of BUILT_IN_GENERATORS) {
+    register(generator, 'the built-in generators');
+  }
+
+  // A package listed in chaim.json and also found in node_modules is loaded once
+  const loaded = new Set<string>();
+  const pluginModules = [
+    ...(options.plugins ?? []).map((entry) => ({ label: entry, modulePath: resolvePluginEntry(entry, options.projectDir) })),
+    ...discoverGeneratorPackages(options.projectDir).map((pkg) => ({
+      label: pkg.name,
+      modulePath: resolvePluginEntry(pkg.dir, options.projectDir),
+    })),
+  ];
+
+  for (const { label, modulePath } of pluginModules) {
+    if (loaded.has(modulePath)) continue;
+    loaded.add(modulePath);
+    for (const generator of loadGeneratorPlugin(modulePath, label)) {
+      register(generator, label);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Resolve the generator for the target language.
+ *
+ * Priority: CLI flag > env > repo config > global config > default (Java).
+ * The config loader has already merged these and checked the key format;
+ * this checks that a built-in generator or plugin provides the language.
+ */
+export function resolveGenerator(generators: Map<string, ChaimGenerator>, configuredLanguage?: string): ChaimGenerator {
+  const language = configuredLanguage || DEFAULT_LANGUAGE;
+  const generator = generators.get(language);
+
+  if (!generator) {
+    throw new UsageError(`Language '${language}' is not yet supported.`, [
+      `Currently supported: ${[...generators.keys()].join(', ')}`,
+      'Other languages can be added with a generator plugin (chaim-generator-* package or "generators" in chaim.json).',
+    ]);
+  }
+
+  return generator;
+}
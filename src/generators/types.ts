@@ -0,0 +1,51 @@
+/**
+ * Generator Plugin Type Definitions
+ *
+ * A generator turns the schemas bound to one DynamoDB table into source code
+ * for one language. The CLI ships Java, TypeScript and Python generators;
+ * more can be added as plugins (see ./registry.ts) without changing the CLI.
+ *
+ * A plugin is a CommonJS module exporting a ChaimGenerator (as `default`,
+ * `generator`, or the module itself) or an array of them (as `generators`).
+ */
+
+import { SchemaData, TableMetadata } from '../types';
+import { NamingConvention } from '../services/name-resolver';
+
+/**
+ * Options passed to a generator for one table.
+ */
+export interface GeneratorOptions {
+  /** Output directory (absolute or relative to the working directory) */
+  output: string;
+  /** Package or namespace (--package / javaPackage), if configured */
+  package?: string;
+  /** Generator-specific settings (e.g., { models: 'pydantic' } for Python) */
+  settings: Record<string, string>;
+}
+
+/**
+ * A code generator for one target language.
+ */
+export interface ChaimGenerator {
+  /** Display name (e.g., "Kotlin (DynamoDB Enhanced Client)") */
+  name: string;
+  /** Language key used by --language and "language" in chaim.json (e.g., "kotlin") */
+  language: string;
+  /** Generator version; recorded in the generation manifest so upgrading the generator regenerates all tables */
+  version?: string;
+  /** How DynamoDB attribute names become identifiers, including reserved words */
+  naming: NamingConvention;
+  /** Whether --package / javaPackage must be set */
+  requiresPackage?: boolean;
+  /** Output directory used when none is configured */
+  defaultOutput?: string;
+  /** File name shown in the generation summary for an entity (default: the entity name) */
+  entityFileName?(entityName: string): string;
+  /**
+   * Generate code for all entities bound to one table. Return the paths of
+   * the files written so they can be tracked and pruned; otherwise the whole
+   * output directory is compared before and after to find them.
+   */
+  generateForTable(schemas: SchemaData[], options: GeneratorOptions, tableMetadata: TableMetadata): Promise<unknown>;
+}
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { TypeScriptGenerator } from './typescript-generator';
+import { SchemaData, TableMetadata } from '../types';
+
+// Minimal declarations for the DocumentClient API used by the generated code
+const LIB_DYNAMODB_STUB = `
+export declare class DynamoDBDocumentClient {
+  send(command: unknown): Promise<any>;
+}
+interface Input { TableName: string; [key: string]: unknown }
+export declare class PutCommand { constructor(input: Input); }
+export declare class GetCommand { constructor(input: Input); }
+export declare class DeleteCommand { constructor(input: Input); }
+export declare class QueryCommand { constructor(input: Input); }
+`;
+
+const orderSchema: SchemaData = {
+  schemaVersion: '1.0',
+  entityName: 'Order',
+  description: 'Customer order',
+  primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' },
+  fields: [
+    { name: 'orderId', type: 'string', required: true },
+    { name: 'createdAt', type: 'timestamp', required: true },
+    { name: 'customer-id', type: 'string', required: true },
+    { name: 'total', type: 'number' },
+    { name: 'status', type: 'string', enum: ['PENDING', 'SHIPPED'] },
+    { name: 'tags', type: 'stringSet' },
+    { name: 'shipping', type: 'map', fields: [{ name: 'street', type: 'string' }, { name: 'zip-code', type: 'string' }] },
+    { name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'sku', type: 'string' }, { name: 'qty', type: 'number' }] } },
+    { name: 'notes', type: 'list', items: { type: 'string' } },
+  ],
+};
+
+const refundSchema: SchemaData = {
+  schemaVersion: '1.0',
+  entityName: 'Refund',
+  description: 'Refund issued for an order',
+  primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' },
+  fields: [
+    { name: 'orderId', type: 'string', required: true },
+    { name: 'createdAt', type: 'timestamp', required: true },
+    { name: 'amount', type: 'number', required: true },
+  ],
+};
+
+const ordersTable: TableMetadata = {
+  tableName: 'orders-table',
+  tableArn: 'arn:aws:dynamodb:us-east-1:123456789012:table/orders-table',
+  region: 'us-east-1',
+  partitionKey: 'orderId',
+  sortKey: 'createdAt',
+  globalSecondaryIndexes: [
+    { indexName: 'customer-index', partitionKey: 'customer-id', sortKey: 'total', projectionType: 'ALL' },
+  ],
+  localSecondaryIndexes: [
+    { indexName: 'status-index', sortKey: 'status', projectionType: 'ALL' },
+  ],
+};
+
+let outputDir: string;
+
+function read(fileName: string): string {
+  return fs.readFileSync(path.join(outputDir, fileName), 'utf-8');
+}
+
+/**
+ * Type-check the generated files in strict mode against the DocumentClient stub.
+ */
+function typeCheck(files: string[]): string[] {
+  const stubDir = path.join(outputDir, 'node_modules', '@aws-sdk', 'lib-dynamodb');
+  fs.mkdirSync(stubDir, { recursive: true });
+  fs.writeFileSync(path.join(stubDir, 'index.d.ts'), LIB_DYNAMODB_STUB);
+
+  const program = ts.createProgram(files, {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    lib: ['lib.es2020.d.ts'],
+    types: [],
+  });
+  return ts.getPreEmitDiagnostics(program).map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('TypeScriptGenerator', () => {
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-ts-generator-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write entity files, the runtime and one repository per table', async () => {
+    const files = await new TypeScriptGenerator().generateForTable([orderSchema, refundSchema], outputDir, ordersTable);
+
+    expect(files.map((f) => path.basename(f)).sort()).toEqual([
+      'Order.ts',
+      'OrdersTableRepository.ts',
+      'Refund.ts',
+      'chaim-runtime.ts',
+    ]);
+  });
+
+  it('should produce code that type-checks in strict mode', async () => {
+    const files = await new TypeScriptGenerator().generateForTable([orderSchema, refundSchema], outputDir, ordersTable);
+
+    expect(typeCheck(files)).toEqual([]);
+  });
+
+  it('should map field types and keep attribute names in item mappers', async () => {
+    await new TypeScriptGenerator().generateForTable([orderSchema], outputDir, ordersTable);
+    const order = read('Order.ts');
+
+    expect(order).toContain('export interface Order {');
+    expect(order).toContain('  orderId: string;');
+    expect(order).toContain('  customerId: string;');
+    expect(order).toContain('  total?: number;');
+    expect(order).toContain('  status?: "PENDING" | "SHIPPED";');
+    expect(order).toContain('  tags?: Set<string>;');
+    expect(order).toContain('  shipping?: OrderShipping;');
+    expect(order).toContain('  lines?: OrderLinesItem[];');
+    expect(order).toContain('  notes?: string[];');
+    expect(order).toContain('export interface OrderShipping {');
+    expect(order).toContain('  zipCode?: string;');
+    expect(order).toContain('"customer-id": entity.customerId,');
+    expect(order).toContain('customerId: item["customer-id"] as Order["customerId"],');
+  });
+
+  it('should resolve nested field names, keep reserved words, and map them back to attribute names', async () => {
+    const invoiceSchema: SchemaData = {
+      schemaVersion: '1.0',
+      entityName: 'Invoice',
+      description: 'Invoice',
+      primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' },
+      fields: [
+        { name: 'orderId', type: 'string', required: true },
+        { name: 'createdAt', type: 'timestamp', required: true },
+        {
+          name: 'billing',
+          type: 'map',
+          required: true,
+          fields: [
+            { name: 'class', type: 'string' },
+            { name: 'zip-code', type: 'string' },
+            { name: 'geo', type: 'map', fields: [{ name: 'default', type: 'boolean' }] },
+          ],
+        },
+        { name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'unit-price', type: 'number' }] } },
+      ],
+    };
+
+    const files = await new TypeScriptGenerator().generateForTable([invoiceSchema], outputDir, ordersTable);
+    const invoice = read('Invoice.ts');
+
+    expect(typeCheck(files)).toEqual([]);
+    expect(invoice).toContain('export interface InvoiceBilling {\n  class?: string;');
+    expect(invoice).toContain('  default?: boolean;');
+    expect(invoice).toContain('  unitPrice?: number;');
+    expect(invoice).toContain('"billing": invoiceBillingToItem(entity.billing),');
+    expect(invoice).toContain('"lines": entity.lines?.map(invoiceLinesItemToItem),');
+
+    // Run the generated mappers
+    const { outputText } = ts.transpileModule(invoice, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+    const mappers: Record<string, (value: unknown) => unknown> = {};
+    new Function('exports', 'require', outputText)(mappers, () => ({}));
+    const item = {
+      orderId: 'o-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      billing: { 'class': 'gold', 'zip-code': '12345', geo: { 'default': true } },
+      lines: [{ 'unit-price': 5 }],
+    };
+    const entity = mappers.invoiceFromItem(item);
+
+    expect(entity).toEqual({
+      orderId: 'o-1',
+      createdAt: '2024-01-01T00:00:00Z',
+      billing: { class: 'gold', zipCode: '12345', geo: { default: true } },
+      lines: [{ unitPrice: 5 }],
+    });
+    expect(mappers.invoiceToItem(entity)).toEqual(item);
+  });
+
+  it('should generate a key builder using the table key attributes', async () => {
+    await new TypeScriptGenerator().generateForTable([orderSchema], outputDir, ordersTable);
+
+    expect(read('Order.ts')).toContain(
+      'export function orderKey(orderId: string, createdAt: string): OrderKey {\n  return { "orderId": orderId, "createdAt": createdAt };'
+    );
+  });
+
+  it('should escape reserved words used as key builder parameters', async () => {
+    const files = await new TypeScriptGenerator().generateForTable(
+      [{ ...refundSchema, primaryKey: { partitionKey: 'package' }, fields: [{ name: 'package', type: 'string', required: true }] }],
+      outputDir,
+      { tableName: 'Refunds', tableArn: 'arn', region: 'us-east-1', partitionKey: 'package' }
+    );
+    const refund = read('Refund.ts');
+
+    expect(typeCheck(files)).toEqual([]);
+    expect(refund).toContain('  package: string;');
+    expect(refund).toContain('export function refundKey(package_: string): RefundKey {\n  return { "package": package_ };');
+  });
+
+  it('should generate GSI and LSI query helpers for every entity on the table', async () => {
+    await new TypeScriptGenerator().generateForTable([orderSchema, refundSchema], outputDir, ordersTable);
+    const repository = read('OrdersTableRepository.ts');
+
+    expect(repository).toContain('export const ORDERS_TABLE = {');
+    expect(repository).toContain('queryByCustomerIndex(customerId: string, total?: number): Promise<Order[]>');
+    expect(repository).toContain('return this.query("customer-index", "customer-id", customerId, "total", total);');
+    expect(repository).toContain('queryByStatusIndex(orderId: string, status?: string): Promise<Order[]>');
+    expect(repository).toContain('queryByCustomerIndex(customerId: string, total?: string): Promise<Refund[]>');
+    expect(repository).toContain('  readonly order: OrderRepository;\n  readonly refund: RefundRepository;');
+  });
+
+  it('should omit the partition-key query for tables without a sort key', async () => {
+    await new TypeScriptGenerator().generateForTable(
+      [refundSchema],
+      outputDir,
+      { tableName: 'Refunds', tableArn: 'arn', region: 'us-east-1', partitionKey: 'orderId' }
+    );
+
+    expect(read('RefundsTableRepository.ts')).not.toContain('queryByPartitionKey');
+    expect(read('Refund.ts')).toContain('export function refundKey(orderId: string): RefundKey');
+  });
+});
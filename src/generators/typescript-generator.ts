@@ -0,0 +1,526 @@
+/**
+ * TypeScript code generator.
+ *
+ * Produces typed entity interfaces, key builders and a DocumentClient-based
+ * repository for each DynamoDB table, from the same SchemaData + TableMetadata
+ * that are passed to the Java generator. Entities that share a table are
+ * generated together, so each table gets one repository exposing a typed
+ * repository per entity.
+ *
+ * Output layout (for a table `Orders` with `Order` and `OrderItem` entities):
+ *
+ *   {output}/
+ *   ├── chaim-runtime.ts             # Shared DocumentClient repository base class
+ *   ├── Order.ts                     # Interface, nested types, key builder, item mappers
+ *   ├── OrderItem.ts
+ *   └── OrdersTableRepository.ts     # Table constants, OrderRepository, OrderItemRepository
+ *
+ * Generated code depends on `@aws-sdk/lib-dynamodb` only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaData, SchemaField, TableMetadata } from '../types';
+import { escapeReservedWord, resolveFieldNames, RESERVED_WORDS, VALID_IDENTIFIER_REGEX } from '../services/name-resolver';
+import { toConstantCase, toPascalCase } from '../services/naming';
+
+/**
+ * Header written at the top of every generated file.
+ */
+const GENERATED_HEADER = '// Generated by chaim-cli from .bprint schemas. Do not edit.\n';
+
+/**
+ * File name of the shared runtime module (without extension).
+ */
+const RUNTIME_MODULE = 'chaim-runtime';
+
+/**
+ * Shared runtime written alongside the generated entities.
+ */
+const RUNTIME_SOURCE = `${GENERATED_HEADER}
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * A raw DynamoDB item, keyed by attribute name.
+ */
+export type ChaimItem = Record<string, unknown>;
+
+/**
+ * Converts between an entity and its DynamoDB item representation.
+ */
+export interface ChaimEntityMapper<T> {
+  toItem(entity: T): ChaimItem;
+  fromItem(item: ChaimItem): T;
+}
+
+/**
+ * Base repository for one entity stored in a DynamoDB table.
+ */
+export class ChaimEntityRepository<T, K extends ChaimItem> {
+  constructor(
+    protected readonly client: DynamoDBDocumentClient,
+    protected readonly tableName: string,
+    protected readonly mapper: ChaimEntityMapper<T>
+  ) {}
+
+  /** Write an entity, replacing any existing item with the same key. */
+  async save(entity: T): Promise<void> {
+    await this.client.send(new PutCommand({ TableName: this.tableName, Item: this.mapper.toItem(entity) }));
+  }
+
+  /** Read an entity by its primary key. */
+  async findByKey(key: K): Promise<T | undefined> {
+    const result = await this.client.send(new GetCommand({ TableName: this.tableName, Key: key }));
+    return result.Item ? this.mapper.fromItem(result.Item) : undefined;
+  }
+
+  /** Delete an entity by its primary key. */
+  async deleteByKey(key: K): Promise<void> {
+    await this.client.send(new DeleteCommand({ TableName: this.tableName, Key: key }));
+  }
+
+  /**
+   * Query the table or an index by partition key, optionally matching a sort key value.
+   * Follows pagination until all matching items have been read.
+   */
+  protected async query(
+    indexName: string | undefined,
+    partitionKey: string,
+    partitionValue: unknown,
+    sortKey?: string,
+    sortValue?: unknown
+  ): Promise<T[]> {
+    const names: Record<string, string> = { '#pk': partitionKey };
+    const values: Record<string, unknown> = { ':pk': partitionValue };
+    let condition = '#pk = :pk';
+    if (sortKey !== undefined && sortValue !== undefined) {
+      names['#sk'] = sortKey;
+      values[':sk'] = sortValue;
+      condition += ' AND #sk = :sk';
+    }
+
+    const entities: T[] = [];
+    let startKey: ChaimItem | undefined;
+    do {
+      const result = await this.client.send(new QueryCommand({
+        TableName: this.tableName,
+        IndexName: indexName,
+        KeyConditionExpression: condition,
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ExclusiveStartKey: startKey,
+      }));
+      for (const item of result.Items ?? []) {
+        entities.push(this.mapper.fromItem(item));
+      }
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+
+    return entities;
+  }
+}
+`;
+
+/**
+ * Lowercase the first character of a name.
+ */
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+/**
+ * Render a property key, quoting it when it is not a valid identifier.
+ */
+function propertyKey(name: string): string {
+  return VALID_IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Render a JSDoc comment at the given indentation, or nothing if there are no lines.
+ */
+function docComment(lines: (string | undefined)[], indent = ''): string {
+  const content = lines.filter((line): line is string => !!line).map((line) => line.replace(/\*\//g, '*\\/'));
+  if (content.length === 0) return '';
+  if (content.length === 1) return `${indent}/** ${content[0]} */\n`;
+  return `${indent}/**\n${content.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Map a scalar .bprint type to a TypeScript type.
+ */
+function scalarType(type: string): string {
+  switch (type) {
+    case 'string':
+    case 'timestamp':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Map a field to its TypeScript type, rendering interfaces for nested
+ * `map` and `list` of `map` fields into `nested`.
+ *
+ * @param typeName - Name to use for a nested interface generated for this field
+ */
+function fieldType(field: SchemaField, typeName: string, nested: string[]): string {
+  switch (field.type) {
+    case 'string':
+      return field.enum && field.enum.length > 0
+        ? field.enum.map((value) => JSON.stringify(value)).join(' | ')
+        : 'string';
+    case 'stringSet':
+      return 'Set<string>';
+    case 'numberSet':
+      return 'Set<number>';
+    case 'map':
+      nested.push(renderNestedType(typeName, field.fields ?? [], nested));
+      return typeName;
+    case 'list':
+      if (field.items?.type === 'map') {
+        nested.push(renderNestedType(`${typeName}Item`, field.items.fields ?? [], nested));
+        return `${typeName}Item[]`;
+      }
+      return `${scalarType(field.items?.type ?? 'string')}[]`;
+    default:
+      return scalarType(field.type);
+  }
+}
+
+/**
+ * A field of an entity or nested map, with its resolved property name and type.
+ */
+interface Member {
+  field: SchemaField;
+  /** Property name in generated code */
+  name: string;
+  /** TypeScript type */
+  type: string;
+  /** Interface of the value (map) or items (list of maps), converted with its own item mappers */
+  nestedType?: string;
+}
+
+/**
+ * Resolve the members of an interface, rendering nested interfaces into `nested`.
+ * Names are resolved at every level, as resolveNestedFieldNames() reports them.
+ */
+function resolveMembers(typeName: string, fields: SchemaField[], nested: string[]): Member[] {
+  const resolved = resolveFieldNames(fields, 'typescript');
+  return fields.map((field, i) => {
+    const memberTypeName = `${typeName}${toPascalCase(field.name)}`;
+    let nestedType: string | undefined;
+    if (field.type === 'map') {
+      nestedType = memberTypeName;
+    } else if (field.type === 'list' && field.items?.type === 'map') {
+      nestedType = `${memberTypeName}Item`;
+    }
+    return { field, name: resolved[i].codeName, type: fieldType(field, memberTypeName, nested), nestedType };
+  });
+}
+
+/**
+ * Render an interface property, noting the DynamoDB attribute name when it differs.
+ */
+function renderProperty({ field, name, type }: Member): string {
+  const optional = field.required ? '' : '?';
+  const attributeNote = name !== field.name ? `DynamoDB attribute: \`${field.name}\`` : undefined;
+  const timestampNote = field.type === 'timestamp' ? 'ISO 8601 timestamp' : undefined;
+  return `${docComment([field.description, timestampNote, attributeNote], '  ')}  ${name}${optional}: ${type};`;
+}
+
+/**
+ * Render an interface for a nested `map` (or the items of a list of maps),
+ * followed by its item mappers.
+ */
+function renderNestedType(name: string, fields: SchemaField[], nested: string[]): string {
+  const members = resolveMembers(name, fields, nested);
+  return `export interface ${name} {\n${members.map(renderProperty).join('\n')}\n}\n\n${renderItemMappers(name, members, false)}`;
+}
+
+/**
+ * Render the expression converting a member to its DynamoDB item value.
+ */
+function toItemValue({ field, name, nestedType }: Member): string {
+  const value = `entity.${name}`;
+  if (!nestedType) return value;
+
+  const toItem = `${lowerFirst(nestedType)}ToItem`;
+  if (field.type === 'list') {
+    return field.required ? `${value}.map(${toItem})` : `${value}?.map(${toItem})`;
+  }
+  return field.required ? `${toItem}(${value})` : `${value} === undefined ? undefined : ${toItem}(${value})`;
+}
+
+/**
+ * Render the expression reading a member from a DynamoDB item.
+ */
+function fromItemValue({ field, name, nestedType }: Member, typeName: string): string {
+  const value = `item[${JSON.stringify(field.name)}]`;
+  if (!nestedType) return `${value} as ${typeName}[${JSON.stringify(name)}]`;
+
+  const fromItem = `${lowerFirst(nestedType)}FromItem`;
+  const converted = field.type === 'list'
+    ? `(${value} as ChaimItem[]).map(${fromItem})`
+    : `${fromItem}(${value} as ChaimItem)`;
+  return field.required ? converted : `${value} == null ? undefined : ${converted}`;
+}
+
+/**
+ * Render the functions converting a type to and from a DynamoDB item, which
+ * uses the attribute names. Only the entity's mappers are exported.
+ */
+function renderItemMappers(typeName: string, members: Member[], exported: boolean): string {
+  const fnPrefix = lowerFirst(typeName);
+  const exportKeyword = exported ? 'export ' : '';
+  const toItem = members.map((member) => `    ${JSON.stringify(member.field.name)}: ${toItemValue(member)},`);
+  const fromItem = members.map((member) => `    ${member.name}: ${fromItemValue(member, typeName)},`);
+
+  return `/** Convert a ${typeName} to a DynamoDB item, omitting undefined values. */
+${exportKeyword}function ${fnPrefix}ToItem(entity: ${typeName}): ChaimItem {
+  const item: ChaimItem = {
+${toItem.join('\n')}
+  };
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined));
+}
+
+/** Convert a DynamoDB item to a ${typeName}. */
+${exportKeyword}function ${fnPrefix}FromItem(item: ChaimItem): ${typeName} {
+  return {
+${fromItem.join('\n')}
+  };
+}
+`;
+}
+
+/**
+ * Key attribute description used for key builders and query helpers.
+ */
+interface KeyAttribute {
+  /** DynamoDB attribute name */
+  attribute: string;
+  /** Parameter name in generated code, escaped if it is a reserved word */
+  param: string;
+  /** TypeScript type of the key value */
+  type: string;
+}
+
+/**
+ * Describe a key attribute using the entity's field definition when present.
+ */
+function keyAttribute(schema: SchemaData, attribute: string): KeyAttribute {
+  const field = schema.fields.find((f) => f.name === attribute);
+  const [resolved] = resolveFieldNames([field ?? { name: attribute }], 'typescript');
+  return {
+    attribute,
+    param: RESERVED_WORDS.typescript.includes(resolved.codeName) ? escapeReservedWord(resolved.codeName) : resolved.codeName,
+    type: field?.type === 'number' ? 'number' : 'string',
+  };
+}
+
+/**
+ * Render the source file for one entity.
+ */
+function renderEntityFile(schema: SchemaData, table: TableMetadata): string {
+  const entity = schema.entityName;
+  const fnPrefix = lowerFirst(entity);
+  const nested: string[] = [];
+  const members = resolveMembers(entity, schema.fields, nested);
+
+  const partitionKey = keyAttribute(schema, table.partitionKey);
+  const sortKey = table.sortKey ? keyAttribute(schema, table.sortKey) : undefined;
+  const keyAttributes = sortKey ? [partitionKey, sortKey] : [partitionKey];
+
+  return `${GENERATED_HEADER}
+import { ChaimItem } from './${RUNTIME_MODULE}';
+
+${docComment([schema.description || `${entity} entity`, `Table: ${table.tableName}`])}export interface ${entity} {
+${members.map(renderProperty).join('\n')}
+}
+${nested.length > 0 ? `\n${nested.join('\n')}` : ''}
+/** Primary key of a ${entity} item (DynamoDB attribute names). */
+export type ${entity}Key = {
+${keyAttributes.map((k) => `  ${propertyKey(k.attribute)}: ${k.type};`).join('\n')}
+};
+
+/** Build the primary key of a ${entity} item. */
+export function ${fnPrefix}Key(${keyAttributes.map((k) => `${k.param}: ${k.type}`).join(', ')}): ${entity}Key {
+  return { ${keyAttributes.map((k) => `${JSON.stringify(k.attribute)}: ${k.param}`).join(', ')} };
+}
+
+${renderItemMappers(entity, members, true)}`;
+}
+
+/**
+ * Render the query helper for the table's partition key or one index.
+ */
+function renderQueryMethod(
+  entity: string,
+  methodName: string,
+  description: string,
+  indexName: string | undefined,
+  partitionKey: KeyAttribute,
+  sortKey?: KeyAttribute
+): string {
+  const params = [`${partitionKey.param}: ${partitionKey.type}`];
+  const args = [indexName ? JSON.stringify(indexName) : 'undefined', JSON.stringify(partitionKey.attribute), partitionKey.param];
+  if (sortKey) {
+    params.push(`${sortKey.param}?: ${sortKey.type}`);
+    args.push(JSON.stringify(sortKey.attribute), sortKey.param);
+  }
+
+  return `${docComment([description], '  ')}  ${methodName}(${params.join(', ')}): Promise<${entity}[]> {
+    return this.query(${args.join(', ')});
+  }
+`;
+}
+
+/**
+ * Render the repository class for one entity.
+ */
+function renderEntityRepository(schema: SchemaData, table: TableMetadata, tableConstant: string): string {
+  const entity = schema.entityName;
+  const fnPrefix = lowerFirst(entity);
+  const partitionKey = keyAttribute(schema, table.partitionKey);
+  const sortKey = table.sortKey ? keyAttribute(schema, table.sortKey) : undefined;
+
+  const methods: string[] = [];
+  if (sortKey) {
+    methods.push(renderQueryMethod(
+      entity,
+      'queryByPartitionKey',
+      `Query ${entity} items by partition key (${partitionKey.attribute}), optionally matching the sort key.`,
+      undefined,
+      partitionKey,
+      sortKey
+    ));
+  }
+  for (const gsi of table.globalSecondaryIndexes ?? []) {
+    methods.push(renderQueryMethod(
+      entity,
+      `queryBy${toPascalCase(gsi.indexName)}`,
+      `Query GSI ${gsi.indexName} (partition key ${gsi.partitionKey}${gsi.sortKey ? `, sort key ${gsi.sortKey}` : ''}).`,
+      gsi.indexName,
+      keyAttribute(schema, gsi.partitionKey),
+      gsi.sortKey ? keyAttribute(schema, gsi.sortKey) : undefined
+    ));
+  }
+  for (const lsi of table.localSecondaryIndexes ?? []) {
+    // LSIs always share the table's partition key
+    methods.push(renderQueryMethod(
+      entity,
+      `queryBy${toPascalCase(lsi.indexName)}`,
+      `Query LSI ${lsi.indexName} (partition key ${table.partitionKey}, sort key ${lsi.sortKey}).`,
+      lsi.indexName,
+      partitionKey,
+      keyAttribute(schema, lsi.sortKey)
+    ));
+  }
+
+  return `/** Repository for ${entity} items. */
+export class ${entity}Repository extends ChaimEntityRepository<${entity}, ${entity}Key> {
+  constructor(client: DynamoDBDocumentClient, tableName: string = ${tableConstant}.tableName) {
+    super(client, tableName, { toItem: ${fnPrefix}ToItem, fromItem: ${fnPrefix}FromItem });
+  }
+${methods.map((method) => `\n${method}`).join('')}}
+`;
+}
+
+/**
+ * Render the repository file for a table and all entities bound to it.
+ */
+function renderTableFile(schemas: SchemaData[], table: TableMetadata, baseName: string): string {
+  const className = `${baseName}Repository`;
+  const tableConstant = toConstantCase(baseName);
+  const imports = schemas.map((schema) => {
+    const entity = schema.entityName;
+    const fnPrefix = lowerFirst(entity);
+    return `import { ${entity}, ${entity}Key, ${fnPrefix}FromItem, ${fnPrefix}ToItem } from './${entity}';`;
+  });
+
+  const indexNames = [
+    ...(table.globalSecondaryIndexes ?? []).map((index) => index.indexName),
+    ...(table.localSecondaryIndexes ?? []).map((index) => index.indexName),
+  ];
+
+  const tableInfo = [
+    `  tableName: ${JSON.stringify(table.tableName)},`,
+    `  tableArn: ${JSON.stringify(table.tableArn)},`,
+    `  region: ${JSON.stringify(table.region)},`,
+    `  partitionKey: ${JSON.stringify(table.partitionKey)},`,
+    ...(table.sortKey ? [`  sortKey: ${JSON.stringify(table.sortKey)},`] : []),
+    `  indexes: {${indexNames.map((name) => `\n    ${lowerFirst(toPascalCase(name))}: ${JSON.stringify(name)},`).join('')}${indexNames.length > 0 ? '\n  ' : ''}},`,
+  ];
+
+  const members = schemas.map((schema) => `  readonly ${lowerFirst(schema.entityName)}: ${schema.entityName}Repository;`);
+  const assignments = schemas.map(
+    (schema) => `    this.${lowerFirst(schema.entityName)} = new ${schema.entityName}Repository(client, tableName);`
+  );
+
+  return `${GENERATED_HEADER}
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { ChaimEntityRepository } from './${RUNTIME_MODULE}';
+${imports.join('\n')}
+
+/** DynamoDB table ${table.tableName}. */
+export const ${tableConstant} = {
+${tableInfo.join('\n')}
+} as const;
+
+${schemas.map((schema) => renderEntityRepository(schema, table, tableConstant)).join('\n')}
+/** Repositories for every entity stored in table ${table.tableName}. */
+export class ${className} {
+${members.join('\n')}
+
+  constructor(client: DynamoDBDocumentClient, tableName: string = ${tableConstant}.tableName) {
+${assignments.join('\n')}
+  }
+}
+`;
+}
+
+/**
+ * Generates TypeScript source files for DynamoDB tables.
+ */
+export class TypeScriptGenerator {
+  /**
+   * Generate entity files and a table repository for all entities bound to one table.
+   *
+   * @returns Absolute paths of the files written
+   */
+  async generateForTable(
+    schemas: SchemaData[],
+    outputDir: string,
+    tableMetadata: TableMetadata
+  ): Promise<string[]> {
+    const dir = path.resolve(outputDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    // "Orders" and "orders-table" both become OrdersTable (OrdersTableRepository, ORDERS_TABLE)
+    const pascalName = toPascalCase(tableMetadata.tableName);
+    const baseName = pascalName.endsWith('Table') ? pascalName : `${pascalName}Table`;
+    const files: [string, string][] = [
+      [`${RUNTIME_MODULE}.ts`, RUNTIME_SOURCE],
+      ...schemas.map((schema): [string, string] => [`${schema.entityName}.ts`, renderEntityFile(schema, tableMetadata)]),
+      [`${baseName}Repository.ts`, renderTableFile(schemas, tableMetadata, baseName)],
+    ];
+
+    const written: string[] = [];
+    for (const [fileName, content] of files) {
+      const filePath = path.join(dir, fileName);
+      fs.writeFileSync(filePath, content, 'utf-8');
+      written.push(filePath);
+    }
+    return written;
+  }
+}
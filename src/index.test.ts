@@ -9,6 +9,14 @@ vi.mock('./commands/validate', () => ({
   validateCommand: vi.fn()
 }));
 
+vi.mock('./commands/diff', () => ({
+  diffCommand: vi.fn()
+}));
+
+vi.mock('./commands/bump', () => ({
+  bumpCommand: vi.fn()
+}));
+
 vi.mock('./commands/doctor', () => ({
   doctorCommand: vi.fn()
 }));
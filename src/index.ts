@@ -9,7 +9,15 @@ import { doctorCommand } from './commands/doctor';
 import { initCommand } from './commands/init';
 import { cleanCommand } from './commands/clean';
 import { bumpCommand } from './commands/bump';
+import { diffCommand } from './commands/diff';
 import { contextCommand } from './commands/context';
+import { registerConfigShowCommand } from './commands/config/show';
+import { registerConfigSetCommand } from './commands/config/set';
+import { registerConfigGetCommand } from './commands/config/get';
+import { registerConfigUnsetCommand } from './commands/config/unset';
+import { registerConfigureCommand } from './commands/configure';
+import { enableJsonOutput, withJsonOutput } from './services/json-output';
+import { ChaimError, EXIT_CODES, UsageError, getExitCode } from './errors';
 import chalk from 'chalk';
 
 const pkg = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
@@ -34,42 +42,97 @@ const pkg = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-
 // import { registerAuthLogoutCommand } from './commands/auth/logout';
 
 // ─── TIER 1: Core Productivity ───────────────────────────────────────────────
-// import { registerConfigureCommand } from './commands/configure';
 // import { registerAppsLinkCommand } from './commands/apps/link';
 
 // ─── TIER 3: Nice to Have ────────────────────────────────────────────────────
 // import { registerAuthRefreshCommand } from './commands/auth/refresh';
 // import { registerAppsListCommand } from './commands/apps/list';
-// import { registerConfigShowCommand } from './commands/config/show';
+
+/**
+ * Commands that support the global --json flag. `config show` prints its own JSON document.
+ */
+const JSON_COMMANDS = ['generate', 'validate', 'diff', 'clean', 'doctor', 'config show'];
+
+/**
+ * Print an error thrown by a command and exit with its exit code. Expected
+ * failures (ChaimError) print their message and hints; anything else is a
+ * bug and also prints the stack trace.
+ */
+function handleError(error: unknown): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+  if (error instanceof ChaimError) {
+    for (const hint of error.hints) {
+      console.error(chalk.gray(`  ${hint}`));
+    }
+  } else if (error instanceof Error && error.stack) {
+    console.error(chalk.gray(error.stack));
+  }
+  process.exit(getExitCode(error));
+}
 
 const program = new Command();
 
 program
   .name('chaim')
   .description('Schema-driven code generation tool for DynamoDB')
-  .version(pkg.version);
+  .version(pkg.version)
+  .option('--json', 'Print a single JSON result instead of text (generate, validate, diff, clean, doctor, config show)')
+  .configureHelp({ showGlobalOptions: true })
+  // Unknown commands and options, missing arguments: commander prints the error, we pick the exit code
+  .exitOverride((error) => {
+    if (error.exitCode !== 0) {
+      process.exit(EXIT_CODES.USAGE);
+    }
+  })
+  .hook('preAction', (_program, actionCommand) => {
+    if (!program.opts().json) {
+      return;
+    }
+    const names: string[] = [];
+    for (let command: Command | null = actionCommand; command && command !== program; command = command.parent) {
+      names.unshift(command.name());
+    }
+    const commandPath = names.join(' ');
+    if (!JSON_COMMANDS.includes(commandPath)) {
+      throw new UsageError(`--json is not supported by 'chaim ${commandPath}'`, [
+        `Supported: ${JSON_COMMANDS.join(', ')}`,
+      ]);
+    }
+    enableJsonOutput();
+  });
 
 program
   .command('generate')
   .description('Generate SDK code from LOCAL snapshot (reads from OS cache)')
-  .requiredOption('--package <packageName>', 'Package name (e.g., com.mycompany.myapp.model for Java)')
-  .option('-l, --language <language>', 'Target language for code generation (default: java)')
-  .option('--output <outputDir>', 'Output directory', './src/main/java')
+  .option('--package <packageName>', 'Package name (e.g., com.mycompany.myapp.model for Java; default: javaPackage from chaim.json)')
+  .option('-l, --language <language>', 'Target language for code generation: java, typescript, python, or a plugin language (default: java)')
+  .option('--output <outputDir>', 'Output directory (default: ./src/main/java for Java, ./src/generated for TypeScript, ./generated for Python)')
+  .option('--python-models <style>', 'Python model classes: dataclass, pydantic (default: dataclass)')
   .option('--stack <stackName>', 'Filter by CDK stack name (optional)')
   .option('--snapshot-dir <path>', 'Override snapshot directory (default: OS cache)')
   .option('--skip-checks', 'Skip environment and schema validation checks')
-  .action(generateCommand);
+  .option('--target <name>', 'Generate a named target from chaim.json')
+  .option('--all-targets', 'Generate every target defined in chaim.json')
+  .option('--force', 'Regenerate all tables, even those unchanged since the last run')
+  .option('--prune', 'Delete previously generated files that are no longer produced')
+  .option('--dry-run', 'Show the planned output (snapshots, tables, files to create or change) without writing anything')
+  .option('--check', 'Fail if the output directory differs from freshly generated code (writes nothing)')
+  .option('--watch', 'Keep running and regenerate whenever snapshots change (Ctrl+C to stop)')
+  .action(withJsonOutput('generate', generateCommand));
 
 program
   .command('validate')
-  .description('Validate a .bprint schema file')
-  .argument('<schemaFile>', 'Schema file to validate')
-  .action(validateCommand);
+  .description('Validate .bprint schema files')
+  .argument('<schemaFile>', 'Schema file, directory or quoted glob (such as "schemas/**/*.bprint") to validate')
+  .option('--watch', 'Re-validate matching files on every save (Ctrl+C to stop)')
+  .option('-l, --language <language>', 'Language to resolve field names for (default: the configured language, else java)')
+  .option('--snapshot-dir <path>', 'Snapshot directory to read table bindings from for a directory or glob (default: OS cache)')
+  .action(withJsonOutput('validate', validateCommand));
 
 program
   .command('doctor')
   .description('Check system environment and dependencies')
-  .action(doctorCommand);
+  .action(withJsonOutput('doctor', doctorCommand));
 
 program
   .command('init')
@@ -87,15 +150,28 @@ program
   .option('--older-than <days>', 'Clean snapshots older than N days', parseInt)
   .option('--dry-run', 'Show what would be deleted without deleting')
   .option('--verbose', 'Show detailed output')
-  .action(cleanCommand);
+  .action(withJsonOutput('clean', cleanCommand));
 
 program
   .command('bump')
-  .description('Increment the schemaVersion in a .bprint file')
-  .argument('<schemaFile>', '.bprint file to version bump')
+  .description('Increment the schemaVersion in .bprint files')
+  .argument('<schemaFiles...>', '.bprint files, globs or directories to version bump')
   .option('--major', 'Major version bump (X.Y -> X+1.0) instead of minor (X.Y -> X.Y+1)')
+  .option('--auto', 'Pick major, minor or no bump from the changes since the last commit (or --against/--baseline)')
+  .option('--check', 'Fail if the schemaVersion is not bumped enough for the changes since the baseline (writes nothing)')
+  .option('--against <ref>', 'Git ref of the baseline for --auto/--check (default: HEAD)')
+  .option('--baseline <file>', 'Baseline .bprint file for --auto/--check instead of a git ref')
+  .option('--changelog [file]', 'Append the changes of the bumped schemas to a changelog (default: SCHEMA_CHANGELOG.md)')
   .action(bumpCommand);
 
+program
+  .command('diff')
+  .description('Compare two versions of a .bprint schema and recommend a version bump')
+  .argument('<schemaFile>', 'Old schema file, or the schema file to compare with --against')
+  .argument('[newSchemaFile]', 'New schema file')
+  .option('--against <ref>', 'Compare <schemaFile> with its version at a git ref (e.g., HEAD, HEAD~1, main)')
+  .action(withJsonOutput('diff', diffCommand));
+
 program
   .command('context')
   .description('Download AI agent context for using Chaim in your project')
@@ -105,6 +181,12 @@ program
   .option('--list-agents', 'Show supported agents, detection status, and file paths')
   .action(contextCommand);
 
+registerConfigureCommand(program);
+registerConfigShowCommand(program);
+registerConfigSetCommand(program);
+registerConfigGetCommand(program);
+registerConfigUnsetCommand(program);
+
 /**
  * ==========================
  * Planned Command Registration
@@ -119,13 +201,11 @@ program
 // registerAuthLogoutCommand(program);
 
 // ─── TIER 1: Core Productivity ───────────────────────────────────────────────
-// registerConfigureCommand(program);
 // registerAppsLinkCommand(program);
 
 // ─── TIER 3: Nice to Have ────────────────────────────────────────────────────
 // registerAuthRefreshCommand(program);
 // registerAppsListCommand(program);
-// registerConfigShowCommand(program);
 
 // Show help if no command provided
 if (process.argv.length <= 2) {
@@ -137,14 +217,17 @@ if (process.argv.length <= 2) {
   console.log('Commands:');
   console.log('  init      - Verify and install all prerequisites');
   console.log('  generate  - Generate SDK code from CDK snapshot (default: java)');
-  console.log('  validate  - Validate a .bprint schema file');
-  console.log('  bump      - Increment the schemaVersion in a .bprint file');
+  console.log('  validate  - Validate .bprint schema files');
+  console.log('  bump      - Increment the schemaVersion in .bprint files');
+  console.log('  diff      - Compare two schema versions and recommend a version bump');
   console.log('  doctor    - Check system environment and dependencies');
   console.log('  clean     - Clean snapshot cache (remove old or stale snapshots)');
   console.log('  context   - Download AI agent context for using Chaim in your project');
+  console.log('  configure - Set CLI defaults in chaim.json or ~/.chaim/config.json');
+  console.log('  config    - Show or edit configuration (config show|get|set|unset)');
   console.log('');
   console.log('Use \'chaim <command> --help\' for more information');
   process.exit(0);
 }
 
-program.parse();
+program.parseAsync().catch(handleError);
@@ -95,8 +95,9 @@ export const PLANNED_COMMANDS: PlannedCommandSpec[] = [
       'Store in global (~/.chaim/config.json) or repo (./chaim.json) config',
       'Validate inputs where possible',
       'Support --global and --local flags',
+      'Support --non-interactive --set key=value for scripting',
     ],
-    status: 'STUB',
+    status: 'IMPLEMENTED',
   },
   {
     id: 'apps.link',
@@ -135,8 +136,16 @@ export const PLANNED_COMMANDS: PlannedCommandSpec[] = [
     intentNotes: [
       'Read CloudFormation stack metadata',
       'Validate schemas using chaim-bprint-spec',
-      'Generate language-specific SDK (Java first)',
-      'Future: use defaults from config, require auth for Chaim APIs',
+      'Generate language-specific SDK (Java, TypeScript, Python)',
+      'Use defaults from global/repo config (package, output, language, stack, tables)',
+      'Run named targets from chaim.json (--target, --all-targets) with a combined summary',
+      'Skip tables unchanged since the last run using a manifest in the output directory (--force to regenerate)',
+      'Report orphaned generated files and delete them with --prune (--prune --dry-run to preview)',
+      'Fail CI when generated code is out of date (--check), with a unified diff per file',
+      'Preview the planned output without writing (--dry-run): snapshots used and skipped, tables, files to create or change',
+      'Machine-readable result with --json: generated files per table',
+      'Regenerate changed tables after each synth until interrupted (--watch)',
+      'Future: require auth for Chaim APIs',
     ],
     status: 'IMPLEMENTED',
   },
@@ -148,6 +157,22 @@ export const PLANNED_COMMANDS: PlannedCommandSpec[] = [
     intentNotes: [
       'Parse and validate against chaim-bprint-spec',
       'Report detailed validation errors',
+      'Machine-readable result with --json: resolved fields and collisions',
+      'Re-validate files matching a glob on save, flagging mapping changes and unbumped versions (--watch)',
+      'Validate a directory or glob in one table, with duplicate entityName and shared-table key checks',
+    ],
+    status: 'IMPLEMENTED',
+  },
+  {
+    id: 'diff',
+    commandPath: 'diff',
+    tier: 'TIER_2',
+    summary: 'Compare two versions of a .bprint schema',
+    intentNotes: [
+      'Compare two files, or a file with its version at a git ref (--against)',
+      'Classify each change as breaking or non-breaking, including nested fields',
+      'Recommend a major, minor or no bump from the old version',
+      'Machine-readable result with --json: changes and recommended bump',
     ],
     status: 'IMPLEMENTED',
   },
@@ -158,6 +183,7 @@ export const PLANNED_COMMANDS: PlannedCommandSpec[] = [
     summary: 'Check system environment and dependencies',
     intentNotes: [
       'Verify Node.js, Java, AWS CLI, AWS credentials',
+      'Machine-readable check results with --json',
       'Future: validate auth status and config files',
     ],
     status: 'IMPLEMENTED',
@@ -198,10 +224,45 @@ export const PLANNED_COMMANDS: PlannedCommandSpec[] = [
     intentNotes: [
       'Load global and repo config files',
       'Show merged/resolved values',
-      'Indicate source of each value (global vs repo)',
+      'Indicate source of each value (default, global, repo, env, CLI)',
       'Useful for debugging configuration issues',
     ],
-    status: 'STUB',
+    status: 'IMPLEMENTED',
+  },
+  {
+    id: 'config.get',
+    commandPath: 'config get',
+    tier: 'TIER_3',
+    summary: 'Print a single config value',
+    intentNotes: [
+      'Print the resolved value by default, or the file value with --global/--local',
+      'Strings print raw; arrays and booleans print as JSON',
+      'Exit 1 when the value is not set (for scripts)',
+    ],
+    status: 'IMPLEMENTED',
+  },
+  {
+    id: 'config.set',
+    commandPath: 'config set',
+    tier: 'TIER_3',
+    summary: 'Set a single config value',
+    intentNotes: [
+      'Type-check the value against the config schema before writing',
+      'Preserve comments, key order and formatting in the config file',
+      'Target the repo or global config like `configure`',
+    ],
+    status: 'IMPLEMENTED',
+  },
+  {
+    id: 'config.unset',
+    commandPath: 'config unset',
+    tier: 'TIER_3',
+    summary: 'Remove a single config value',
+    intentNotes: [
+      'Remove the key and leave the rest of the file untouched',
+      'Target the repo or global config like `configure`',
+    ],
+    status: 'IMPLEMENTED',
   },
 ];
 
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileWatcher, watchFiles, watchSnapshots } from './file-watcher';
+
+describe('watchSnapshots', () => {
+  let snapshotDir: string;
+  let watcher: FileWatcher | undefined;
+
+  const writeSnapshot = (relativePath: string, content = '{}'): string => {
+    const filePath = path.join(snapshotDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf-8');
+    return filePath;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-watch-test-'));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    vi.useRealTimers();
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+  });
+
+  it('should report a burst of changes once, after the debounce period', () => {
+    const existing = writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Users__User.json');
+    const onChange = vi.fn();
+    watcher = watchSnapshots(snapshotDir, onChange, { intervalMs: 100, debounceMs: 300 });
+
+    const added = writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Orders__Order.json');
+    vi.advanceTimersByTime(100);
+    writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Users__User.json', '{"changed":true}');
+    vi.advanceTimersByTime(200);
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith([added, existing].sort());
+  });
+
+  it('should report deleted snapshots and ignore other files', () => {
+    const existing = writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Users__User.json');
+    const onChange = vi.fn();
+    watcher = watchSnapshots(snapshotDir, onChange, { intervalMs: 100, debounceMs: 100 });
+
+    fs.rmSync(existing);
+    writeSnapshot('aws/123/us-east-1/Stack/dynamodb/notes.txt');
+    vi.advanceTimersByTime(300);
+
+    expect(onChange).toHaveBeenCalledWith([existing]);
+  });
+
+  it('should pick up a snapshot directory created after the watch started', () => {
+    fs.rmSync(snapshotDir, { recursive: true, force: true });
+    const onChange = vi.fn();
+    watcher = watchSnapshots(snapshotDir, onChange, { intervalMs: 100, debounceMs: 100 });
+    vi.advanceTimersByTime(300);
+    expect(onChange).not.toHaveBeenCalled();
+
+    const created = writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Users__User.json');
+    vi.advanceTimersByTime(300);
+
+    expect(onChange).toHaveBeenCalledWith([created]);
+  });
+
+  it('should stop reporting changes after close', () => {
+    const onChange = vi.fn();
+    watcher = watchSnapshots(snapshotDir, onChange, { intervalMs: 100, debounceMs: 100 });
+    watcher.close();
+
+    writeSnapshot('aws/123/us-east-1/Stack/dynamodb/Users__User.json');
+    vi.advanceTimersByTime(500);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('watchFiles', () => {
+  let dir: string;
+  let watcher: FileWatcher | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-watch-files-test-'));
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    vi.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list the files on every poll so new matches are watched', () => {
+    const listed = [path.join(dir, 'user.bprint')];
+    const onChange = vi.fn();
+    watcher = watchFiles(() => listed, onChange, { intervalMs: 100, debounceMs: 100 });
+
+    const added = path.join(dir, 'order.bprint');
+    fs.writeFileSync(added, '{}', 'utf-8');
+    vi.advanceTimersByTime(300);
+    expect(onChange).not.toHaveBeenCalled();
+
+    listed.push(added);
+    vi.advanceTimersByTime(300);
+    expect(onChange).toHaveBeenCalledWith([added]);
+  });
+});
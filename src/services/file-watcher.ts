@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Polling options for watchFiles().
+ */
+export interface FileWatchOptions {
+  /** How often the files are listed and checked, in milliseconds */
+  intervalMs?: number;
+  /** Quiet period after the last change before onChange is called, in milliseconds */
+  debounceMs?: number;
+}
+
+/**
+ * A running watch; call close() to stop it.
+ */
+export interface FileWatcher {
+  close(): void;
+}
+
+export const DEFAULT_WATCH_INTERVAL_MS = 500;
+export const DEFAULT_WATCH_DEBOUNCE_MS = 1000;
+
+/**
+ * Watch a set of files for additions, changes and deletions.
+ *
+ * Files are polled rather than watched with fs.watch, which is not recursive
+ * on Linux before Node 20 and fails for directories that do not exist yet
+ * (the snapshot cache is created by the first `cdk synth`). listFiles is
+ * called on every poll, so new files are picked up. Changes are collected
+ * until none have been seen for debounceMs, so a burst of writes (one synth,
+ * or an editor's save) results in a single onChange call with every changed path.
+ *
+ * @param listFiles - Returns the files to watch
+ * @param onChange - Called with the changed paths, sorted
+ */
+export function watchFiles(
+  listFiles: () => string[],
+  onChange: (changedFiles: string[]) => void,
+  options: FileWatchOptions = {}
+): FileWatcher {
+  const { intervalMs = DEFAULT_WATCH_INTERVAL_MS, debounceMs = DEFAULT_WATCH_DEBOUNCE_MS } = options;
+
+  let previous = statFiles(listFiles());
+  const pending = new Set<string>();
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = (): void => {
+    debounceTimer = undefined;
+    const changedFiles = [...pending].sort();
+    pending.clear();
+    onChange(changedFiles);
+  };
+
+  const poll = setInterval(() => {
+    const current = statFiles(listFiles());
+    const changed = diffStats(previous, current);
+    previous = current;
+    if (changed.length === 0) {
+      return;
+    }
+
+    changed.forEach((file) => pending.add(file));
+    if (debounceTimer) {
+      clearTimeout(debounceTimer);
+    }
+    debounceTimer = setTimeout(flush, debounceMs);
+  }, intervalMs);
+
+  return {
+    close: () => {
+      clearInterval(poll);
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+    },
+  };
+}
+
+/**
+ * Watch a snapshot directory (which need not exist) for added, changed and
+ * deleted snapshot files.
+ */
+export function watchSnapshots(
+  snapshotDir: string,
+  onChange: (changedFiles: string[]) => void,
+  options: FileWatchOptions = {}
+): FileWatcher {
+  return watchFiles(() => listJsonFiles(snapshotDir), onChange, options);
+}
+
+/**
+ * Resolve on the next SIGINT (Ctrl+C), which ends a watch.
+ */
+export function waitForInterrupt(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once('SIGINT', () => resolve());
+  });
+}
+
+/**
+ * List the .json files under a directory, recursively.
+ */
+function listJsonFiles(dir: string): string[] {
+  const files: string[] = [];
+
+  const visit = (current: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return; // Missing or unreadable directory
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        files.push(entryPath);
+      }
+    }
+  };
+
+  visit(dir);
+  return files;
+}
+
+/**
+ * Map each file to its modification time and size, skipping files that no longer exist.
+ */
+function statFiles(files: string[]): Map<string, string> {
+  const stats = new Map<string, string>();
+  for (const file of files) {
+    try {
+      const stat = fs.statSync(file);
+      stats.set(file, `${stat.mtimeMs}:${stat.size}`);
+    } catch {
+      // Deleted between listing and stat
+    }
+  }
+  return stats;
+}
+
+/**
+ * Paths added, changed or removed between two polls.
+ */
+function diffStats(previous: Map<string, string>, current: Map<string, string>): string[] {
+  const changed: string[] = [];
+  for (const [file, signature] of current) {
+    if (previous.get(file) !== signature) {
+      changed.push(file);
+    }
+  }
+  for (const file of previous.keys()) {
+    if (!current.has(file)) {
+      changed.push(file);
+    }
+  }
+  return changed;
+}
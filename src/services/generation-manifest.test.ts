@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MANIFEST_FILE_NAME,
+  GenerationInputs,
+  computeGenerationHash,
+  detectWrittenFiles,
+  emptyManifest,
+  findOrphans,
+  listOutputFiles,
+  pruneFiles,
+  readManifest,
+  writeManifest,
+} from './generation-manifest';
+
+const inputs: GenerationInputs = {
+  schemas: [{
+    schemaVersion: '1.0',
+    entityName: 'User',
+    primaryKey: { partitionKey: 'id' },
+    fields: [{ name: 'id', type: 'string', required: true }],
+  }],
+  tableMetadata: { tableName: 'Users', tableArn: 'arn', region: 'us-east-1', partitionKey: 'id' },
+  package: 'com.example',
+  language: 'java',
+  generatorSettings: {},
+  generatorVersion: '1.0.0',
+};
+
+describe('generation manifest', () => {
+  let outputDir: string;
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-manifest-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip a manifest, creating the output directory', () => {
+    const nested = path.join(outputDir, 'src', 'main', 'java');
+    const manifest = emptyManifest();
+    manifest.tables['arn'] = { tableName: 'Users', entities: ['User'], hash: 'abc', files: ['User.java'], generatedAt: '2024-01-01T00:00:00.000Z' };
+
+    writeManifest(nested, manifest);
+
+    expect(fs.existsSync(path.join(nested, MANIFEST_FILE_NAME))).toBe(true);
+    expect(readManifest(nested)).toEqual(manifest);
+  });
+
+  it('should treat a missing, corrupt or outdated manifest as empty', () => {
+    expect(readManifest(outputDir)).toEqual(emptyManifest());
+
+    fs.writeFileSync(path.join(outputDir, MANIFEST_FILE_NAME), '{ not json');
+    expect(readManifest(outputDir)).toEqual(emptyManifest());
+
+    fs.writeFileSync(path.join(outputDir, MANIFEST_FILE_NAME), JSON.stringify({ version: 99, tables: { arn: {} } }));
+    expect(readManifest(outputDir)).toEqual(emptyManifest());
+  });
+
+  it('should hash equal inputs equally regardless of key order', () => {
+    const reordered: GenerationInputs = {
+      generatorVersion: '1.0.0',
+      generatorSettings: {},
+      language: 'java',
+      package: 'com.example',
+      tableMetadata: { partitionKey: 'id', region: 'us-east-1', tableArn: 'arn', tableName: 'Users' },
+      schemas: [{
+        fields: [{ required: true, type: 'string', name: 'id' }],
+        primaryKey: { partitionKey: 'id' },
+        entityName: 'User',
+        schemaVersion: '1.0',
+      }],
+    };
+
+    expect(computeGenerationHash(reordered)).toBe(computeGenerationHash(inputs));
+  });
+
+  it('should change the hash when any input changes', () => {
+    const hash = computeGenerationHash(inputs);
+
+    expect(computeGenerationHash({ ...inputs, package: 'com.other' })).not.toBe(hash);
+    expect(computeGenerationHash({ ...inputs, language: 'typescript' })).not.toBe(hash);
+    expect(computeGenerationHash({ ...inputs, generatorVersion: '1.0.1' })).not.toBe(hash);
+    expect(computeGenerationHash({ ...inputs, generatorSettings: { models: 'pydantic' } })).not.toBe(hash);
+    expect(computeGenerationHash({ ...inputs, tableMetadata: { ...inputs.tableMetadata, sortKey: 'createdAt' } })).not.toBe(hash);
+    expect(computeGenerationHash({
+      ...inputs,
+      schemas: [{ ...inputs.schemas[0], fields: [...inputs.schemas[0].fields, { name: 'email', type: 'string' }] }],
+    })).not.toBe(hash);
+  });
+
+  it('should list output files and detect the ones written since an earlier listing', () => {
+    fs.mkdirSync(path.join(outputDir, 'com', 'example'), { recursive: true });
+    fs.writeFileSync(path.join(outputDir, 'com', 'example', 'User.java'), 'class User {}');
+    fs.writeFileSync(path.join(outputDir, MANIFEST_FILE_NAME), '{}');
+    const before = listOutputFiles(outputDir);
+
+    expect([...before.keys()]).toEqual(['com/example/User.java']);
+
+    fs.writeFileSync(path.join(outputDir, 'com', 'example', 'Order.java'), 'class Order {}');
+    expect(detectWrittenFiles(before, listOutputFiles(outputDir))).toEqual(['com/example/Order.java']);
+  });
+
+  it('should detect a rewritten file whose modification time did not change', () => {
+    const userFile = path.join(outputDir, 'User.java');
+    fs.writeFileSync(userFile, 'class User {}');
+    const { atime, mtime } = fs.statSync(userFile);
+    const before = listOutputFiles(outputDir);
+
+    fs.writeFileSync(userFile, 'class User { String id; }');
+    fs.utimesSync(userFile, atime, mtime);
+
+    expect(detectWrittenFiles(before, listOutputFiles(outputDir))).toEqual(['User.java']);
+  });
+
+  it('should find orphans among tracked files only and prune them with emptied directories', () => {
+    fs.mkdirSync(path.join(outputDir, 'com', 'old'), { recursive: true });
+    for (const file of ['User.java', 'Admin.java', 'Handwritten.java', 'com/old/Legacy.java']) {
+      fs.writeFileSync(path.join(outputDir, file), '');
+    }
+    const previous = emptyManifest();
+    previous.tables['users'] = { tableName: 'Users', entities: [], hash: 'a', files: ['User.java', 'Admin.java'], generatedAt: '' };
+    previous.orphans = ['com/old/Legacy.java', 'Deleted.java'];
+    const next = emptyManifest();
+    next.tables['users'] = { tableName: 'Users', entities: [], hash: 'b', files: ['User.java'], generatedAt: '' };
+
+    const orphans = findOrphans(previous, next, outputDir);
+    expect(orphans).toEqual(['Admin.java', 'com/old/Legacy.java']);
+
+    pruneFiles(outputDir, orphans);
+    expect(fs.readdirSync(outputDir).sort()).toEqual(['Handwritten.java', 'User.java']);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Generation manifest.
+ *
+ * `chaim generate` writes a manifest to the output directory recording, per
+ * table identity, a hash of everything that determines the generated code:
+ * the schemas, table metadata, package, language, generator settings and
+ * generator version. On the next run, tables whose hash is unchanged are
+ * skipped (unless --force is given).
+ *
+ * The manifest also lists the files generated for each table. Files that were
+ * generated before but are no longer produced are orphans, which can be
+ * deleted with --prune. Files the CLI never generated are never touched.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaData, TableMetadata } from '../types';
+
+/**
+ * Manifest file name, written to the root of the output directory.
+ */
+export const MANIFEST_FILE_NAME = '.chaim-manifest.json';
+
+/**
+ * Manifest format version. A manifest with a different version is ignored.
+ */
+export const MANIFEST_VERSION = 2;
+
+/**
+ * Manifest entry for one generated table.
+ */
+export interface ManifestTableEntry {
+  /** Physical table name (for readability) */
+  tableName: string;
+  /** Entities generated for the table */
+  entities: string[];
+  /** Hash of the generation inputs (see computeGenerationHash); empty after a failed run */
+  hash: string;
+  /** Generated files, relative to the output directory (forward slashes) */
+  files: string[];
+  /** When the table was last generated (ISO 8601) */
+  generatedAt: string;
+}
+
+/**
+ * Contents of the manifest file.
+ */
+export interface GenerationManifest {
+  version: number;
+  /** Entries keyed by table identity (table ARN or composite key) */
+  tables: Record<string, ManifestTableEntry>;
+  /** Orphaned files found on earlier runs and not yet pruned (relative paths) */
+  orphans?: string[];
+}
+
+/**
+ * Everything that determines the code generated for one table.
+ */
+export interface GenerationInputs {
+  schemas: SchemaData[];
+  tableMetadata: TableMetadata;
+  package?: string;
+  language: string;
+  generatorSettings: Record<string, string>;
+  /** Generator version; plugins that do not declare one are hashed as 'unversioned' */
+  generatorVersion?: string;
+}
+
+/**
+ * Get the manifest path for an output directory.
+ */
+export function getManifestPath(outputDir: string): string {
+  return path.join(path.resolve(outputDir), MANIFEST_FILE_NAME);
+}
+
+/**
+ * Create an empty manifest.
+ */
+export function emptyManifest(): GenerationManifest {
+  return { version: MANIFEST_VERSION, tables: {} };
+}
+
+/**
+ * Read the manifest from an output directory.
+ *
+ * A missing, unreadable or outdated manifest is treated as empty, so every
+ * table is regenerated.
+ */
+export function readManifest(outputDir: string): GenerationManifest {
+  const manifestPath = getManifestPath(outputDir);
+  if (!fs.existsSync(manifestPath)) {
+    return emptyManifest();
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    if (manifest?.version !== MANIFEST_VERSION || typeof manifest.tables !== 'object' || manifest.tables === null) {
+      return emptyManifest();
+    }
+    return manifest as GenerationManifest;
+  } catch {
+    return emptyManifest();
+  }
+}
+
+/**
+ * Write the manifest to an output directory, creating the directory if needed.
+ */
+export function writeManifest(outputDir: string, manifest: GenerationManifest): void {
+  const manifestPath = getManifestPath(outputDir);
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal inputs always
+ * produce the same hash regardless of key order in snapshot files.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Check whether two manifests have the same contents (ignoring key order).
+ */
+export function manifestsEqual(a: GenerationManifest, b: GenerationManifest): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Hash the generation inputs for one table (SHA-256, hex).
+ */
+export function computeGenerationHash(inputs: GenerationInputs): string {
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify({ ...inputs, generatorVersion: inputs.generatorVersion ?? 'unversioned' }))
+    .digest('hex');
+}
+
+/**
+ * Directories never scanned for generated files.
+ */
+const IGNORED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * List files in a directory with a fingerprint of each (modification time,
+ * size and content hash), keyed by relative path (forward slashes). The
+ * manifest itself is not included. This reads every file, so it is only used
+ * on directories that hold generated code: the Java package directory, or the
+ * output directory of a plugin that does not report the files it writes.
+ */
+export function listOutputFiles(outputDir: string): Map<string, string> {
+  const root = path.resolve(outputDir);
+  const files = new Map<string, string>();
+
+  const walk = (dir: string): void => {
+    if (!fs.existsSync(dir)) return;
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name)) walk(fullPath);
+      } else if (entry.isFile()) {
+        const relativePath = toManifestPath(root, fullPath);
+        if (relativePath !== MANIFEST_FILE_NAME) {
+          files.set(relativePath, fingerprintFile(fullPath));
+        }
+      }
+    }
+  };
+
+  walk(root);
+  return files;
+}
+
+/**
+ * Fingerprint a file by modification time, size and content hash. The hash
+ * catches rewrites that keep the same mtime (coarse timestamps, or a rewrite
+ * within the same tick).
+ */
+function fingerprintFile(filePath: string): string {
+  const { mtimeMs, size } = fs.statSync(filePath);
+  const hash = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+  return `${mtimeMs}:${size}:${hash}`;
+}
+
+/**
+ * Convert a file path to the relative form stored in the manifest.
+ */
+export function toManifestPath(outputDir: string, filePath: string): string {
+  return path.relative(path.resolve(outputDir), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+/**
+ * Find the files written between two listings of an output directory
+ * (new files, and files whose modification time, size or content changed).
+ */
+export function detectWrittenFiles(before: Map<string, string>, after: Map<string, string>): string[] {
+  return [...after]
+    .filter(([file, fingerprint]) => before.get(file) !== fingerprint)
+    .map(([file]) => file)
+    .sort();
+}
+
+/**
+ * Find orphaned files: files tracked by the previous manifest (or still
+ * pending as orphans) that no table in the next manifest produces and that
+ * still exist in the output directory.
+ *
+ * @returns Relative paths, sorted
+ */
+export function findOrphans(previous: GenerationManifest, next: GenerationManifest, outputDir: string): string[] {
+  const produced = new Set(Object.values(next.tables).flatMap((entry) => entry.files));
+  const tracked = new Set([
+    ...Object.values(previous.tables).flatMap((entry) => entry.files),
+    ...(previous.orphans ?? []),
+  ]);
+  const root = path.resolve(outputDir);
+
+  return [...tracked]
+    .filter((file) => !produced.has(file) && fs.existsSync(path.join(root, file)))
+    .sort();
+}
+
+/**
+ * Delete orphaned files, then remove directories left empty by the deletion
+ * (never the output directory itself).
+ */
+export function pruneFiles(outputDir: string, files: string[]): void {
+  const root = path.resolve(outputDir);
+
+  for (const file of files) {
+    const filePath = path.join(root, file);
+    fs.rmSync(filePath, { force: true });
+
+    let dir = path.dirname(filePath);
+    while (dir.startsWith(root + path.sep) && fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+      fs.rmdirSync(dir);
+      dir = path.dirname(dir);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { ChaimError, EnvironmentError, UsageError } from '../errors';
+
+/**
+ * Read a file as it was at a git ref (e.g., HEAD, HEAD~1, main).
+ *
+ * @returns The file content, or undefined if the file did not exist at that ref
+ * @throws UsageError for an unknown ref or a file outside a git repository
+ * @throws EnvironmentError if git is not installed
+ */
+export async function readFileAtRef(filePath: string, ref: string): Promise<string | undefined> {
+  const resolvedPath = path.resolve(filePath);
+  const { code, stdout, stderr } = await runGit(
+    ['show', `${ref}:./${path.basename(resolvedPath)}`],
+    path.dirname(resolvedPath)
+  );
+
+  if (code === 0) {
+    return stdout;
+  }
+  if (/does not exist in|exists on disk, but not in/.test(stderr)) {
+    return undefined;
+  }
+  if (/not a git repository/i.test(stderr)) {
+    throw new UsageError(`${filePath} is not in a git repository`);
+  }
+  if (/invalid object name|unknown revision|bad revision/i.test(stderr)) {
+    throw new UsageError(`Unknown git ref '${ref}'`);
+  }
+  throw new ChaimError(`git show failed: ${stderr.trim()}`);
+}
+
+/**
+ * Run git and collect its output.
+ */
+function runGit(args: string[], cwd: string): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const gitProcess = spawn('git', args, { cwd, stdio: 'pipe' });
+
+    let stdout = '';
+    let stderr = '';
+
+    gitProcess.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    gitProcess.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    gitProcess.on('close', (code) => {
+      resolve({ code, stdout, stderr });
+    });
+
+    gitProcess.on('error', () => {
+      reject(new EnvironmentError('git not found', ['Install git, or compare two files instead of a git ref.']));
+    });
+  });
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findFiles, findSchemaFiles, globToRegExp, hasGlobChars } from './glob';
+
+describe('globToRegExp', () => {
+  it('should match * within one path segment', () => {
+    const regex = globToRegExp('schemas/*.bprint');
+    expect(regex.test('schemas/user.bprint')).toBe(true);
+    expect(regex.test('schemas/orders/order.bprint')).toBe(false);
+    expect(regex.test('schemas/user.json')).toBe(false);
+  });
+
+  it('should match ** across any number of segments', () => {
+    const regex = globToRegExp('schemas/**/*.bprint');
+    expect(regex.test('schemas/user.bprint')).toBe(true);
+    expect(regex.test('schemas/orders/v2/order.bprint')).toBe(true);
+    expect(regex.test('other/user.bprint')).toBe(false);
+  });
+
+  it('should support ? and {a,b} and escape other characters', () => {
+    expect(globToRegExp('user?.bprint').test('user2.bprint')).toBe(true);
+    expect(globToRegExp('{user,order}.bprint').test('order.bprint')).toBe(true);
+    expect(globToRegExp('{user,order}.bprint').test('item.bprint')).toBe(false);
+    expect(globToRegExp('user.bprint').test('userxbprint')).toBe(false);
+  });
+});
+
+describe('findFiles', () => {
+  let cwd: string;
+
+  const touch = (relativePath: string): void => {
+    const filePath = path.join(cwd, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{}', 'utf-8');
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'chaim-glob-test-'));
+    touch('schemas/user.bprint');
+    touch('schemas/orders/order.bprint');
+    touch('schemas/notes.md');
+    touch('node_modules/pkg/schema.bprint');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should return matching files relative to cwd, sorted', () => {
+    expect(findFiles('schemas/**/*.bprint', cwd)).toEqual(['schemas/orders/order.bprint', 'schemas/user.bprint']);
+    expect(findFiles('./schemas/*.bprint', cwd)).toEqual(['schemas/user.bprint']);
+  });
+
+  it('should skip node_modules', () => {
+    expect(findFiles('**/*.bprint', cwd)).toEqual(['schemas/orders/order.bprint', 'schemas/user.bprint']);
+  });
+
+  it('should treat a pattern without glob syntax as a single file', () => {
+    expect(hasGlobChars('schemas/user.bprint')).toBe(false);
+    expect(findFiles('schemas/user.bprint', cwd)).toEqual(['schemas/user.bprint']);
+    expect(findFiles('schemas/missing.bprint', cwd)).toEqual([]);
+  });
+
+  it('should find the .bprint files in a directory or glob', () => {
+    expect(findSchemaFiles('schemas', cwd)).toEqual(['schemas/orders/order.bprint', 'schemas/user.bprint']);
+    expect(findSchemaFiles('schemas/*', cwd)).toEqual(['schemas/user.bprint']);
+    expect(findSchemaFiles('schemas/notes.md', cwd)).toEqual(['schemas/notes.md']);
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directories never searched by findFiles().
+ */
+const IGNORED_DIRS = ['node_modules', '.git', 'cdk.out'];
+
+/**
+ * Whether a path contains glob syntax.
+ */
+export function hasGlobChars(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths
+ * (with `/` separators).
+ *
+ * Supported syntax: `*` (anything within one path segment), `**` (any
+ * number of segments), `?` (one character) and `{a,b}` (alternatives).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Find the files matching a glob pattern, sorted. A pattern without glob
+ * syntax matches that file if it exists. Relative patterns resolve against
+ * cwd and return relative paths; node_modules, .git and cdk.out are skipped.
+ */
+export function findFiles(pattern: string, cwd: string = process.cwd()): string[] {
+  const normalized = pattern.split(path.sep).join('/');
+  if (!hasGlobChars(normalized)) {
+    return fs.existsSync(path.resolve(cwd, pattern)) ? [pattern] : [];
+  }
+
+  // Walk from the longest leading part of the pattern without glob syntax
+  const segments = normalized.split('/');
+  const firstGlob = segments.findIndex(hasGlobChars);
+  const baseDir = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const matcher = globToRegExp(normalized.startsWith('./') ? normalized.slice(2) : normalized);
+
+  const matches: string[] = [];
+  const visit = (dir: string): void => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.resolve(cwd, dir), { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = dir === '.' ? entry.name : path.posix.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.includes(entry.name)) {
+          visit(entryPath);
+        }
+      } else if (entry.isFile() && matcher.test(entryPath.startsWith('./') ? entryPath.slice(2) : entryPath)) {
+        matches.push(entryPath);
+      }
+    }
+  };
+
+  visit(baseDir);
+  return matches.sort();
+}
+
+/**
+ * Find the .bprint files for a directory (searched recursively) or a glob
+ * (matches without the .bprint extension are dropped). Any other path is
+ * returned as is if it exists.
+ */
+export function findSchemaFiles(pattern: string, cwd: string = process.cwd()): string[] {
+  if (hasGlobChars(pattern)) {
+    return findFiles(pattern, cwd).filter((file) => file.endsWith('.bprint'));
+  }
+  if (isDirectory(path.resolve(cwd, pattern))) {
+    return findFiles(path.posix.join(pattern.split(path.sep).join('/'), '**/*.bprint'), cwd);
+  }
+  return findFiles(pattern, cwd);
+}
+
+/**
+ * Whether a path is an existing directory.
+ */
+export function isDirectory(filePath: string): boolean {
+  return fs.existsSync(filePath) && fs.statSync(filePath).isDirectory();
+}
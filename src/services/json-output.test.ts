@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JSON_OUTPUT_VERSION, runWithJsonOutput, setCommandResult } from './json-output';
+import { EXIT_CODES, UsageError } from '../errors';
+
+describe('runWithJsonOutput', () => {
+  let written: string;
+  let exitMock: ReturnType<typeof vi.fn>;
+  const originalExit = process.exit;
+
+  beforeEach(() => {
+    written = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk: string | Uint8Array) => {
+      written += chunk.toString();
+      return true;
+    });
+    exitMock = vi.fn();
+    process.exit = exitMock as unknown as typeof process.exit;
+  });
+
+  afterEach(() => {
+    process.exit = originalExit;
+    vi.restoreAllMocks();
+  });
+
+  it('should print the reported result and suppress console output', async () => {
+    const log = vi.spyOn(console, 'log');
+
+    await runWithJsonOutput('validate', async () => {
+      console.log('human output');
+      console.warn('careful');
+      setCommandResult('validate', { entityName: 'User' });
+    });
+
+    expect(JSON.parse(written)).toEqual({
+      version: JSON_OUTPUT_VERSION,
+      command: 'validate',
+      success: true,
+      exitCode: 0,
+      result: { entityName: 'User' },
+      errors: [],
+      warnings: ['careful'],
+    });
+    expect(log).not.toHaveBeenCalled();
+    expect(exitMock).not.toHaveBeenCalled();
+  });
+
+  it('should report the exit code, message and hints of a thrown ChaimError', async () => {
+    await runWithJsonOutput('generate', async () => {
+      setCommandResult('generate', { targets: [] });
+      console.error('✗ Target failed');
+      throw new UsageError('--package is required', ['Example: chaim generate --package com.example']);
+    });
+
+    const output = JSON.parse(written);
+    expect(output).toMatchObject({ success: false, exitCode: EXIT_CODES.USAGE, result: { targets: [] } });
+    expect(output.errors).toEqual([
+      '✗ Target failed',
+      '--package is required',
+      'Example: chaim generate --package com.example',
+    ]);
+    expect(exitMock).toHaveBeenCalledWith(EXIT_CODES.USAGE);
+  });
+
+  it('should report uncaught errors and ignore results reported by other commands', async () => {
+    await runWithJsonOutput('generate', async () => {
+      setCommandResult('doctor', { checks: [] });
+      throw new Error('boom');
+    });
+
+    expect(JSON.parse(written)).toMatchObject({ exitCode: 1, result: null, errors: ['boom'] });
+    expect(exitMock).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Machine-readable output (--json).
+ *
+ * With the global --json flag, generate, validate, clean and doctor print a
+ * single JSON document to stdout instead of colored text. The command runs
+ * as usual with its console output suppressed: lines it prints as errors or
+ * warnings are collected, the result it reports with setCommandResult()
+ * becomes the `result` field, and an error it throws sets `exitCode`. The
+ * format is documented under "JSON output" in the README.
+ */
+
+import chalk from 'chalk';
+import { format } from 'util';
+import { ChaimError, getExitCode } from '../errors';
+
+/**
+ * JSON output format version, incremented on incompatible changes.
+ */
+export const JSON_OUTPUT_VERSION = 1;
+
+/**
+ * The document printed by a command run with --json.
+ */
+export interface JsonOutput<T = unknown> {
+  version: number;
+  /** Command name (generate, validate, clean, doctor) */
+  command: string;
+  /** True when the command exits 0 */
+  success: boolean;
+  /** Process exit code (see "Exit codes" in the README) */
+  exitCode: number;
+  /** Command-specific result, or null if the command stopped before producing one */
+  result: T | null;
+  /** Error messages printed by the command, then the message and hints of the error it threw */
+  errors: string[];
+  /** Warnings printed by the command */
+  warnings: string[];
+}
+
+/**
+ * A result reported by setCommandResult().
+ */
+interface ReportedResult {
+  command: string;
+  result: unknown;
+}
+
+let jsonOutput = false;
+let reported: ReportedResult | undefined;
+
+/**
+ * Switch to JSON output for the rest of the process: disables colors and spinners.
+ */
+export function enableJsonOutput(): void {
+  jsonOutput = true;
+  chalk.level = 0;
+}
+
+/**
+ * Whether --json was given.
+ */
+export function isJsonOutput(): boolean {
+  return jsonOutput;
+}
+
+/**
+ * Record the structured result of a command, printed as `result` with --json.
+ * Call it before throwing on failure, so the result is included in the output.
+ */
+export function setCommandResult(command: string, result: unknown): void {
+  reported = { command, result };
+}
+
+/**
+ * Run a command with console output suppressed, then print its JSON document
+ * and exit with the command's exit code.
+ */
+export async function runWithJsonOutput(command: string, action: () => Promise<unknown>): Promise<void> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const original = { log: console.log, error: console.error, warn: console.warn };
+  let code = 0;
+
+  const collect = (messages: string[]) => (...args: unknown[]): void => {
+    const message = format(...args).trim();
+    if (message) {
+      messages.push(message);
+    }
+  };
+
+  reported = undefined;
+  console.log = () => {};
+  console.error = collect(errors);
+  console.warn = collect(warnings);
+
+  try {
+    await action();
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+    if (error instanceof ChaimError) {
+      errors.push(...error.hints);
+    }
+    code = getExitCode(error);
+  } finally {
+    console.log = original.log;
+    console.error = original.error;
+    console.warn = original.warn;
+  }
+
+  // Set by the command while it ran (the compiler cannot see that)
+  const report = reported as ReportedResult | undefined;
+  const output: JsonOutput = {
+    version: JSON_OUTPUT_VERSION,
+    command,
+    success: code === 0,
+    exitCode: code,
+    result: report?.command === command ? report.result : null,
+    errors,
+    warnings,
+  };
+  reported = undefined;
+
+  process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+  if (code !== 0) {
+    process.exit(code);
+  }
+}
+
+/**
+ * Wrap a command action so it prints a JSON document when --json was given.
+ */
+export function withJsonOutput<A extends unknown[]>(
+  command: string,
+  action: (...args: A) => Promise<unknown>
+): (...args: A) => Promise<void> {
+  return async (...args: A) => {
+    if (jsonOutput) {
+      await runWithJsonOutput(command, () => action(...args));
+    } else {
+      await action(...args);
+    }
+  };
+}
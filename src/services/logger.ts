@@ -0,0 +1,33 @@
+/**
+ * Progress output for long-running operations.
+ *
+ * CLI commands print to the console; the programmatic API (src/api.ts) is
+ * silent unless the caller passes a logger, and returns its results as data.
+ */
+
+/**
+ * Receives the lines an operation would print.
+ */
+export interface Logger {
+  log(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  /** No output at all: spinners are disabled too */
+  silent?: boolean;
+}
+
+/**
+ * Print to the console (looked up on each call, so console overrides apply).
+ */
+export const consoleLogger: Logger = {
+  log: (...args) => console.log(...args),
+  error: (...args) => console.error(...args),
+};
+
+/**
+ * Discard all output.
+ */
+export const silentLogger: Logger = {
+  log: () => {},
+  error: () => {},
+  silent: true,
+};
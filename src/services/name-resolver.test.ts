@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import {
   toJavaCamelCase,
+  toSnakeCase,
   resolveFieldNames,
+  resolveNestedFieldNames,
   detectCollisions,
   VALID_IDENTIFIER_REGEX,
 } from './name-resolver';
@@ -39,6 +41,23 @@ describe('toJavaCamelCase', () => {
   });
 });
 
+describe('toSnakeCase', () => {
+  it('converts camelCase and hyphenated names to snake_case', () => {
+    expect(toSnakeCase('orderDate')).toBe('order_date');
+    expect(toSnakeCase('order-date')).toBe('order_date');
+    expect(toSnakeCase('OrderItem')).toBe('order_item');
+  });
+
+  it('splits acronyms from following words', () => {
+    expect(toSnakeCase('userIDNumber')).toBe('user_id_number');
+    expect(toSnakeCase('TTL')).toBe('ttl');
+  });
+
+  it('prefixes underscore for leading digits', () => {
+    expect(toSnakeCase('2fa-code')).toBe('_2fa_code');
+  });
+});
+
 describe('VALID_IDENTIFIER_REGEX', () => {
   it('accepts valid identifiers', () => {
     expect(VALID_IDENTIFIER_REGEX.test('userId')).toBe(true);
@@ -129,9 +148,127 @@ describe('resolveFieldNames', () => {
     expect(resolved[3].conversionType).toBe('none');
     expect(resolved[3].codeName).toBe('TTL');
   });
+
+  it('converts valid camelCase names to snake_case for python', () => {
+    const resolved = resolveFieldNames([{ name: 'orderId' }, { name: 'order_id' }, { name: 'TTL' }], 'python');
+
+    expect(resolved.map((r) => r.codeName)).toEqual(['order_id', 'order_id', 'ttl']);
+    expect(resolved.map((r) => r.conversionType)).toEqual(['auto', 'none', 'auto']);
+  });
+
+  it('never starts python names with an underscore', () => {
+    const resolved = resolveFieldNames([{ name: '2fa' }, { name: '_ttl' }, { name: '3-d-secure' }], 'python');
+
+    expect(resolved.map((r) => r.codeName)).toEqual(['field_2fa', 'ttl', 'field_3_d_secure']);
+    expect(resolved.map((r) => r.conversionType)).toEqual(['auto', 'auto', 'auto']);
+  });
+
+  it('escapes reserved words per language', () => {
+    const fields = [{ name: 'class' }, { name: 'enum' }, { name: 'def' }, { name: 'default-value' }];
+
+    expect(resolveFieldNames(fields, 'java').map((r) => [r.codeName, r.conversionType])).toEqual([
+      ['class_', 'escaped'],
+      ['enum_', 'escaped'],
+      ['def', 'none'],
+      ['defaultValue', 'auto'],
+    ]);
+    expect(resolveFieldNames(fields, 'python').map((r) => r.codeName)).toEqual([
+      'class_', 'enum', 'def_', 'default_value',
+    ]);
+    // Java contextual keywords and the underscore identifier
+    expect(resolveFieldNames(['record', 'var', 'yield', 'sealed', 'permits', '_'].map((name) => ({ name })), 'java')
+      .map((r) => r.codeName)).toEqual(['record_', 'var_', 'yield_', 'sealed_', 'permits_', '__']);
+    // Reserved words are valid TypeScript property names
+    expect(resolveFieldNames(fields, 'typescript').map((r) => r.codeName)).toEqual([
+      'class', 'enum', 'def', 'defaultValue',
+    ]);
+  });
+
+  it('escapes reserved words produced by auto-conversion', () => {
+    const [resolved] = resolveFieldNames([{ name: 'new-' }], 'java');
+
+    expect(resolved).toEqual({ originalName: 'new-', codeName: 'new_', conversionType: 'escaped' });
+  });
+
+  it('uses nameOverride verbatim even when it is a reserved word', () => {
+    const [resolved] = resolveFieldNames([{ name: 'kind', nameOverride: 'class' }], 'java');
+
+    expect(resolved.conversionType).toBe('override');
+    expect(resolved.codeName).toBe('class');
+  });
+
+  it('uses a custom naming convention from a generator plugin', () => {
+    const naming = { convert: (name: string) => name.toUpperCase().replace(/-/g, '_'), isIdiomatic: () => false };
+
+    const resolved = resolveFieldNames([{ name: 'order-id' }, { name: 'total', nameOverride: 'amount' }], naming);
+
+    expect(resolved.map((r) => r.codeName)).toEqual(['ORDER_ID', 'amount']);
+  });
+});
+
+describe('resolveNestedFieldNames', () => {
+  it('resolves nested map fields with dotted paths', () => {
+    const resolved = resolveNestedFieldNames([
+      { name: 'orderId' },
+      { name: 'shipping-address', fields: [{ name: 'zip-code' }, { name: 'street' }] },
+    ], 'java');
+
+    expect(resolved).toEqual([
+      { originalName: 'orderId', codeName: 'orderId', conversionType: 'none' },
+      { originalName: 'shipping-address', codeName: 'shippingAddress', conversionType: 'auto' },
+      { originalName: 'shipping-address.zip-code', codeName: 'shippingAddress.zipCode', conversionType: 'auto' },
+      { originalName: 'shipping-address.street', codeName: 'shippingAddress.street', conversionType: 'none' },
+    ]);
+  });
+
+  it('resolves list-of-map items and deeper nesting', () => {
+    const resolved = resolveNestedFieldNames([
+      { name: 'lines', items: { fields: [{ name: 'unit-price' }, { name: 'meta', fields: [{ name: 'created-by' }] }] } },
+    ], 'java');
+
+    expect(resolved.map((r) => `${r.originalName} -> ${r.codeName}`)).toEqual([
+      'lines -> lines',
+      'lines[].unit-price -> lines[].unitPrice',
+      'lines[].meta -> lines[].meta',
+      'lines[].meta.created-by -> lines[].meta.createdBy',
+    ]);
+  });
+
+  it('applies nameOverride and escaping at every level', () => {
+    const resolved = resolveNestedFieldNames([
+      { name: 'addr', nameOverride: 'address', fields: [{ name: 'zip', nameOverride: 'postalCode' }, { name: 'class' }] },
+    ], 'java');
+
+    expect(resolved.slice(1)).toEqual([
+      { originalName: 'addr.zip', codeName: 'address.postalCode', conversionType: 'override' },
+      { originalName: 'addr.class', codeName: 'address.class_', conversionType: 'escaped' },
+    ]);
+  });
+
+  it('scopes collisions to each nested type', () => {
+    const resolved = resolveNestedFieldNames([
+      { name: 'zipCode' },
+      { name: 'billing', fields: [{ name: 'zipCode' }] },
+      { name: 'shipping', fields: [{ name: 'zip-code' }, { name: 'zipCode' }] },
+    ], 'java');
+
+    const errors = detectCollisions(resolved);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].codeName).toBe('shipping.zipCode');
+    expect(errors[0].conflictingFields).toEqual(['shipping.zip-code', 'shipping.zipCode']);
+  });
 });
 
 describe('detectCollisions', () => {
+  it('detects collisions caused by escaping', () => {
+    const errors = detectCollisions(resolveFieldNames([{ name: 'class' }, { name: 'class_' }], 'java'));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].codeName).toBe('class_');
+    expect(errors[0].conflictingFields).toEqual(['class', 'class_']);
+  });
+
   it('returns no errors when no collisions', () => {
     const resolved = [
       { originalName: 'orderId', codeName: 'orderId', conversionType: 'none' as const },
@@ -1,8 +1,9 @@
 /**
  * Name resolution for code generation.
  *
- * Resolves effective Java identifiers from DynamoDB attribute names,
- * applying auto-conversion when needed and detecting collisions.
+ * Resolves effective Java/TypeScript/Python identifiers from DynamoDB attribute names,
+ * applying auto-conversion when needed and detecting collisions. Nested map and
+ * list-of-map fields are resolved with dotted paths (address.zip-code -> address.zipCode).
  */
 
 import { SupportedLanguage } from '../config/types';
@@ -14,11 +15,14 @@ export const VALID_IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
 
 /**
  * Resolved field with its original DynamoDB name, code name, and how it was resolved.
+ *
+ * `escaped` means the name (as-is or auto-converted) was a reserved word in the
+ * target language and was escaped (e.g., class -> class_).
  */
 export interface ResolvedField {
   originalName: string;
   codeName: string;
-  conversionType: 'none' | 'auto' | 'override';
+  conversionType: 'none' | 'auto' | 'override' | 'escaped';
 }
 
 /**
@@ -31,13 +35,20 @@ export interface CollisionError {
 }
 
 /**
- * Field-like input with name and optional nameOverride.
+ * Field-like input with name, optional nameOverride and optional nested fields.
  */
 interface FieldInput {
   name: string;
   nameOverride?: string;
+  fields?: FieldInput[];
+  items?: { fields?: FieldInput[] };
 }
 
+/**
+ * Path segment marking the items of a list (lines[].sku).
+ */
+export const LIST_ITEM_MARKER = '[]';
+
 /**
  * Convert a DynamoDB attribute name to a valid Java camelCase identifier.
  *
@@ -79,30 +90,132 @@ export function toJavaCamelCase(name: string): string {
 }
 
 /**
- * Get the auto-conversion function for a given target language.
+ * Convert a DynamoDB attribute name to a valid Python snake_case identifier.
+ *
+ * Rules:
+ * - Split on hyphens, underscores and camelCase boundaries
+ * - All segments are lowercased and joined with underscores
+ * - Acronyms stay together (e.g., orderID -> order_id, XMLData -> xml_data)
+ * - Leading digits get underscore prefix
+ */
+export function toSnakeCase(name: string): string {
+  if (!name) return name;
+
+  const result = name
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part.length > 0)
+    .join('_')
+    .toLowerCase();
+
+  return /^\d/.test(result) ? '_' + result : result;
+}
+
+/**
+ * Convert a DynamoDB attribute name to a Python attribute name (snake_case).
+ * Names starting with a digit get a `field_` prefix instead of an underscore,
+ * because pydantic treats underscore-prefixed fields as private and drops
+ * them from the model (2fa -> field_2fa).
+ */
+export function toPythonAttributeName(name: string): string {
+  const result = toSnakeCase(name);
+  return result.startsWith('_') ? `field${result}` : result;
+}
+
+/**
+ * How a target language names fields.
+ *
+ * Built-in languages get theirs from getNamingConvention(); generator plugins
+ * supply their own.
+ */
+export interface NamingConvention {
+  /** Convert an attribute name into an identifier for the language */
+  convert(name: string): string;
+  /** Whether a valid identifier can be used unchanged (default: any valid identifier is kept) */
+  isIdiomatic?(name: string): boolean;
+  /** Words that cannot be used as identifiers */
+  reservedWords?: string[];
+  /** Escape a reserved word (default: append an underscore) */
+  escape?(name: string): string;
+}
+
+/**
+ * Reserved words per built-in language (keywords and literals that cannot be
+ * used as field or parameter names in generated code). TypeScript properties
+ * may use any identifier, so its list only applies where a field name becomes
+ * a parameter or variable, such as key builders; it includes the words
+ * reserved in strict mode, which generated modules run in.
  */
-function getAutoConverter(language: SupportedLanguage): (name: string) => string {
+export const RESERVED_WORDS: Record<SupportedLanguage, string[]> = {
+  java: [
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const',
+    'continue', 'default', 'do', 'double', 'else', 'enum', 'extends', 'false', 'final', 'finally',
+    'float', 'for', 'goto', 'if', 'implements', 'import', 'instanceof', 'int', 'interface', 'long',
+    'native', 'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'short', 'static',
+    'strictfp', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'transient', 'true',
+    'try', 'void', 'volatile', 'while', '_',
+    // Contextual keywords that break generated code as type or local variable names
+    'permits', 'record', 'sealed', 'var', 'yield',
+  ],
+  typescript: [
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+    'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+    'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try',
+    'typeof', 'var', 'void', 'while', 'with', 'arguments', 'await', 'eval', 'implements', 'interface',
+    'let', 'package', 'private', 'protected', 'public', 'static', 'yield',
+  ],
+  python: [
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+    'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+    'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+  ],
+};
+
+/**
+ * Get the naming convention for a built-in language.
+ *
+ * Java and TypeScript accept any valid identifier and convert the rest to
+ * camelCase. Python also converts valid camelCase identifiers so generated
+ * attributes follow snake_case (PEP 8). TypeScript fields become properties,
+ * where reserved words are legal, so they are not escaped.
+ */
+export function getNamingConvention(language: SupportedLanguage): NamingConvention {
   switch (language) {
-    case 'java':
-      return toJavaCamelCase;
+    case 'python':
+      return {
+        convert: toPythonAttributeName,
+        isIdiomatic: (name) => toPythonAttributeName(name) === name,
+        reservedWords: RESERVED_WORDS.python,
+      };
+    case 'typescript':
+      return { convert: toJavaCamelCase };
     default:
-      return toJavaCamelCase;
+      return { convert: toJavaCamelCase, reservedWords: RESERVED_WORDS[language] };
   }
 }
 
+/**
+ * Escape a reserved word by appending an underscore (class -> class_).
+ */
+export function escapeReservedWord(name: string): string {
+  return `${name}_`;
+}
+
 /**
  * Resolve field names to their effective code identifiers.
  *
  * For each field:
- * - If nameOverride is set, use it (conversionType = 'override')
- * - If name is already a valid identifier, use it as-is (conversionType = 'none')
+ * - If nameOverride is set, use it verbatim (conversionType = 'override')
+ * - If name is already an idiomatic identifier (for Python: snake_case), use it as-is (conversionType = 'none')
  * - Otherwise, auto-convert using language conventions (conversionType = 'auto')
+ * - If the resulting name is a reserved word, escape it (conversionType = 'escaped')
  */
 export function resolveFieldNames(
   fields: FieldInput[],
-  language: SupportedLanguage
+  language: SupportedLanguage | NamingConvention
 ): ResolvedField[] {
-  const autoConvert = getAutoConverter(language);
+  const naming = typeof language === 'string' ? getNamingConvention(language) : language;
 
   return fields.map((field) => {
     if (field.nameOverride) {
@@ -113,24 +226,72 @@ export function resolveFieldNames(
       };
     }
 
-    if (VALID_IDENTIFIER_REGEX.test(field.name)) {
+    const idiomatic = VALID_IDENTIFIER_REGEX.test(field.name) && (naming.isIdiomatic?.(field.name) ?? true);
+    const codeName = idiomatic ? field.name : naming.convert(field.name);
+
+    if (naming.reservedWords?.includes(codeName)) {
       return {
         originalName: field.name,
-        codeName: field.name,
-        conversionType: 'none' as const,
+        codeName: (naming.escape ?? escapeReservedWord)(codeName),
+        conversionType: 'escaped' as const,
       };
     }
 
     return {
       originalName: field.name,
-      codeName: autoConvert(field.name),
-      conversionType: 'auto' as const,
+      codeName,
+      conversionType: idiomatic ? 'none' as const : 'auto' as const,
     };
   });
 }
 
+/**
+ * Resolve field names at every level of nesting.
+ *
+ * Returns one entry per field, depth-first (each field followed by its nested
+ * fields). Nested entries use dotted paths for both names, built from the
+ * resolved names of their parents: `address.zip-code` -> `address.zipCode`,
+ * and `lines[].unit-price` -> `lines[].unitPrice` for the items of a list of
+ * maps. nameOverride and reserved-word escaping apply at every level, and
+ * conversionType describes the last path segment.
+ */
+export function resolveNestedFieldNames(
+  fields: FieldInput[],
+  language: SupportedLanguage | NamingConvention
+): ResolvedField[] {
+  const naming = typeof language === 'string' ? getNamingConvention(language) : language;
+
+  const resolveLevel = (levelFields: FieldInput[], originalPrefix: string, codePrefix: string): ResolvedField[] =>
+    resolveFieldNames(levelFields, naming).flatMap((resolved, i) => {
+      const field = levelFields[i];
+      const entry: ResolvedField = {
+        originalName: originalPrefix + resolved.originalName,
+        codeName: codePrefix + resolved.codeName,
+        conversionType: resolved.conversionType,
+      };
+
+      const nested = field.fields
+        ? { fields: field.fields, suffix: '.' }
+        : field.items?.fields
+          ? { fields: field.items.fields, suffix: `${LIST_ITEM_MARKER}.` }
+          : undefined;
+      if (!nested) {
+        return [entry];
+      }
+      return [
+        entry,
+        ...resolveLevel(nested.fields, entry.originalName + nested.suffix, entry.codeName + nested.suffix),
+      ];
+    });
+
+  return resolveLevel(fields, '', '');
+}
+
 /**
  * Detect collisions where multiple fields resolve to the same code name.
+ *
+ * With the dotted paths from resolveNestedFieldNames(), nested fields only
+ * collide with fields of the same nested type.
  */
 export function detectCollisions(resolvedFields: ResolvedField[]): CollisionError[] {
   const codeNameToOriginals = new Map<string, string[]>();
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { toConstantCase, toPascalCase } from './naming';
+
+describe('naming', () => {
+  it('converts names to PascalCase', () => {
+    expect(toPascalCase('customer-index')).toBe('CustomerIndex');
+    expect(toPascalCase('orders_table')).toBe('OrdersTable');
+    expect(toPascalCase('2024-archive')).toBe('_2024Archive');
+  });
+
+  it('converts names to CONSTANT_CASE', () => {
+    expect(toConstantCase('OrdersTable')).toBe('ORDERS_TABLE');
+    expect(toConstantCase('orders-table')).toBe('ORDERS_TABLE');
+  });
+});
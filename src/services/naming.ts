@@ -0,0 +1,31 @@
+/**
+ * Case conversions for type, function and constant names in generated code.
+ *
+ * Field names are resolved by ./name-resolver.ts; these helpers name the
+ * generated types (nested interfaces and models, repositories, index query
+ * methods) and table constants, the same way for every generator.
+ */
+
+/**
+ * Convert a name to PascalCase (e.g., `customer-index` -> `CustomerIndex`).
+ */
+export function toPascalCase(name: string): string {
+  const result = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part.length > 0)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^\d/.test(result) ? `_${result}` : result;
+}
+
+/**
+ * Convert a name to CONSTANT_CASE (e.g., `OrdersTable` -> `ORDERS_TABLE`).
+ */
+export function toConstantCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter((part) => part.length > 0)
+    .join('_')
+    .toUpperCase();
+}
@@ -0,0 +1,89 @@
+/**
+ * Output comparison for `chaim generate --check` and `--dry-run`.
+ *
+ * Code is generated into a temporary directory and compared with the output
+ * directory, file by file, without modifying the output directory.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { UnifiedDiff, unifiedDiff } from './text-diff';
+
+/**
+ * How a file in the output directory compares with freshly generated code.
+ *
+ * - missing: generated, but not present in the output directory (would be created)
+ * - changed: present, with different content
+ * - unchanged: present, with the same content
+ * - orphaned: generated on an earlier run, but no longer produced
+ */
+export type FileStatus = 'missing' | 'changed' | 'unchanged' | 'orphaned';
+
+/**
+ * A generated (or orphaned) file compared with the output directory.
+ */
+export interface FileComparison {
+  /** Path relative to the output directory (forward slashes) */
+  file: string;
+  status: FileStatus;
+  /** Unified diff from the output file to the generated file (changed files only) */
+  diff?: UnifiedDiff;
+}
+
+/**
+ * Copy files from the output directory into the check directory, so
+ * generators that keep existing files (e.g., the Python __init__.py) see the
+ * same directory contents they would see when generating into the output.
+ *
+ * @param files - Paths relative to the output directory; missing files are skipped
+ */
+export function seedCheckDir(outputDir: string, checkDir: string, files: string[]): void {
+  const root = path.resolve(outputDir);
+  for (const file of files) {
+    const source = path.join(root, file);
+    if (!fs.existsSync(source)) continue;
+    const target = path.join(checkDir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(source, target);
+  }
+}
+
+/**
+ * Compare generated files with the output directory.
+ *
+ * @param generatedFiles - Files produced in the check directory (relative paths)
+ * @param orphans - Files in the output directory that are no longer produced (relative paths)
+ * @returns One comparison per file, sorted by path; out-of-date files are those not `unchanged`
+ */
+export function compareGeneratedOutput(
+  outputDir: string,
+  checkDir: string,
+  generatedFiles: string[],
+  orphans: string[]
+): FileComparison[] {
+  const root = path.resolve(outputDir);
+  const comparisons: FileComparison[] = [];
+
+  for (const file of new Set(generatedFiles)) {
+    const outputPath = path.join(root, file);
+    const generated = fs.readFileSync(path.join(checkDir, file), 'utf-8');
+    if (!fs.existsSync(outputPath)) {
+      comparisons.push({ file, status: 'missing' });
+      continue;
+    }
+    const current = fs.readFileSync(outputPath, 'utf-8');
+    // Line-ending differences (e.g., a CRLF checkout) are not drift
+    const diff = current === generated ? undefined : unifiedDiff(current, generated, `a/${file}`, `b/${file}`);
+    if (diff && diff.lines.length > 0) {
+      comparisons.push({ file, status: 'changed', diff });
+    } else {
+      comparisons.push({ file, status: 'unchanged' });
+    }
+  }
+
+  for (const file of orphans) {
+    comparisons.push({ file, status: 'orphaned' });
+  }
+
+  return comparisons.sort((a, b) => a.file.localeCompare(b.file));
+}
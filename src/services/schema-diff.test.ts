@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { SchemaData, SchemaField } from '../types';
+import { bumpVersion, diffSchemas, isBumpedEnough, recommendBump } from './schema-diff';
+
+const schema = (fields: SchemaField[], overrides: Partial<SchemaData> = {}): SchemaData => ({
+  schemaVersion: '1.2',
+  entityName: 'Order',
+  description: 'An order',
+  primaryKey: { partitionKey: 'orderId' },
+  fields: [{ name: 'orderId', type: 'string', required: true }, ...fields],
+  ...overrides,
+});
+
+describe('diffSchemas', () => {
+  it('should report no changes for identical schemas', () => {
+    const order = schema([{ name: 'total', type: 'number' }]);
+    expect(diffSchemas(order, { ...order, schemaVersion: '1.3' })).toEqual({ changes: [], recommendedBump: 'none' });
+  });
+
+  it('should treat removed fields, type changes and key changes as breaking', () => {
+    const before = schema([{ name: 'total', type: 'number' }, { name: 'note', type: 'string' }]);
+    const after = schema([{ name: 'total', type: 'string' }], { primaryKey: { partitionKey: 'orderId', sortKey: 'createdAt' } });
+
+    const { changes, recommendedBump } = diffSchemas(before, after);
+
+    expect(changes).toEqual([
+      { kind: 'primary-key-changed', breaking: true, message: 'sortKey changed from (none) to createdAt' },
+      { kind: 'type-changed', field: 'total', breaking: true, message: "Field 'total' type changed from number to string" },
+      { kind: 'field-removed', field: 'note', breaking: true, message: "Field 'note' removed" },
+    ]);
+    expect(recommendedBump).toBe('major');
+  });
+
+  it('should only treat new required fields without a default as breaking', () => {
+    const before = schema([{ name: 'status', type: 'string' }]);
+    const after = schema([
+      { name: 'status', type: 'string', required: true, default: 'NEW' },
+      { name: 'note', type: 'string' },
+      { name: 'currency', type: 'string', required: true },
+    ]);
+
+    const { changes } = diffSchemas(before, after);
+
+    expect(changes.map((c) => [c.kind, c.field, c.breaking])).toEqual([
+      ['required-added', 'status', false],
+      ['default-changed', 'status', false],
+      ['field-added', 'note', false],
+      ['field-added', 'currency', true],
+    ]);
+  });
+
+  it('should classify enum and constraint changes', () => {
+    const before = schema([
+      { name: 'status', type: 'string', enum: ['NEW', 'PAID'] },
+      { name: 'code', type: 'string', constraints: { maxLength: 10, pattern: '^[A-Z]+$' } },
+      { name: 'qty', type: 'number', constraints: { min: 1 } },
+    ]);
+    const after = schema([
+      { name: 'status', type: 'string', enum: ['NEW', 'SHIPPED'] },
+      { name: 'code', type: 'string', constraints: { maxLength: 5, minLength: 2 } },
+      { name: 'qty', type: 'number', constraints: { min: 0 } },
+    ]);
+
+    const { changes } = diffSchemas(before, after);
+
+    expect(changes.map((c) => [c.kind, c.breaking, c.message])).toEqual([
+      ['enum-value-removed', true, "Field 'status' enum value 'PAID' removed"],
+      ['enum-value-added', false, "Field 'status' enum value 'SHIPPED' added"],
+      ['constraint-tightened', true, "Field 'code' minLength 2 added"],
+      ['constraint-tightened', true, "Field 'code' maxLength changed from 10 to 5"],
+      ['constraint-loosened', false, "Field 'code' pattern ^[A-Z]+$ removed"],
+      ['constraint-loosened', false, "Field 'qty' min changed from 1 to 0"],
+    ]);
+  });
+
+  it('should compare nested map and list-of-map fields by path', () => {
+    const before = schema([
+      { name: 'address', type: 'map', fields: [{ name: 'zip', type: 'string' }] },
+      { name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'qty', type: 'number' }] } },
+    ]);
+    const after = schema([
+      { name: 'address', type: 'map', fields: [{ name: 'zip', type: 'number' }] },
+      { name: 'lines', type: 'list', items: { type: 'map', fields: [{ name: 'qty', type: 'number' }, { name: 'sku', type: 'string' }] } },
+    ]);
+
+    expect(diffSchemas(before, after).changes.map((c) => [c.field, c.kind])).toEqual([
+      ['address.zip', 'type-changed'],
+      ['lines[].sku', 'field-added'],
+    ]);
+  });
+
+  it('should recommend no bump when only descriptions changed', () => {
+    const before = schema([{ name: 'total', type: 'number', description: 'Total' }]);
+    const after = schema([{ name: 'total', type: 'number', description: 'Order total' }], { description: 'A customer order' });
+
+    expect(diffSchemas(before, after).recommendedBump).toBe('none');
+    expect(diffSchemas(before, schema([{ name: 'total', type: 'number', description: 'Total', annotations: { pii: true } }])).recommendedBump)
+      .toBe('minor');
+  });
+});
+
+describe('recommendBump', () => {
+  it('should pick the highest bump any change calls for', () => {
+    expect(recommendBump([])).toBe('none');
+    expect(recommendBump([{ kind: 'field-added', breaking: false, message: '' }])).toBe('minor');
+    expect(recommendBump([
+      { kind: 'field-added', breaking: false, message: '' },
+      { kind: 'field-removed', breaking: true, message: '' },
+    ])).toBe('major');
+  });
+});
+
+describe('bumpVersion', () => {
+  it('should bump major.minor versions', () => {
+    expect(bumpVersion('1.3', 'major')).toBe('2.0');
+    expect(bumpVersion('1.3', 'minor')).toBe('1.4');
+    expect(bumpVersion('1.3', 'none')).toBe('1.3');
+    expect(bumpVersion('v1', 'minor')).toBeUndefined();
+  });
+});
+
+describe('isBumpedEnough', () => {
+  it('should accept any version at or above the required one', () => {
+    expect(isBumpedEnough('1.2', '1.3', 'minor')).toBe(true);
+    expect(isBumpedEnough('1.2', '2.0', 'minor')).toBe(true);
+    expect(isBumpedEnough('1.2', '1.3', 'major')).toBe(false);
+    expect(isBumpedEnough('1.2', '1.10', 'minor')).toBe(true);
+    expect(isBumpedEnough('1.2', '1.2', 'minor')).toBe(false);
+    expect(isBumpedEnough('1.2', '1.2', 'none')).toBe(true);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Schema evolution: what changed between two versions of a .bprint schema,
+ * and which version bump that calls for.
+ *
+ * A change is breaking when data or code written against the old schema may
+ * not work with the new one: removed fields, type changes, new required
+ * fields without a default, removed enum values, tightened constraints,
+ * renamed generated accessors, or a different entity name or primary key.
+ */
+
+import { SchemaData, SchemaField } from '../types';
+import { LIST_ITEM_MARKER } from './name-resolver';
+
+/**
+ * Kinds of schema change.
+ */
+export type SchemaChangeKind =
+  | 'entity-renamed'
+  | 'primary-key-changed'
+  | 'field-added'
+  | 'field-removed'
+  | 'type-changed'
+  | 'required-added'
+  | 'required-removed'
+  | 'enum-added'
+  | 'enum-removed'
+  | 'enum-value-added'
+  | 'enum-value-removed'
+  | 'constraint-tightened'
+  | 'constraint-loosened'
+  | 'default-changed'
+  | 'name-override-changed'
+  | 'annotations-changed'
+  | 'description-changed';
+
+/**
+ * One difference between two schema versions.
+ */
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  /** Field path, dotted for nested fields (`address.zip`, `lines[].qty`); unset for entity-level changes */
+  field?: string;
+  breaking: boolean;
+  message: string;
+}
+
+/**
+ * Version bump called for by a set of changes.
+ */
+export type VersionBump = 'major' | 'minor' | 'none';
+
+/**
+ * Result of comparing two schema versions.
+ */
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  /** major for any breaking change, minor for other changes, none if only descriptions changed */
+  recommendedBump: VersionBump;
+}
+
+/**
+ * Constraints where a larger value is stricter; for the others a smaller value is stricter.
+ */
+const LOWER_BOUNDS = ['minLength', 'min'] as const;
+const UPPER_BOUNDS = ['maxLength', 'max'] as const;
+
+/**
+ * Compare two versions of a schema.
+ */
+export function diffSchemas(oldSchema: SchemaData, newSchema: SchemaData): SchemaDiff {
+  const changes: SchemaChange[] = [];
+
+  if (oldSchema.entityName !== newSchema.entityName) {
+    changes.push({
+      kind: 'entity-renamed',
+      breaking: true,
+      message: `Entity renamed from ${oldSchema.entityName} to ${newSchema.entityName}`,
+    });
+  }
+
+  for (const key of ['partitionKey', 'sortKey'] as const) {
+    const before = oldSchema.primaryKey[key];
+    const after = newSchema.primaryKey[key];
+    if (before !== after) {
+      changes.push({
+        kind: 'primary-key-changed',
+        breaking: true,
+        message: `${key} changed from ${before ?? '(none)'} to ${after ?? '(none)'}`,
+      });
+    }
+  }
+
+  if (oldSchema.description !== newSchema.description) {
+    changes.push({ kind: 'description-changed', breaking: false, message: 'Entity description changed' });
+  }
+  if (JSON.stringify(oldSchema.annotations ?? {}) !== JSON.stringify(newSchema.annotations ?? {})) {
+    changes.push({ kind: 'annotations-changed', breaking: false, message: 'Entity annotations changed' });
+  }
+
+  diffFields(oldSchema.fields, newSchema.fields, '', changes);
+
+  return { changes, recommendedBump: recommendBump(changes) };
+}
+
+/**
+ * major for any breaking change, minor for any other change except
+ * description text, otherwise none.
+ */
+export function recommendBump(changes: SchemaChange[]): VersionBump {
+  if (changes.some((change) => change.breaking)) {
+    return 'major';
+  }
+  return changes.some((change) => change.kind !== 'description-changed') ? 'minor' : 'none';
+}
+
+/**
+ * Apply a bump to a "major.minor" version: 1.3 -> 2.0 (major) or 1.4 (minor).
+ * Returns undefined if the version is not in "major.minor" format.
+ */
+export function bumpVersion(version: string, bump: VersionBump): string | undefined {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return undefined;
+  }
+
+  const [major, minor] = parsed;
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0`;
+    case 'minor':
+      return `${major}.${minor + 1}`;
+    case 'none':
+      return version;
+  }
+}
+
+/**
+ * Whether newVersion is at least the version a bump of oldVersion calls for
+ * (any higher version counts, so 1.2 -> 3.0 satisfies a minor bump).
+ * Versions not in "major.minor" format never satisfy a bump.
+ */
+export function isBumpedEnough(oldVersion: string, newVersion: string, bump: VersionBump): boolean {
+  const required = parseVersion(bumpVersion(oldVersion, bump) ?? '');
+  const actual = parseVersion(newVersion);
+  if (!required || !actual) {
+    return bump === 'none';
+  }
+  return actual[0] > required[0] || (actual[0] === required[0] && actual[1] >= required[1]);
+}
+
+/**
+ * Split a "major.minor" version into numbers.
+ */
+function parseVersion(version: string): [number, number] | undefined {
+  const match = /^(\d+)\.(\d+)$/.exec(version);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+}
+
+/**
+ * Compare two lists of fields by name, recursing into map and list-of-map fields.
+ */
+function diffFields(oldFields: SchemaField[], newFields: SchemaField[], prefix: string, changes: SchemaChange[]): void {
+  const oldByName = new Map(oldFields.map((field) => [field.name, field]));
+  const newNames = new Set(newFields.map((field) => field.name));
+
+  for (const field of newFields) {
+    const fieldPath = `${prefix}${field.name}`;
+    const old = oldByName.get(field.name);
+    if (!old) {
+      const breaking = !!field.required && field.default === undefined;
+      changes.push({
+        kind: 'field-added',
+        field: fieldPath,
+        breaking,
+        message: breaking ? `Required field '${fieldPath}' added without a default` : `Field '${fieldPath}' added`,
+      });
+    } else {
+      diffField(old, field, fieldPath, changes);
+    }
+  }
+
+  for (const field of oldFields) {
+    if (!newNames.has(field.name)) {
+      const fieldPath = `${prefix}${field.name}`;
+      changes.push({ kind: 'field-removed', field: fieldPath, breaking: true, message: `Field '${fieldPath}' removed` });
+    }
+  }
+}
+
+/**
+ * Compare two versions of the same field.
+ */
+function diffField(old: SchemaField, field: SchemaField, fieldPath: string, changes: SchemaChange[]): void {
+  const oldType = describeType(old);
+  const newType = describeType(field);
+  if (oldType !== newType) {
+    changes.push({
+      kind: 'type-changed',
+      field: fieldPath,
+      breaking: true,
+      message: `Field '${fieldPath}' type changed from ${oldType} to ${newType}`,
+    });
+    return; // Nested fields of a different type are not comparable
+  }
+
+  if (!old.required && field.required) {
+    const breaking = field.default === undefined;
+    changes.push({
+      kind: 'required-added',
+      field: fieldPath,
+      breaking,
+      message: breaking
+        ? `Field '${fieldPath}' is now required, without a default`
+        : `Field '${fieldPath}' is now required (default: ${JSON.stringify(field.default)})`,
+    });
+  } else if (old.required && !field.required) {
+    changes.push({ kind: 'required-removed', field: fieldPath, breaking: false, message: `Field '${fieldPath}' is no longer required` });
+  }
+
+  diffEnum(old.enum, field.enum, fieldPath, changes);
+  diffConstraints(old.constraints ?? {}, field.constraints ?? {}, fieldPath, changes);
+
+  if (JSON.stringify(old.default) !== JSON.stringify(field.default)) {
+    changes.push({
+      kind: 'default-changed',
+      field: fieldPath,
+      breaking: false,
+      message: `Field '${fieldPath}' default changed from ${JSON.stringify(old.default) ?? '(none)'} to ${JSON.stringify(field.default) ?? '(none)'}`,
+    });
+  }
+
+  if (old.nameOverride !== field.nameOverride) {
+    changes.push({
+      kind: 'name-override-changed',
+      field: fieldPath,
+      breaking: true,
+      message: `Field '${fieldPath}' nameOverride changed from ${old.nameOverride ?? '(none)'} to ${field.nameOverride ?? '(none)'}, renaming it in generated code`,
+    });
+  }
+
+  if (JSON.stringify(old.annotations ?? {}) !== JSON.stringify(field.annotations ?? {})) {
+    changes.push({ kind: 'annotations-changed', field: fieldPath, breaking: false, message: `Field '${fieldPath}' annotations changed` });
+  }
+  if (old.description !== field.description) {
+    changes.push({ kind: 'description-changed', field: fieldPath, breaking: false, message: `Field '${fieldPath}' description changed` });
+  }
+
+  if (old.fields || field.fields) {
+    diffFields(old.fields ?? [], field.fields ?? [], `${fieldPath}.`, changes);
+  }
+  if (old.items?.fields || field.items?.fields) {
+    diffFields(old.items?.fields ?? [], field.items?.fields ?? [], `${fieldPath}${LIST_ITEM_MARKER}.`, changes);
+  }
+}
+
+/**
+ * Compare the allowed values of a field.
+ */
+function diffEnum(before: string[] | undefined, after: string[] | undefined, fieldPath: string, changes: SchemaChange[]): void {
+  if (!before && after) {
+    changes.push({
+      kind: 'enum-added',
+      field: fieldPath,
+      breaking: true,
+      message: `Field '${fieldPath}' restricted to ${after.join(', ')}`,
+    });
+  } else if (before && !after) {
+    changes.push({ kind: 'enum-removed', field: fieldPath, breaking: false, message: `Field '${fieldPath}' no longer restricted to enum values` });
+  } else if (before && after) {
+    for (const value of before.filter((v) => !after.includes(v))) {
+      changes.push({ kind: 'enum-value-removed', field: fieldPath, breaking: true, message: `Field '${fieldPath}' enum value '${value}' removed` });
+    }
+    for (const value of after.filter((v) => !before.includes(v))) {
+      changes.push({ kind: 'enum-value-added', field: fieldPath, breaking: false, message: `Field '${fieldPath}' enum value '${value}' added` });
+    }
+  }
+}
+
+/**
+ * Compare the constraints of a field. A new or stricter bound, or a new or
+ * different pattern, is a tightening.
+ */
+function diffConstraints(
+  before: NonNullable<SchemaField['constraints']>,
+  after: NonNullable<SchemaField['constraints']>,
+  fieldPath: string,
+  changes: SchemaChange[]
+): void {
+  const push = (name: string, tightened: boolean, from: unknown, to: unknown): void => {
+    const detail = from === undefined ? `${name} ${to} added`
+      : to === undefined ? `${name} ${from} removed`
+      : `${name} changed from ${from} to ${to}`;
+    changes.push({
+      kind: tightened ? 'constraint-tightened' : 'constraint-loosened',
+      field: fieldPath,
+      breaking: tightened,
+      message: `Field '${fieldPath}' ${detail}`,
+    });
+  };
+
+  for (const name of [...LOWER_BOUNDS, ...UPPER_BOUNDS]) {
+    const from = before[name];
+    const to = after[name];
+    if (from === to) continue;
+
+    const stricter = (LOWER_BOUNDS as readonly string[]).includes(name)
+      ? to !== undefined && (from === undefined || to > from)
+      : to !== undefined && (from === undefined || to < from);
+    push(name, stricter, from, to);
+  }
+
+  if (before.pattern !== after.pattern) {
+    push('pattern', after.pattern !== undefined, before.pattern, after.pattern);
+  }
+}
+
+/**
+ * Type of a field, including the item type of lists (list<string>).
+ */
+function describeType(field: SchemaField): string {
+  return field.type === 'list' && field.items ? `list<${field.items.type}>` : field.type;
+}
@@ -0,0 +1,54 @@
+import { validateSchema } from '@chaim-tools/chaim-bprint-spec';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaData } from '../types';
+import { SchemaValidationError } from '../errors';
+import { readFileAtRef } from './git';
+
+/**
+ * Parse .bprint content and check it against the spec.
+ *
+ * @param source - File (and ref) the content came from, for error messages
+ * @throws SchemaValidationError if the content is not JSON or not a valid schema
+ */
+export function parseSchema(content: string, source: string): SchemaData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new SchemaValidationError(`${source} is not valid JSON`, source);
+  }
+
+  try {
+    return validateSchema(raw) as SchemaData;
+  } catch (error) {
+    throw new SchemaValidationError(
+      `Schema validation failed for ${source}: ${error instanceof Error ? error.message : error}`,
+      source
+    );
+  }
+}
+
+/**
+ * Read a .bprint file and check it against the spec.
+ *
+ * @throws SchemaValidationError if the file is missing or invalid
+ */
+export function readSchemaFile(schemaFile: string): SchemaData {
+  const resolvedPath = path.resolve(schemaFile);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new SchemaValidationError(`Schema file not found: ${schemaFile}`, schemaFile);
+  }
+  return parseSchema(fs.readFileSync(resolvedPath, 'utf-8'), schemaFile);
+}
+
+/**
+ * Read a .bprint file as it was at a git ref and check it against the spec.
+ *
+ * @returns The schema, or undefined if the file did not exist at that ref
+ * @throws SchemaValidationError if the file was invalid at that ref
+ */
+export async function readSchemaAtRef(schemaFile: string, ref: string): Promise<SchemaData | undefined> {
+  const content = await readFileAtRef(schemaFile, ref);
+  return content === undefined ? undefined : parseSchema(content, `${schemaFile} (${ref})`);
+}
@@ -0,0 +1,140 @@
+import { ResolvedSnapshot } from './snapshot-discovery';
+import { KeyConsistencyError } from '../errors';
+
+/**
+ * Table resource of a snapshot (v3.0 `resource` or legacy `dataStore`).
+ */
+interface SnapshotTableResource {
+  id?: string;
+  arn?: string;
+  tableArn?: string;
+  name?: string;
+  tableName?: string;
+}
+
+/**
+ * The parts of a snapshot payload that identify its binding and table, in
+ * both the v3.0 and legacy layouts.
+ */
+interface SnapshotTableFields {
+  identity?: { bindingId?: string };
+  resource?: SnapshotTableResource;
+  dataStore?: SnapshotTableResource;
+  providerIdentity?: { accountId?: string; region?: string };
+  accountId?: string;
+  region?: string;
+}
+
+/**
+ * Read a snapshot's payload through the fields used here.
+ */
+function tableFields(snapshot: ResolvedSnapshot): SnapshotTableFields {
+  return snapshot.snapshot;
+}
+
+/**
+ * Get the table resource of a snapshot, supporting both v3.0 (resource) and legacy (dataStore) structure.
+ */
+function tableResource(snapshot: ResolvedSnapshot): SnapshotTableResource {
+  const fields = tableFields(snapshot);
+  return fields.resource || fields.dataStore || {};
+}
+
+/**
+ * Get the stable identity of an entity's binding to a table, used to keep
+ * only the newest snapshot per binding.
+ */
+export function getBindingId(snapshot: ResolvedSnapshot): string {
+  return tableFields(snapshot).identity?.bindingId
+    ?? `${snapshot.stackName}:${snapshot.entityName}`;  // fallback for pre-v3 snapshots
+}
+
+/**
+ * Get a unique table identity for grouping entities.
+ * Prefers tableArn (globally unique), falls back to composite key.
+ */
+export function getTableIdentity(snapshot: ResolvedSnapshot): string {
+  const snap = tableFields(snapshot);
+  const resource = tableResource(snapshot);
+  const accountId = snap.providerIdentity?.accountId || snap.accountId;
+  const region = snap.providerIdentity?.region || snap.region;
+
+  // Prefer ARN if it's resolved (not a CDK token)
+  const resourceId = resource.id || resource.tableArn || resource.arn;
+  if (resourceId && !resourceId.includes('${')) {
+    return resourceId;
+  }
+
+  // Fallback to composite key: {accountId}:{region}:{name}
+  return `${accountId}:${region}:${getTableName(snapshot)}`;
+}
+
+/**
+ * Get the physical table name for a snapshot.
+ */
+export function getTableName(snapshot: ResolvedSnapshot): string {
+  const resource = tableResource(snapshot);
+  return resource.name || resource.tableName || '';
+}
+
+/**
+ * Validate that all entities bound to the same table have matching PK/SK field names.
+ * This is required because DynamoDB tables have a single key schema that all items must use.
+ * 
+ * @throws KeyConsistencyError if entities have mismatched key definitions
+ */
+export function validateTableKeyConsistency(tableSnapshots: ResolvedSnapshot[], tableName: string): void {
+  if (tableSnapshots.length <= 1) {
+    return; // Single entity, no consistency check needed
+  }
+
+  const first = tableSnapshots[0];
+  
+  // Check if first snapshot has valid schema (should not be null for UPSERT)
+  if (!first.snapshot.schema) {
+    throw new Error(`Cannot validate table key consistency: first snapshot has null schema (DELETE action)`);
+  }
+  
+  const firstPk = first.snapshot.schema.primaryKey?.partitionKey;
+  const firstSk = first.snapshot.schema.primaryKey?.sortKey;
+  const firstEntity = first.entityName;
+
+  for (let i = 1; i < tableSnapshots.length; i++) {
+    const snap = tableSnapshots[i];
+    
+    // Skip DELETE snapshots (null schema)
+    if (!snap.snapshot.schema) {
+      continue;
+    }
+    
+    const pk = snap.snapshot.schema.primaryKey?.partitionKey;
+    const sk = snap.snapshot.schema.primaryKey?.sortKey;
+    const entity = snap.entityName;
+
+    // Check partition key matches
+    if (pk !== firstPk) {
+      throw new KeyConsistencyError(
+        `Entity '${entity}' has incompatible partition key for table '${tableName}'.\n` +
+        `  Expected: partitionKey='${firstPk}' (from entity '${firstEntity}')\n` +
+        `  Found:    partitionKey='${pk}'\n\n` +
+        `All entities bound to the same table must have matching PK/SK field names.`,
+        tableName,
+        entity
+      );
+    }
+
+    // Check sort key matches (both defined or both undefined)
+    if (sk !== firstSk) {
+      const expectedSk = firstSk || '(none)';
+      const foundSk = sk || '(none)';
+      throw new KeyConsistencyError(
+        `Entity '${entity}' has incompatible sort key for table '${tableName}'.\n` +
+        `  Expected: sortKey='${expectedSk}' (from entity '${firstEntity}')\n` +
+        `  Found:    sortKey='${foundSk}'\n\n` +
+        `All entities bound to the same table must have matching PK/SK field names.`,
+        tableName,
+        entity
+      );
+    }
+  }
+}
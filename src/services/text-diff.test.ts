@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, unifiedDiff } from './text-diff';
+
+describe('diffLines', () => {
+  it('marks added and removed lines between common lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+      { type: 'context', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'context', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a'])).toEqual([{ type: 'added', text: 'a' }]);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('returns no lines for equal texts', () => {
+    expect(unifiedDiff('a\nb\n', 'a\nb\n', 'a/f', 'b/f')).toEqual({ lines: [], added: 0, removed: 0 });
+  });
+
+  it('produces hunks with context and line numbers', () => {
+    const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11', '12'].join('\n') + '\n';
+    const newText = ['1', '2', 'three', '4', '5', '6', '7', '8', '9', '10', '11', '12', '13'].join('\n') + '\n';
+
+    const diff = unifiedDiff(oldText, newText, 'a/User.java', 'b/User.java');
+
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(1);
+    expect(diff.lines).toEqual([
+      '--- a/User.java',
+      '+++ b/User.java',
+      '@@ -1,6 +1,6 @@',
+      ' 1',
+      ' 2',
+      '-3',
+      '+three',
+      ' 4',
+      ' 5',
+      ' 6',
+      '@@ -10,3 +10,4 @@',
+      ' 10',
+      ' 11',
+      ' 12',
+      '+13',
+    ]);
+  });
+
+  it('treats CRLF and LF line endings alike', () => {
+    expect(unifiedDiff('a\r\nb\r\n', 'a\nb\n', 'a/f', 'b/f').lines).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Line-based text diff with unified diff output.
+ *
+ * Used by `chaim generate --check` to show how generated files differ from
+ * the files in the output directory. Common leading and trailing lines are
+ * trimmed before running an LCS diff on the rest, so regenerated files with
+ * small changes stay cheap to compare.
+ */
+
+/**
+ * One line of a diff.
+ */
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * A unified diff with line counts.
+ */
+export interface UnifiedDiff {
+  /** Diff lines, starting with the ---/+++ headers; empty when the texts are equal */
+  lines: string[];
+  added: number;
+  removed: number;
+}
+
+/**
+ * Largest middle section (old lines × new lines) compared line by line;
+ * beyond this the whole section is shown as replaced.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Split text into lines, ignoring the newline at the end of the last line.
+ */
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Diff two line arrays.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const prefix = oldLines.slice(0, start).map((text): DiffLine => ({ type: 'context', text }));
+  const suffix = oldLines.slice(oldEnd).map((text): DiffLine => ({ type: 'context', text }));
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+
+  return [...prefix, ...diffMiddle(oldMiddle, newMiddle), ...suffix];
+}
+
+/**
+ * Diff the differing middle section using a longest-common-subsequence table.
+ */
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((text): DiffLine => ({ type: 'removed', text })),
+      ...newLines.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'context', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i++] });
+    } else {
+      result.push({ type: 'added', text: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: 'removed', text: oldLines[i++] });
+  while (j < m) result.push({ type: 'added', text: newLines[j++] });
+  return result;
+}
+
+/**
+ * Build a unified diff (as produced by `diff -u`) between two texts.
+ *
+ * @param context - Number of unchanged lines shown around each change
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3
+): UnifiedDiff {
+  const diff = diffLines(splitLines(oldText), splitLines(newText));
+  const added = diff.filter((line) => line.type === 'added').length;
+  const removed = diff.filter((line) => line.type === 'removed').length;
+  if (added === 0 && removed === 0) {
+    return { lines: [], added, removed };
+  }
+
+  // Group changes into hunks, merging changes separated by at most 2 * context lines
+  const changed = diff.map((line, index) => (line.type === 'context' ? -1 : index)).filter((index) => index >= 0);
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(diff.length, index + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      hunks.push([from, to]);
+    }
+  }
+
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [from, to] of hunks) {
+    // Line numbers (1-based) of the hunk start in the old and new texts
+    const before = diff.slice(0, from);
+    const oldStart = before.filter((line) => line.type !== 'added').length + 1;
+    const newStart = before.filter((line) => line.type !== 'removed').length + 1;
+    const hunk = diff.slice(from, to);
+    const oldCount = hunk.filter((line) => line.type !== 'added').length;
+    const newCount = hunk.filter((line) => line.type !== 'removed').length;
+
+    lines.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    for (const line of hunk) {
+      lines.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}${line.text}`);
+    }
+  }
+
+  return { lines, added, removed };
+}
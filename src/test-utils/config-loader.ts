@@ -0,0 +1,39 @@
+/**
+ * Config loader mock shared by command tests.
+ */
+
+import { vi } from 'vitest';
+import type { LoadConfigOptions } from '../config/loader';
+
+type ConfigLoaderModule = typeof import('../config/loader');
+
+/**
+ * Directory and environment an isolated config loader reads from.
+ */
+export interface ConfigIsolation {
+  /** Used as both the working directory and the home directory */
+  dir: string;
+  /** Environment variables (default: none) */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Factory for `vi.mock` of the config loader that isolates config loading
+ * from the real home directory, cwd and environment. `isolation` is called
+ * on every load, so tests can point it at a fresh directory in beforeEach.
+ *
+ * @example
+ * vi.mock('../config/loader', async () =>
+ *   (await import('../test-utils/config-loader')).mockConfigLoader(() => ({ dir: mocks.tmpDir })));
+ */
+export async function mockConfigLoader(isolation: () => ConfigIsolation): Promise<ConfigLoaderModule> {
+  const actual = await vi.importActual<ConfigLoaderModule>('../config/loader');
+  return {
+    ...actual,
+    loadConfig: (options: LoadConfigOptions = {}) => {
+      const { dir, env = {} } = isolation();
+      return actual.loadConfig({ ...options, cwd: dir, homeDir: dir, env });
+    },
+    getGlobalConfigPath: () => actual.getGlobalConfigPath(isolation().dir),
+  };
+}
@@ -39,9 +39,11 @@ export interface SchemaField {
   annotations?: Record<string, unknown>;
   items?: {
     type: 'string' | 'number' | 'boolean' | 'timestamp' | 'map';
-    fields?: { name: string; type: string }[];
+    /** Fields of each item when `type` is `map` (nested to any depth) */
+    fields?: SchemaField[];
   };
-  fields?: { name: string; type: string }[];
+  /** Fields of a `map` field (nested to any depth) */
+  fields?: SchemaField[];
 }
 
 /**